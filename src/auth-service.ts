@@ -3,42 +3,87 @@ import path from 'path';
 import os from 'os';
 import open from 'open';
 import chalk from 'chalk';
+import { readWranglerToken } from './wrangler-auth.js';
+import { verifyToken } from './diagnostics.js';
+import {
+  SecretStore, SecretBackend, SecretServiceStore, KeychainStore, EncryptedFileStore, pickSecretStore,
+} from './secret-store.js';
 
 export interface AuthToken {
   accessToken: string;
-  source: 'r2sql-shell' | 'env' | 'manual';
+  source: 'r2sql-shell' | 'wrangler' | 'env' | 'manual';
   configPath?: string; // Path where the token was found
 }
 
 export interface StoredCredentials {
-  access_token: string;
+  access_token?: string; // Plaintext token from older versions, moved to token_store when next read
+  token_store?: SecretBackend; // Where the profile's API token is kept
   account_id?: string;
   bucket_name?: string;
+  query_timeout?: number; // Client-side query timeout in seconds
 }
 
+export interface ProfileSummary {
+  name: string;
+  accountId?: string;
+  bucketName?: string;
+  current: boolean;
+}
+
+// config.json layout: settings per named profile; the API tokens themselves are in a secret store. Older files held a single set of credentials at
+// the top level; those are read as the "default" profile and rewritten on the next change.
+interface ConfigFile {
+  current_profile?: string;
+  profiles: Record<string, StoredCredentials>;
+}
+
+export const DEFAULT_PROFILE = 'default';
+
 /**
  * Authentication service that implements the priority chain:
- * 1. Check ~/.r2sql-shell/config.json (our stored tokens)
- * 2. Check CLOUDFLARE_API_TOKEN env var
- * 3. Check .env file
- * 4. Return null if nothing found
+ * 1. Check ~/.r2sql-shell/config.json (our stored tokens, for the selected profile)
+ * 2. Check wrangler's OAuth login (~/.wrangler/config/default.toml), refreshing an expired token
+ * 3. Check CLOUDFLARE_API_TOKEN env var
+ * 4. Check .env file
+ * 5. Return null if nothing found
  */
 export class AuthService {
   private static CONFIG_DIR = path.join(os.homedir(), '.r2sql-shell');
   private static CONFIG_FILE = path.join(AuthService.CONFIG_DIR, 'config.json');
-
+  private static SECRETS_FILE = path.join(AuthService.CONFIG_DIR, 'secrets.enc');
+  private static passphrase: string | null = null; // Asked once per process for the encrypted file
+  private static secretStores: SecretStore[] = [
+    new SecretServiceStore(),
+    new KeychainStore(),
+    new EncryptedFileStore(AuthService.SECRETS_FILE, isNew => AuthService.askPassphrase(isNew)),
+  ];
 
   /**
-   * Get authentication token following the priority chain
+   * Get authentication token following the priority chain. profile defaults to the current profile; a
+   * profile named explicitly must have its own token, since the other sources may belong to another
+   * account than its account_id and bucket. With interactive false a locked encrypted file throws instead of asking for its passphrase, for
+   * callers that own the terminal (the TUI).
    */
-  static async getAuthToken(): Promise<AuthToken | null> {
+  static async getAuthToken(profile?: string, interactive: boolean = true): Promise<AuthToken | null> {
     // 1. Try our stored tokens
-    const r2sqlToken = await this.getR2SQLToken();
+    const r2sqlToken = await this.getR2SQLToken(profile, interactive);
     if (r2sqlToken) {
       return r2sqlToken;
     }
+    if (profile && this.hasProfile(profile)) {
+      throw new Error(
+        `Profile '${profile}' has no stored API token.\n` +
+        `  Run \`r2sql-shell login --profile ${profile}\` to store one.`
+      );
+    }
 
-    // 2. Try CLOUDFLARE_API_TOKEN env var
+    // 2. Try wrangler's login
+    const wranglerToken = await this.getWranglerToken();
+    if (wranglerToken) {
+      return wranglerToken;
+    }
+
+    // 3. Try CLOUDFLARE_API_TOKEN env var
     const envToken = process.env.CLOUDFLARE_API_TOKEN;
     if (envToken) {
       return {
@@ -47,31 +92,164 @@ export class AuthService {
       };
     }
 
-    // 3. .env file is already loaded by dotenv in config.ts
+    // 4. .env file is already loaded by dotenv in config.ts
     // So if we reach here and nothing is found, return null
     return null;
   }
 
   /**
-   * Read our own stored API token
+   * Read our own stored API token from the secret store holding it. Errors unlocking the store and a
+   * token missing from it are thrown rather than falling through to other sources.
    */
-  private static async getR2SQLToken(): Promise<AuthToken | null> {
+  private static async getR2SQLToken(
+    profile: string = this.getCurrentProfileName(),
+    interactive: boolean = true
+  ): Promise<AuthToken | null> {
+    const credentials = this.readProfile(profile);
+
+    if (credentials?.access_token) {
+      await this.migratePlaintextTokens();
+      return {
+        accessToken: credentials.access_token,
+        source: 'r2sql-shell',
+        configPath: this.CONFIG_FILE,
+      };
+    }
+
+    if (!credentials?.token_store) {
+      return null;
+    }
+
+    // A missing secret is an error: wrangler's or the environment's token may belong to another account
+    // than the profile's account_id and bucket
+    const store = this.getSecretStore(credentials.token_store, interactive);
+    const accessToken = await store.get(profile);
+    if (!accessToken) {
+      throw new Error(
+        `The API token of profile '${profile}' is missing from the ${store.description}.\n` +
+        `  Run \`r2sql-shell login --profile ${profile}\` to store it again.`
+      );
+    }
+
+    return {
+      accessToken,
+      source: 'r2sql-shell',
+      configPath: this.CONFIG_FILE,
+    };
+  }
+
+  private static getSecretStore(backend: SecretBackend, interactive: boolean = true): SecretStore {
+    if (backend === 'encrypted-file' && !interactive) {
+      // Same file, but unlocked only with a passphrase that is already known
+      return new EncryptedFileStore(this.SECRETS_FILE, isNew => this.askPassphrase(isNew, false));
+    }
+    return this.secretStores.find(store => store.backend === backend)!;
+  }
+
+  /**
+   * Save a profile's token in the preferred secret store, falling back to the encrypted file if the
+   * OS store rejects it. Returns the store that holds it.
+   */
+  private static async saveToken(profile: string, token: string): Promise<SecretStore> {
+    const preferred = await pickSecretStore(this.secretStores);
     try {
-      if (!fs.existsSync(this.CONFIG_FILE)) {
-        return null;
+      await preferred.set(profile, token);
+      return preferred;
+    } catch (error) {
+      const fallback = this.getSecretStore('encrypted-file');
+      if (preferred === fallback) throw error;
+
+      // stderr, so `query` output piped elsewhere stays clean
+      console.error(chalk.yellow(`⚠ ${error instanceof Error ? error.message : String(error)}; using an encrypted file instead`));
+      await fallback.set(profile, token);
+      return fallback;
+    }
+  }
+
+  /**
+   * Move plaintext tokens written by older versions out of config.json. If no store can take them
+   * (e.g. no passphrase can be asked for), they stay where they are until the next run.
+   */
+  private static async migratePlaintextTokens(): Promise<void> {
+    const config = this.readConfigFile();
+    const plaintext = Object.keys(config.profiles).filter(name => config.profiles[name].access_token);
+    if (plaintext.length === 0) return;
+
+    try {
+      for (const name of plaintext) {
+        const store = await this.saveToken(name, config.profiles[name].access_token!);
+        const { access_token, ...rest } = config.profiles[name];
+        config.profiles[name] = { ...rest, token_store: store.backend };
+        // Save after each profile so a failure part-way doesn't lose the ones already moved
+        this.writeConfigFile(config);
       }
+      console.error(chalk.dim(`Moved stored API tokens out of ${this.CONFIG_FILE} into a secret store`));
+    } catch (error) {
+      // Keep using the plaintext token; migration is retried on the next run
+    }
+  }
 
-      const content = fs.readFileSync(this.CONFIG_FILE, 'utf-8');
-      const credentials: StoredCredentials = JSON.parse(content);
+  /**
+   * Passphrase for the encrypted token file, from R2SQL_SHELL_PASSPHRASE or a prompt
+   */
+  private static async askPassphrase(isNew: boolean, interactive: boolean = true): Promise<string> {
+    if (process.env.R2SQL_SHELL_PASSPHRASE) {
+      return process.env.R2SQL_SHELL_PASSPHRASE;
+    }
+    if (this.passphrase) {
+      return this.passphrase;
+    }
+    if (!interactive) {
+      throw new Error(
+        'Stored API tokens are in an encrypted file that is still locked. ' +
+        'Start the shell with --profile <name> to enter its passphrase, or set R2SQL_SHELL_PASSPHRASE.'
+      );
+    }
+    if (!process.stdin.isTTY) {
+      throw new Error('Stored API tokens are in an encrypted file. Set R2SQL_SHELL_PASSPHRASE to unlock it.');
+    }
 
-      if (!credentials.access_token) {
+    const inquirer = (await import('inquirer')).default;
+    if (isNew) {
+      console.log(chalk.dim('No OS secret store is available, so API tokens are encrypted with a passphrase.'));
+    }
+    const { passphrase } = await inquirer.prompt([
+      {
+        type: 'password',
+        name: 'passphrase',
+        message: isNew ? 'Choose a passphrase for stored API tokens:' : 'Passphrase for stored API tokens:',
+        mask: '*',
+        validate: (input: string) => input.length >= 8 || !isNew || 'Use at least 8 characters',
+      },
+    ]);
+
+    if (isNew) {
+      const { confirmation } = await inquirer.prompt([
+        { type: 'password', name: 'confirmation', message: 'Repeat the passphrase:', mask: '*' },
+      ]);
+      if (confirmation !== passphrase) {
+        throw new Error('Passphrases do not match');
+      }
+    }
+
+    this.passphrase = passphrase;
+    return passphrase;
+  }
+
+  /**
+   * Read wrangler's OAuth token. A config that can't be parsed or refreshed is skipped.
+   */
+  private static async getWranglerToken(): Promise<AuthToken | null> {
+    try {
+      const token = await readWranglerToken();
+      if (!token) {
         return null;
       }
 
       return {
-        accessToken: credentials.access_token,
-        source: 'r2sql-shell',
-        configPath: this.CONFIG_FILE,
+        accessToken: token.accessToken,
+        source: 'wrangler',
+        configPath: token.configPath,
       };
     } catch (error) {
       return null;
@@ -79,10 +257,14 @@ export class AuthService {
   }
 
   /**
-   * Interactive login - guide user to create API token and store it
+   * Interactive login - guide user to create API token and store it under the profile. A queryTimeout
+   * (seconds) is stored with the profile; without one the profile keeps its current timeout.
    */
-  static async login(): Promise<AuthToken> {
+  static async login(profile: string = this.getCurrentProfileName(), queryTimeout?: number): Promise<AuthToken> {
     console.log(chalk.blue.bold('🔐 Setting up r2sql-shell\n'));
+    if (profile !== DEFAULT_PROFILE) {
+      console.log(chalk.dim('Profile: ') + chalk.white(profile) + '\n');
+    }
 
     const inquirer = (await import('inquirer')).default;
 
@@ -248,28 +430,16 @@ export class AuthService {
     // Test the token by making a simple API call
     console.log(chalk.dim('\nValidating token...'));
 
-    try {
-      const response = await fetch('https://api.cloudflare.com/client/v4/user/tokens/verify', {
-        headers: {
-          'Authorization': `Bearer ${apiToken}`,
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error('Token validation failed');
-      }
-
-      const data = await response.json() as any;
-
-      if (!data.success) {
-        throw new Error('Invalid token');
-      }
-
+    const verification = await verifyToken(apiToken, trimmedAccountId);
+    if (verification.valid) {
       console.log(chalk.green('✓ Token validated successfully!\n'));
-
-    } catch (error) {
-      console.log(chalk.yellow('⚠ Warning: Could not validate token, but proceeding anyway.'));
-      console.log(chalk.dim('If you have issues, please verify your token permissions.\n'));
+    } else if (verification.valid === null) {
+      console.log(chalk.yellow('⚠ Warning: Could not reach Cloudflare to validate the token, but proceeding anyway.'));
+      console.log(chalk.dim('Run `r2sql-shell doctor` later to check it.\n'));
+    } else {
+      throw new Error(verification.status
+        ? `This token is ${verification.status}. Create a new one and run login again.`
+        : 'Cloudflare rejected this token. Check it was copied completely, or create a new one.');
     }
 
     // Step 3: Ask for bucket name
@@ -292,18 +462,24 @@ export class AuthService {
 
     // Store everything
     const credentials: StoredCredentials = {
-      access_token: apiToken,
       account_id: trimmedAccountId,
       bucket_name: bucketName.trim(),
     };
+    if (queryTimeout) {
+      credentials.query_timeout = queryTimeout;
+    }
 
-    await this.storeTokens(credentials);
+    const store = await this.storeTokens(apiToken, credentials, profile);
 
     console.log(chalk.green.bold('\n✓ Configuration saved successfully!'));
     console.log(chalk.dim(`\nStored in: ${this.CONFIG_FILE}`));
+    console.log(chalk.dim('  • Profile: ') + chalk.white(profile));
     console.log(chalk.dim('  • Account ID: ') + chalk.white(trimmedAccountId));
     console.log(chalk.dim('  • Bucket: ') + chalk.white(bucketName.trim()));
-    console.log(chalk.dim('  • API Token: ') + chalk.white('****** (hidden)'));
+    console.log(chalk.dim('  • API Token: ') + chalk.white(`****** (in ${store.description})`));
+    if (queryTimeout) {
+      console.log(chalk.dim('  • Query timeout: ') + chalk.white(`${queryTimeout}s`));
+    }
 
     return {
       accessToken: apiToken,
@@ -313,19 +489,61 @@ export class AuthService {
   }
 
   /**
-   * Logout - remove stored credentials
+   * Logout - remove the profile's stored credentials (the current profile by default)
    */
-  static async logout(): Promise<void> {
-    if (fs.existsSync(this.CONFIG_FILE)) {
-      fs.unlinkSync(this.CONFIG_FILE);
+  static async logout(profile: string = this.getCurrentProfileName()): Promise<void> {
+    if (this.readProfile(profile)) {
+      await this.removeProfile(profile);
+    }
+    console.log(chalk.green('✓ Logged out successfully') + (profile !== DEFAULT_PROFILE ? chalk.dim(` (profile ${profile})`) : ''));
+  }
+
+  /**
+   * Store the token in a secret store and the rest of the credentials in config.json under the profile.
+   * The first stored profile becomes the current one.
+   */
+  private static async storeTokens(apiToken: string, credentials: StoredCredentials, profile: string): Promise<SecretStore> {
+    const store = await this.saveToken(profile, apiToken);
+
+    const config = this.readConfigFile();
+    const previous = config.profiles[profile]?.token_store;
+    if (previous && previous !== store.backend) {
+      await this.getSecretStore(previous).delete(profile).catch(() => undefined);
+    }
+
+    // Keep settings that login doesn't ask for, like query_timeout
+    const { access_token, ...existing } = config.profiles[profile] || {};
+    config.profiles[profile] = { ...existing, ...credentials, token_store: store.backend };
+    if (!config.current_profile || !config.profiles[config.current_profile]) {
+      config.current_profile = profile;
     }
-    console.log(chalk.green('✓ Logged out successfully'));
+    this.writeConfigFile(config);
+    return store;
   }
 
   /**
-   * Store tokens to disk
+   * Read config.json, converting the older single-credential layout
    */
-  private static async storeTokens(credentials: StoredCredentials): Promise<void> {
+  private static readConfigFile(): ConfigFile {
+    try {
+      if (!fs.existsSync(this.CONFIG_FILE)) {
+        return { profiles: {} };
+      }
+
+      const content = JSON.parse(fs.readFileSync(this.CONFIG_FILE, 'utf-8'));
+      if (content.profiles && typeof content.profiles === 'object') {
+        return { current_profile: content.current_profile, profiles: content.profiles };
+      }
+      if (content.access_token) {
+        return { current_profile: DEFAULT_PROFILE, profiles: { [DEFAULT_PROFILE]: content } };
+      }
+      return { profiles: {} };
+    } catch (error) {
+      return { profiles: {} };
+    }
+  }
+
+  private static writeConfigFile(config: ConfigFile): void {
     // Create config directory if it doesn't exist
     if (!fs.existsSync(this.CONFIG_DIR)) {
       fs.mkdirSync(this.CONFIG_DIR, { recursive: true, mode: 0o700 });
@@ -334,67 +552,136 @@ export class AuthService {
     // Write config file with restricted permissions
     fs.writeFileSync(
       this.CONFIG_FILE,
-      JSON.stringify(credentials, null, 2),
+      JSON.stringify(config, null, 2),
       { mode: 0o600 }
     );
   }
 
+  private static readProfile(profile: string = this.getCurrentProfileName()): StoredCredentials | null {
+    return this.readConfigFile().profiles[profile] || null;
+  }
+
   /**
-   * Get stored account ID (if available)
+   * The profile used when none is given: the one selected with `profiles use`, else "default"
    */
-  static async getStoredAccountId(): Promise<string | null> {
-    try {
-      if (!fs.existsSync(this.CONFIG_FILE)) {
-        return null;
-      }
+  static getCurrentProfileName(): string {
+    return this.readConfigFile().current_profile || DEFAULT_PROFILE;
+  }
 
-      const content = fs.readFileSync(this.CONFIG_FILE, 'utf-8');
-      const credentials: StoredCredentials = JSON.parse(content);
+  static hasProfile(profile: string): boolean {
+    return this.readProfile(profile) !== null;
+  }
 
-      return credentials.account_id || null;
-    } catch (error) {
-      return null;
+  /**
+   * Stored profiles, sorted by name
+   */
+  static listProfiles(): ProfileSummary[] {
+    const config = this.readConfigFile();
+    const current = config.current_profile || DEFAULT_PROFILE;
+
+    return Object.keys(config.profiles).sort().map(name => ({
+      name,
+      accountId: config.profiles[name].account_id,
+      bucketName: config.profiles[name].bucket_name,
+      current: name === current,
+    }));
+  }
+
+  /**
+   * Make the profile the one used when --profile isn't given
+   */
+  static useProfile(profile: string): void {
+    const config = this.readConfigFile();
+    if (!config.profiles[profile]) {
+      throw new Error(`Unknown profile '${profile}'. Run \`r2sql-shell login --profile ${profile}\` to create it.`);
     }
+    config.current_profile = profile;
+    this.writeConfigFile(config);
   }
 
   /**
-   * Get stored bucket name (if available)
+   * Delete a profile and its stored token. If it was current, the first remaining profile becomes current.
    */
-  static async getStoredBucketName(): Promise<string | null> {
-    try {
-      if (!fs.existsSync(this.CONFIG_FILE)) {
-        return null;
-      }
+  static async removeProfile(profile: string): Promise<void> {
+    const config = this.readConfigFile();
+    if (!config.profiles[profile]) {
+      throw new Error(`Unknown profile '${profile}'`);
+    }
 
-      const content = fs.readFileSync(this.CONFIG_FILE, 'utf-8');
-      const credentials: StoredCredentials = JSON.parse(content);
+    const tokenStore = config.profiles[profile].token_store;
+    if (tokenStore) {
+      await this.getSecretStore(tokenStore).delete(profile);
+    }
 
-      return credentials.bucket_name || null;
-    } catch (error) {
-      return null;
+    delete config.profiles[profile];
+    const remaining = Object.keys(config.profiles).sort();
+    if (remaining.length === 0) {
+      fs.unlinkSync(this.CONFIG_FILE);
+      return;
+    }
+    if (config.current_profile === profile || !config.current_profile) {
+      config.current_profile = remaining.includes(DEFAULT_PROFILE) ? DEFAULT_PROFILE : remaining[0];
     }
+    this.writeConfigFile(config);
+  }
+
+  /**
+   * Get stored account ID (if available)
+   */
+  static async getStoredAccountId(profile?: string): Promise<string | null> {
+    return this.readProfile(profile)?.account_id || null;
+  }
+
+  /**
+   * Get stored bucket name (if available)
+   */
+  static async getStoredBucketName(profile?: string): Promise<string | null> {
+    return this.readProfile(profile)?.bucket_name || null;
+  }
+
+  /**
+   * Get stored query timeout in seconds (if available)
+   */
+  static async getStoredQueryTimeout(profile?: string): Promise<number | null> {
+    const credentials = this.readProfile(profile);
+
+    return typeof credentials?.query_timeout === 'number' && credentials.query_timeout > 0
+      ? credentials.query_timeout
+      : null;
   }
 
   /**
    * Check if user is authenticated
    */
-  static async isAuthenticated(): Promise<boolean> {
-    const token = await this.getAuthToken();
+  static async isAuthenticated(profile?: string): Promise<boolean> {
+    const token = await this.getAuthToken(profile);
     return token !== null;
   }
 
   /**
    * Get authentication status information
    */
-  static async getAuthStatus(): Promise<{ authenticated: boolean; source?: string; configPath?: string; accountId?: string; bucketName?: string }> {
-    const token = await this.getAuthToken();
-    const accountId = await this.getStoredAccountId();
-    const bucketName = await this.getStoredBucketName();
+  static async getAuthStatus(explicitProfile?: string): Promise<{ authenticated: boolean; profile: string; source?: string; configPath?: string; tokenStore?: string; accountId?: string; bucketName?: string }> {
+    const token = await this.getAuthToken(explicitProfile);
+    const profile = explicitProfile ?? this.getCurrentProfileName();
+    const accountId = await this.getStoredAccountId(profile);
+    const bucketName = await this.getStoredBucketName(profile);
+
+    // Read after getAuthToken, which may have just migrated a plaintext token
+    const credentials = this.readProfile(profile);
+    let tokenStore: string | undefined;
+    if (token?.source === 'r2sql-shell') {
+      tokenStore = credentials?.token_store
+        ? this.getSecretStore(credentials.token_store).description
+        : `plaintext in ${this.CONFIG_FILE}`;
+    }
 
     return {
       authenticated: token !== null,
+      profile,
       source: token?.source,
       configPath: token?.configPath,
+      tokenStore,
       accountId: accountId || undefined,
       bucketName: bucketName || undefined,
     };
@@ -0,0 +1,278 @@
+import zlib from 'zlib';
+
+// Minimal reader for Avro object container files, enough for Iceberg manifest lists and manifests.
+// Supports the null, deflate and snappy codecs, which are what Iceberg writers use for metadata files.
+
+const MAGIC = Buffer.from([0x4f, 0x62, 0x6a, 0x01]); // 'Obj' 1
+const SYNC_SIZE = 16;
+
+// Table for the CRC-32 that follows every snappy block
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+export interface AvroFile {
+  schema: any;
+  metadata: Record<string, string>; // File header metadata, e.g. Iceberg's partition-spec-id
+  records: any[];
+}
+
+class AvroDecoder {
+  private buffer: Buffer;
+  private offset: number = 0;
+
+  constructor(buffer: Buffer) {
+    this.buffer = buffer;
+  }
+
+  get done(): boolean {
+    return this.offset >= this.buffer.length;
+  }
+
+  readBytesRaw(length: number): Buffer {
+    if (this.offset + length > this.buffer.length) {
+      throw new Error('Unexpected end of Avro data');
+    }
+    const bytes = this.buffer.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return bytes;
+  }
+
+  /**
+   * Zig-zag varint. Values beyond Number.MAX_SAFE_INTEGER (e.g. snapshot ids) come back as strings.
+   */
+  readLong(): number | string {
+    let value = 0n;
+    let shift = 0n;
+    let byte: number;
+    do {
+      byte = this.readBytesRaw(1)[0];
+      value |= BigInt(byte & 0x7f) << shift;
+      shift += 7n;
+    } while (byte & 0x80);
+
+    const decoded = (value >> 1n) ^ -(value & 1n);
+    const asNumber = Number(decoded);
+    return Number.isSafeInteger(asNumber) ? asNumber : decoded.toString();
+  }
+
+  readCount(): number {
+    return Number(this.readLong());
+  }
+
+  readBytes(): Buffer {
+    return this.readBytesRaw(this.readCount());
+  }
+
+  readString(): string {
+    return this.readBytes().toString('utf8');
+  }
+
+  read(schema: any, names: Map<string, any>): any {
+    if (Array.isArray(schema)) {
+      // Union - the branch index comes first
+      return this.read(schema[this.readCount()], names);
+    }
+
+    const type = typeof schema === 'string' ? schema : schema.type;
+    switch (type) {
+      case 'null': return null;
+      case 'boolean': return this.readBytesRaw(1)[0] !== 0;
+      case 'int':
+      case 'long': return this.readLong();
+      case 'float': return this.readBytesRaw(4).readFloatLE(0);
+      case 'double': return this.readBytesRaw(8).readDoubleLE(0);
+      case 'bytes': return Buffer.from(this.readBytes());
+      case 'string': return this.readString();
+      case 'fixed': return Buffer.from(this.readBytesRaw(schema.size));
+      case 'enum': return schema.symbols[this.readCount()];
+      case 'record': {
+        const record: Record<string, any> = {};
+        for (const field of schema.fields) {
+          record[field.name] = this.read(field.type, names);
+        }
+        return record;
+      }
+      case 'array': {
+        const items: any[] = [];
+        this.readBlocks(() => items.push(this.read(schema.items, names)));
+        return items;
+      }
+      case 'map': {
+        const map: Record<string, any> = {};
+        this.readBlocks(() => {
+          const key = this.readString();
+          map[key] = this.read(schema.values, names);
+        });
+        return map;
+      }
+      default: {
+        const named = names.get(type);
+        if (!named) {
+          throw new Error(`Unsupported Avro type: ${type}`);
+        }
+        return this.read(named, names);
+      }
+    }
+  }
+
+  // Arrays and maps are written as blocks; a negative count is followed by the block's byte size
+  private readBlocks(readItem: () => void) {
+    let count = this.readCount();
+    while (count !== 0) {
+      if (count < 0) {
+        count = -count;
+        this.readLong();
+      }
+      for (let i = 0; i < count; i++) readItem();
+      count = this.readCount();
+    }
+  }
+}
+
+// Register named types (records, enums, fixed) so later references by name resolve
+function collectNames(schema: any, names: Map<string, any>, namespace?: string) {
+  if (Array.isArray(schema)) {
+    schema.forEach(branch => collectNames(branch, names, namespace));
+    return;
+  }
+  if (!schema || typeof schema !== 'object') return;
+
+  if (schema.name && ['record', 'enum', 'fixed'].includes(schema.type)) {
+    const ns = schema.namespace ?? namespace;
+    names.set(schema.name, schema);
+    if (ns) names.set(`${ns}.${schema.name}`, schema);
+    namespace = ns;
+  }
+
+  if (schema.type === 'record') {
+    schema.fields.forEach((field: any) => collectNames(field.type, names, namespace));
+  } else if (schema.type === 'array') {
+    collectNames(schema.items, names, namespace);
+  } else if (schema.type === 'map') {
+    collectNames(schema.values, names, namespace);
+  }
+}
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Decompress one raw snappy block: a varint length, then literal and back-reference copy elements
+ */
+function snappyUncompress(input: Buffer): Buffer {
+  let pos = 0;
+  let length = 0;
+  for (let shift = 0; ; shift += 7) {
+    if (pos >= input.length || shift > 28) throw new Error('Corrupt snappy block');
+    const byte = input[pos++];
+    length += (byte & 0x7f) * 2 ** shift;
+    if (!(byte & 0x80)) break;
+  }
+
+  const output = Buffer.alloc(length);
+  let out = 0;
+  while (pos < input.length) {
+    const tag = input[pos++];
+    let size: number;
+    let offset: number;
+
+    if ((tag & 3) === 0) {
+      // Literal - lengths above 60 follow the tag as 1-4 little-endian bytes
+      size = (tag >> 2) + 1;
+      if (size > 60) {
+        const bytes = size - 60;
+        size = input.readUIntLE(pos, bytes) + 1;
+        pos += bytes;
+      }
+      if (pos + size > input.length || out + size > length) throw new Error('Corrupt snappy block');
+      input.copy(output, out, pos, pos + size);
+      pos += size;
+      out += size;
+      continue;
+    }
+
+    if ((tag & 3) === 1) {
+      size = ((tag >> 2) & 7) + 4;
+      offset = ((tag >> 5) << 8) | input.readUInt8(pos++);
+    } else if ((tag & 3) === 2) {
+      size = (tag >> 2) + 1;
+      offset = input.readUInt16LE(pos);
+      pos += 2;
+    } else {
+      size = (tag >> 2) + 1;
+      offset = input.readUInt32LE(pos);
+      pos += 4;
+    }
+    if (offset === 0 || offset > out || out + size > length) throw new Error('Corrupt snappy block');
+
+    // Copies may overlap their own output, so go byte by byte
+    for (let i = 0; i < size; i++, out++) output[out] = output[out - offset];
+  }
+
+  if (out !== length) throw new Error('Corrupt snappy block');
+  return output;
+}
+
+/**
+ * Uncompress a block; snappy blocks carry a big-endian CRC-32 of the uncompressed data
+ */
+function decompressBlock(codec: string, block: Buffer): Buffer {
+  if (codec === 'deflate') return zlib.inflateRawSync(block);
+  if (codec !== 'snappy') return block;
+
+  if (block.length < 4) throw new Error('Corrupt snappy block');
+  const data = snappyUncompress(block.subarray(0, block.length - 4));
+  if (crc32(data) !== block.readUInt32BE(block.length - 4)) {
+    throw new Error('Avro snappy checksum mismatch - file is corrupt');
+  }
+  return data;
+}
+
+/**
+ * Decode every record of an Avro object container file
+ */
+export function readAvroFile(buffer: Buffer): AvroFile {
+  if (buffer.length < MAGIC.length || !buffer.subarray(0, MAGIC.length).equals(MAGIC)) {
+    throw new Error('Not an Avro object container file');
+  }
+
+  const header = new AvroDecoder(buffer.subarray(MAGIC.length));
+  const metadata = header.read({ type: 'map', values: 'bytes' }, new Map()) as Record<string, Buffer>;
+  const sync = header.readBytesRaw(SYNC_SIZE);
+
+  const meta: Record<string, string> = {};
+  for (const [key, value] of Object.entries(metadata)) {
+    meta[key] = value.toString('utf8');
+  }
+
+  const schema = JSON.parse(meta['avro.schema']);
+  const codec = meta['avro.codec'] || 'null';
+  if (codec !== 'null' && codec !== 'deflate' && codec !== 'snappy') {
+    throw new Error(`Unsupported Avro codec: ${codec}`);
+  }
+
+  const names = new Map<string, any>();
+  collectNames(schema, names);
+
+  const records: any[] = [];
+  while (!header.done) {
+    const count = header.readCount();
+    const block = header.readBytes();
+    if (!header.readBytesRaw(SYNC_SIZE).equals(sync)) {
+      throw new Error('Avro sync marker mismatch - file is corrupt');
+    }
+
+    const data = new AvroDecoder(decompressBlock(codec, block));
+    for (let i = 0; i < count; i++) {
+      records.push(data.read(schema, names));
+    }
+  }
+
+  return { schema, metadata: meta, records };
+}
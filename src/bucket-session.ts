@@ -0,0 +1,164 @@
+import { R2SQLConfig } from './types.js';
+import { R2SQLClient } from './r2sql-client.js';
+import { IcebergCatalogClient } from './iceberg-client.js';
+import { parseSelect } from './sql-parser.js';
+import { configForBucket } from './config.js';
+
+// Several buckets attached to one session. Each bucket has its own R2 SQL endpoint and catalog
+// warehouse, so a query is sent to the bucket that owns the table it reads.
+
+export interface BucketClients {
+  config: R2SQLConfig; // With this bucket's name, warehouse and catalog endpoint
+  sqlClient: R2SQLClient;
+  catalogClient: IcebergCatalogClient;
+}
+
+export type BucketCommand =
+  | { kind: 'use'; bucket: string }
+  | { kind: 'attach'; bucket: string }
+  | { kind: 'show' };
+
+// R2 bucket names: 3-63 lowercase letters, digits and hyphens, starting and ending with a letter or digit
+const BUCKET_NAME_PATTERN = /^[a-z0-9][a-z0-9-]{1,61}[a-z0-9]$/;
+
+/**
+ * Parse USE BUCKET <name>, ATTACH BUCKET <name> and SHOW BUCKETS. Returns null for other statements.
+ */
+export function parseBucketCommand(sql: string): BucketCommand | null {
+  const statement = sql.trim().replace(/;\s*$/, '');
+  if (/^show\s+buckets$/i.test(statement)) {
+    return { kind: 'show' };
+  }
+
+  const match = statement.match(/^(use|attach)\s+bucket\s+("[^"]+"|\S+)$/i);
+  if (!match) return null;
+  return { kind: match[1].toLowerCase() as 'use' | 'attach', bucket: match[2].replace(/"/g, '') };
+}
+
+/**
+ * The buckets attached to a session and their clients. connect builds the clients for one bucket,
+ * so the TUI and REPL can keep their own helpers alongside them.
+ */
+export class BucketSession<T extends BucketClients> {
+  private config: R2SQLConfig;
+  private connect: (config: R2SQLConfig) => T;
+  private connections = new Map<string, T>(); // In attach order
+  private defaultBucket: string;
+  private owners = new Map<string, string>(); // namespace.table -> bucket it was found in
+
+  constructor(config: R2SQLConfig, connect: (config: R2SQLConfig) => T) {
+    this.config = config;
+    this.connect = connect;
+    this.defaultBucket = config.bucketName;
+    for (const bucket of config.buckets?.length ? config.buckets : [config.bucketName]) {
+      this.attach(bucket);
+    }
+  }
+
+  get buckets(): string[] {
+    return [...this.connections.keys()];
+  }
+
+  get defaultBucketName(): string {
+    return this.defaultBucket;
+  }
+
+  /**
+   * Clients for an attached bucket, the default bucket when none is named
+   */
+  get(bucket: string = this.defaultBucket): T {
+    const connection = this.connections.get(bucket);
+    if (!connection) {
+      throw new Error(`Bucket ${bucket} is not attached. Attached buckets: ${this.buckets.join(', ')}`);
+    }
+    return connection;
+  }
+
+  all(): T[] {
+    return [...this.connections.values()];
+  }
+
+  /**
+   * Add a bucket to the session. Attaching an attached bucket returns its existing clients.
+   */
+  attach(bucket: string): T {
+    const existing = this.connections.get(bucket);
+    if (existing) return existing;
+
+    if (!BUCKET_NAME_PATTERN.test(bucket)) {
+      throw new Error(`Invalid bucket name '${bucket}': use 3-63 lowercase letters, digits and hyphens`);
+    }
+    const connection = this.connect(configForBucket(this.config, bucket));
+    this.connections.set(bucket, connection);
+    return connection;
+  }
+
+  /**
+   * Remove a bucket from the session. The default bucket stays attached.
+   */
+  detach(bucket: string): void {
+    if (bucket === this.defaultBucket) {
+      throw new Error(`Bucket ${bucket} is the default bucket; USE BUCKET another one first`);
+    }
+    this.connections.delete(bucket);
+    for (const [table, owner] of this.owners) {
+      if (owner === bucket) this.owners.delete(table);
+    }
+  }
+
+  /**
+   * Make the bucket the default, attaching it first if needed
+   */
+  use(bucket: string): T {
+    const connection = this.attach(bucket);
+    this.defaultBucket = bucket;
+    // The default bucket wins when several have a table, so earlier lookups may now resolve differently
+    this.owners.clear();
+    return connection;
+  }
+
+  /**
+   * The bucket that has the table: the default bucket if it does, else the first attached bucket that
+   * does. Falls back to the default bucket, so R2 SQL reports the missing table.
+   */
+  async ownerOf(namespace: string, table: string): Promise<T> {
+    if (this.connections.size === 1) return this.get();
+
+    const key = `${namespace}.${table}`;
+    const cached = this.owners.get(key);
+    if (cached && this.connections.has(cached)) return this.get(cached);
+
+    const order = [this.defaultBucket, ...this.buckets.filter(bucket => bucket !== this.defaultBucket)];
+    for (const bucket of order) {
+      try {
+        if (await this.get(bucket).catalogClient.tableExists(namespace, table)) {
+          this.owners.set(key, bucket);
+          return this.get(bucket);
+        }
+      } catch {
+        // Catalog unreachable for this bucket - try the next one
+      }
+    }
+    return this.get();
+  }
+
+  /**
+   * The bucket a query should run against: the owner of its FROM table, or the default bucket for
+   * statements without one
+   */
+  async route(
+    sql: string,
+    resolveTable: (name: string) => Promise<{ namespace: string; table: string } | null>
+  ): Promise<T> {
+    const statement = parseSelect(sql);
+    const resolved = statement ? await resolveTable(statement.table.replace(/"/g, '')) : null;
+    return resolved ? this.ownerOf(resolved.namespace, resolved.table) : this.get();
+  }
+
+  /**
+   * Forget which bucket tables were found in, e.g. after the catalogs were refreshed
+   */
+  clearOwners(): void {
+    this.owners.clear();
+  }
+}
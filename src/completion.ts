@@ -0,0 +1,185 @@
+import { maskNested, resolveColumnReference } from './sql-parser.js';
+import { SchemaColumn } from './iceberg-metadata.js';
+
+// Schema-aware completion shared by the TUI and simple mode: column names with their types in
+// SELECT, WHERE and ORDER BY, and operators or functions that fit a column's type
+
+export interface Completion {
+  text: string; // Inserted in place of the word being typed
+  detail?: string; // Shown next to the suggestion, e.g. the column type
+}
+
+export type CompletionClause = 'select' | 'from' | 'where' | 'order by' | 'limit' | null;
+
+export interface CompletionContext {
+  clause: CompletionClause;
+  word: string; // Partial word before the cursor
+  table: string | null; // FROM table, if one has been typed
+  column: string | null; // Column just before the cursor, e.g. "status" in "WHERE status |" or "ORDER BY status |"
+}
+
+const CLAUSE_PATTERN = /\b(select|from|where|order\s+by|limit)\b/gi;
+
+// Tokens after which a WHERE column starts a new condition
+const CONDITION_START = new Set(['where', 'and', 'or', 'not', '(']);
+
+// Tokens after which an ORDER BY column starts a new sort key
+const SORT_KEY_START = new Set(['by', ',']);
+
+const STRING_FUNCTIONS: Array<{ name: string; template: (column: string) => string; detail: string }> = [
+  { name: 'lower', template: column => `lower(${column})`, detail: 'lowercase' },
+  { name: 'upper', template: column => `upper(${column})`, detail: 'uppercase' },
+  { name: 'length', template: column => `length(${column})`, detail: 'character count' },
+  { name: 'trim', template: column => `trim(${column})`, detail: 'strip whitespace' },
+  { name: 'starts_with', template: column => `starts_with(${column}, '')`, detail: 'prefix match' },
+];
+
+const NULL_CHECKS: Completion[] = [
+  { text: 'IS NULL' },
+  { text: 'IS NOT NULL' },
+];
+
+/**
+ * Work out what is being completed from the text before the cursor. fullText (the whole query) is used
+ * to find a FROM table typed after the cursor.
+ */
+export function getCompletionContext(beforeCursor: string, fullText: string = beforeCursor): CompletionContext {
+  const masked = maskNested(beforeCursor, true);
+  const identifier = beforeCursor.match(/[\w."]*$/)![0];
+
+  let clause: CompletionClause = null;
+  for (const match of masked.matchAll(CLAUSE_PATTERN)) {
+    // Skip the keyword currently being typed
+    if (match.index! + match[0].length === masked.length && identifier.length > 0) continue;
+    clause = match[1].toLowerCase().replace(/\s+/, ' ') as CompletionClause;
+  }
+
+  const from = maskNested(fullText, true).match(/\bfrom\s+((?:"[^"]*"|[\w.])+)/i);
+  const tableStart = from ? from.index! + from[0].length - from[1].length : 0;
+  const table = from ? fullText.slice(tableStart, tableStart + from[1].length).replace(/"/g, '') : null;
+
+  // "<condition start> <column> <word>" means the cursor is where an operator (or, in ORDER BY, a sort
+  // direction) goes, and the word may be a partial operator such as ">"
+  let column: string | null = null;
+  let word = identifier;
+  if (clause === 'where' || clause === 'order by') {
+    const operator = clause === 'where' ? beforeCursor.match(/[<>=!]*$/)![0] : '';
+    const partial = operator || identifier;
+    const tokens = masked.slice(0, masked.length - partial.length).match(/"[^"]*"|[\w.]+|\S/g) || [];
+    const previous = tokens[tokens.length - 1];
+    const start = tokens[tokens.length - 2]?.toLowerCase();
+    const starts = clause === 'where' ? CONDITION_START : SORT_KEY_START;
+    if (previous && /^("[^"]*"|[A-Za-z_][\w.]*)$/.test(previous) && start && starts.has(start)
+        && !starts.has(previous.toLowerCase()) && /\s$/.test(masked.slice(0, masked.length - partial.length))) {
+      column = previous;
+      word = partial;
+    }
+  }
+
+  return { clause, word, table, column };
+}
+
+/**
+ * Columns matching the word being typed. Without a dot only top-level columns are offered; after
+ * "struct_col." the struct's fields are.
+ */
+export function completeColumns(columns: Map<string, SchemaColumn>, word: string): Completion[] {
+  const prefix = word.replace(/"/g, '').toLowerCase();
+  const depth = prefix.split('.').length;
+  const completions: Completion[] = [];
+
+  for (const [key, column] of columns) {
+    if (key.split('.').length === depth && key.startsWith(prefix)) {
+      completions.push({ text: column.name, detail: column.type });
+    }
+  }
+  return completions;
+}
+
+/**
+ * String functions applied to matching string columns, e.g. "low" -> lower(name)
+ */
+export function completeFunctions(columns: Map<string, SchemaColumn>, word: string): Completion[] {
+  const prefix = word.toLowerCase();
+  if (!prefix || prefix.includes('.')) return [];
+
+  const completions: Completion[] = [];
+  for (const fn of STRING_FUNCTIONS.filter(fn => fn.name.startsWith(prefix))) {
+    for (const column of columns.values()) {
+      if (column.type === 'string') {
+        completions.push({ text: fn.template(column.name), detail: fn.detail });
+      }
+    }
+  }
+  return completions;
+}
+
+/**
+ * Comparisons that fit a column type - range comparisons for temporal types, LIKE for strings
+ */
+export function operatorsForType(type: string): Completion[] {
+  if (/^(timestamp|timestamptz|timestamp_ns|timestamptz_ns|date|time)$/.test(type)) {
+    return [
+      { text: '>=', detail: 'from (inclusive)' },
+      { text: '<', detail: 'until (exclusive)' },
+      { text: 'BETWEEN', detail: 'inclusive range' },
+      { text: '>', detail: 'after' },
+      { text: '<=', detail: 'up to' },
+      { text: '=' },
+      ...NULL_CHECKS,
+    ];
+  }
+  if (type === 'string' || type === 'uuid') {
+    return [
+      { text: '=' },
+      { text: '!=' },
+      { text: 'LIKE', detail: "pattern, e.g. 'abc%'" },
+      { text: 'NOT LIKE' },
+      { text: 'IN', detail: "('a', 'b')" },
+      ...NULL_CHECKS,
+    ];
+  }
+  if (/^(int|long|float|double|decimal)/.test(type)) {
+    return [
+      { text: '=' },
+      { text: '!=' },
+      { text: '>' },
+      { text: '>=' },
+      { text: '<' },
+      { text: '<=' },
+      { text: 'BETWEEN', detail: 'inclusive range' },
+      { text: 'IN', detail: '(1, 2)' },
+      ...NULL_CHECKS,
+    ];
+  }
+  if (type === 'boolean') {
+    return [{ text: '= true' }, { text: '= false' }, ...NULL_CHECKS];
+  }
+  return [{ text: '=' }, { text: '!=' }, ...NULL_CHECKS];
+}
+
+/**
+ * Schema-based completions for the context, or [] when the schema has nothing to offer there
+ */
+export function completeFromSchema(columns: Map<string, SchemaColumn>, context: CompletionContext): Completion[] {
+  const { clause, word } = context;
+
+  if (clause === 'order by' && context.column) {
+    const upper = word.toUpperCase();
+    return [{ text: 'ASC' }, { text: 'DESC' }].filter(direction => direction.text.startsWith(upper));
+  }
+
+  if (clause === 'where' && context.column) {
+    const key = resolveColumnReference(columns, context.column);
+    const upper = word.toUpperCase();
+    return key ? operatorsForType(columns.get(key)!.type).filter(op => op.text.startsWith(upper)) : [];
+  }
+
+  if (clause === 'select' || clause === 'where' || clause === 'order by') {
+    return [
+      ...completeColumns(columns, word),
+      ...(clause === 'order by' ? [] : completeFunctions(columns, word)),
+    ];
+  }
+  return [];
+}
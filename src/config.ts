@@ -5,23 +5,54 @@ import { AuthService } from './auth-service.js';
 
 dotenv.config();
 
+function bucketEndpoints(accountId: string, bucketName: string): { warehouse: string; catalogEndpoint: string } {
+  return {
+    warehouse: `${accountId}_${bucketName}`,
+    catalogEndpoint: `https://catalog.cloudflarestorage.com/${accountId}/${bucketName}`,
+  };
+}
+
+/**
+ * The configuration for another bucket in the same account, with the same token and settings
+ */
+export function configForBucket(config: R2SQLConfig, bucketName: string): R2SQLConfig {
+  return { ...config, bucketName, ...bucketEndpoints(config.accountId, bucketName) };
+}
+
 export async function loadConfig(options?: {
   accountId?: string;
   bucketName?: string;
   apiToken?: string;
   debugEnabled?: boolean;
+  queryTimeout?: number;
+  profile?: string;
+  interactive?: boolean; // false when the terminal belongs to the TUI, so nothing may prompt on it
 }): Promise<R2SQLConfig> {
+  // A profile named with --profile must exist; otherwise the current profile (if any) is used
+  if (options?.profile && !AuthService.hasProfile(options.profile)) {
+    throw new Error(
+      `Unknown profile '${options.profile}'.\n` +
+      `  Run \`r2sql-shell login --profile ${options.profile}\` to create it, or \`r2sql-shell profiles list\` to see stored profiles.`
+    );
+  }
+  const profile = options?.profile || AuthService.getCurrentProfileName();
+
   // Priority: CLI args > stored config > env vars
   // CLI --bucket flag always overrides stored bucket
-  let accountId = options?.accountId || await AuthService.getStoredAccountId() || process.env.CLOUDFLARE_ACCOUNT_ID;
-  let bucketName = options?.bucketName || await AuthService.getStoredBucketName() || process.env.R2_BUCKET_NAME;
+  let accountId = options?.accountId || await AuthService.getStoredAccountId(profile) || process.env.CLOUDFLARE_ACCOUNT_ID;
+  let bucketName = options?.bucketName || await AuthService.getStoredBucketName(profile) || process.env.R2_BUCKET_NAME;
+
+  // Several buckets can be attached with a comma-separated list; the first is the default
+  const buckets = [...new Set((bucketName || '').split(',').map(name => name.trim()).filter(Boolean))];
+  bucketName = buckets[0];
 
   // Try to get API token from multiple sources with priority chain
   let apiToken = options?.apiToken;
 
   // If no token provided via options, try the auth service
   if (!apiToken) {
-    const authToken = await AuthService.getAuthToken();
+    // Only a profile named with --profile is held to its own token
+    const authToken = await AuthService.getAuthToken(options?.profile, options?.interactive !== false);
     if (authToken) {
       apiToken = authToken.accessToken;
     }
@@ -42,20 +73,21 @@ export async function loadConfig(options?: {
     );
   }
 
-  const warehouse = `${accountId}_${bucketName}`;
-  const catalogEndpoint = `https://catalog.cloudflarestorage.com/${accountId}/${bucketName}`;
-
   return {
     accountId,
     bucketName,
     apiToken,
-    warehouse,
-    catalogEndpoint,
+    ...bucketEndpoints(accountId, bucketName),
+    buckets: buckets.length > 1 ? buckets : undefined,
     debugEnabled: options?.debugEnabled || false,
+    queryTimeout: options?.queryTimeout || await AuthService.getStoredQueryTimeout(profile) || undefined,
+    profile: AuthService.hasProfile(profile) ? profile : undefined,
+    r2AccessKeyId: process.env.R2_ACCESS_KEY_ID,
+    r2SecretAccessKey: process.env.R2_SECRET_ACCESS_KEY,
   };
 }
 
-export async function promptForConfig(debugEnabled?: boolean): Promise<R2SQLConfig> {
+export async function promptForConfig(debugEnabled?: boolean, queryTimeout?: number): Promise<R2SQLConfig> {
   const answers = await inquirer.prompt([
     {
       type: 'input',
@@ -86,15 +118,12 @@ export async function promptForConfig(debugEnabled?: boolean): Promise<R2SQLConf
   }
   process.stdin.pause();
 
-  const warehouse = `${answers.accountId}_${answers.bucketName}`;
-  const catalogEndpoint = `https://catalog.cloudflarestorage.com/${answers.accountId}/${answers.bucketName}`;
-
   return {
     accountId: answers.accountId,
     bucketName: answers.bucketName,
     apiToken: answers.apiToken,
-    warehouse,
-    catalogEndpoint,
+    ...bucketEndpoints(answers.accountId, answers.bucketName),
     debugEnabled: debugEnabled || false,
+    queryTimeout,
   };
 }
@@ -0,0 +1,332 @@
+import { DataFileExplorer, DataFileInfo } from './data-files.js';
+import { IcebergCatalogClient } from './iceberg-client.js';
+import { getPartitionSpecs } from './iceberg-metadata.js';
+import { parseTimestamp } from './time-travel.js';
+import { maskNested, splitList, parseSelect } from './sql-parser.js';
+
+// Client-side scan estimate: the query's WHERE clause is evaluated against partition values and
+// column bounds from the table's manifests, the same statistics R2 SQL prunes files with.
+
+export type ComparisonOp = '=' | '!=' | '<' | '<=' | '>' | '>=';
+
+export type Predicate =
+  | { kind: 'compare'; column: string; op: ComparisonOp; value: string }
+  | { kind: 'between'; column: string; low: string; high: string }
+  | { kind: 'in'; column: string; values: string[] }
+  | { kind: 'and' | 'or'; children: Predicate[] }
+  | { kind: 'unknown'; text: string }; // Anything statistics can't rule out, e.g. LIKE or functions
+
+export interface QueryTarget {
+  table: string;
+  where: string | null;
+}
+
+export interface CostEstimate {
+  table: string;
+  totalFiles: number;
+  totalBytes: number;
+  files: number; // Files whose statistics may match the WHERE clause
+  bytes: number;
+  prunable: boolean; // False when nothing in the WHERE clause can be checked against statistics
+}
+
+type Comparable = number | string;
+
+interface ValueRange {
+  lower: Comparable | null;
+  upper: Comparable | null;
+}
+
+const NUMERIC_TYPES = ['int', 'long', 'float', 'double'];
+const TEMPORAL_TYPES = ['date', 'timestamp', 'timestamptz', 'timestamp_ns', 'timestamptz_ns'];
+const FLIPPED_OPS: Record<ComparisonOp, ComparisonOp> = { '=': '=', '!=': '!=', '<': '>', '<=': '>=', '>': '<', '>=': '<=' };
+
+const IDENTIFIER = String.raw`"[^"]+"|[A-Za-z_][\w.]*`;
+const LITERAL = String.raw`(?:timestamp|date)?\s*'(?:[^']|'')*'|-?\d+(?:\.\d+)?(?:[eE][-+]?\d+)?|true|false`;
+const COMPARE_PATTERN = new RegExp(`^(${IDENTIFIER}|${LITERAL})\\s*(=|!=|<>|<=|>=|<|>)\\s*(${IDENTIFIER}|${LITERAL})$`, 'is');
+const BETWEEN_PATTERN = new RegExp(`^(${IDENTIFIER})\\s+between\\s+(${LITERAL})\\s+and\\s+(${LITERAL})$`, 'is');
+const IN_PATTERN = new RegExp(`^(${IDENTIFIER})\\s+in\\s*\\((.*)\\)$`, 'is');
+const LITERAL_PATTERN = new RegExp(`^(?:${LITERAL})$`, 'is');
+
+/**
+ * Find the FROM table and the WHERE clause of a SELECT. Returns null for anything else.
+ */
+export function parseQueryTarget(sql: string): QueryTarget | null {
+  const statement = parseSelect(sql.trim());
+  return statement ? { table: statement.table, where: statement.where } : null;
+}
+
+// Split on a top-level AND/OR; the AND inside BETWEEN x AND y is not a split point
+function splitTopLevel(text: string, keyword: 'and' | 'or'): string[] {
+  const masked = maskNested(text);
+  const parts: string[] = [];
+  let start = 0;
+  let pendingBetween = false;
+
+  for (const match of masked.matchAll(/\b(between|and|or)\b/gi)) {
+    const word = match[1].toLowerCase();
+    if (word === 'between') {
+      pendingBetween = true;
+    } else if (word === 'and' && pendingBetween) {
+      pendingBetween = false;
+    } else if (word === keyword) {
+      parts.push(text.slice(start, match.index).trim());
+      start = match.index! + match[0].length;
+    }
+  }
+  parts.push(text.slice(start).trim());
+  return parts;
+}
+
+function unquoteIdentifier(name: string): string {
+  return name.replace(/^"(.*)"$/s, '$1');
+}
+
+function parseLiteral(literal: string): string {
+  const text = literal.trim().replace(/^(?:timestamp|date)\s*(?=')/i, '');
+  return text.startsWith("'") ? text.slice(1, -1).replace(/''/g, "'") : text;
+}
+
+/**
+ * Parse a WHERE clause into predicates. Parts that can't be checked against statistics become 'unknown'.
+ */
+export function parseWherePredicate(where: string): Predicate {
+  const text = where.trim();
+
+  const orParts = splitTopLevel(text, 'or');
+  if (orParts.length > 1) {
+    return { kind: 'or', children: orParts.map(parseWherePredicate) };
+  }
+  const andParts = splitTopLevel(text, 'and');
+  if (andParts.length > 1) {
+    return { kind: 'and', children: andParts.map(parseWherePredicate) };
+  }
+
+  // A fully parenthesized expression
+  const masked = maskNested(text);
+  if (text.startsWith('(') && masked.indexOf(')') === text.length - 1) {
+    return parseWherePredicate(text.slice(1, -1));
+  }
+
+  const between = text.match(BETWEEN_PATTERN);
+  if (between) {
+    return { kind: 'between', column: unquoteIdentifier(between[1]), low: parseLiteral(between[2]), high: parseLiteral(between[3]) };
+  }
+
+  const inList = text.match(IN_PATTERN);
+  if (inList) {
+    const values = splitList(inList[2]);
+    if (values.every(value => LITERAL_PATTERN.test(value))) {
+      return { kind: 'in', column: unquoteIdentifier(inList[1]), values: values.map(parseLiteral) };
+    }
+  }
+
+  const compare = text.match(COMPARE_PATTERN);
+  if (compare) {
+    const op = (compare[2] === '<>' ? '!=' : compare[2]) as ComparisonOp;
+    const leftIsLiteral = LITERAL_PATTERN.test(compare[1]);
+    const rightIsLiteral = LITERAL_PATTERN.test(compare[3]);
+    if (!leftIsLiteral && rightIsLiteral) {
+      return { kind: 'compare', column: unquoteIdentifier(compare[1]), op, value: parseLiteral(compare[3]) };
+    }
+    if (leftIsLiteral && !rightIsLiteral) {
+      return { kind: 'compare', column: unquoteIdentifier(compare[3]), op: FLIPPED_OPS[op], value: parseLiteral(compare[1]) };
+    }
+  }
+
+  return { kind: 'unknown', text };
+}
+
+function isPrunable(predicate: Predicate): boolean {
+  if (predicate.kind === 'unknown') return false;
+  if (predicate.kind === 'and') return predicate.children.some(isPrunable);
+  // An OR only prunes when every branch can
+  if (predicate.kind === 'or') return predicate.children.every(isPrunable);
+  return true;
+}
+
+function toComparable(value: string, type: string | undefined): Comparable | null {
+  if (type && TEMPORAL_TYPES.includes(type)) {
+    return parseTimestamp(value);
+  }
+  if ((type && (NUMERIC_TYPES.includes(type) || type.startsWith('decimal'))) || (!type && value.trim() !== '' && Number.isFinite(Number(value)))) {
+    const num = Number(value);
+    return Number.isFinite(num) ? num : null;
+  }
+  return value;
+}
+
+// Time range covered by a day/month/year/hour partition value, in epoch ms
+function transformRange(value: string, transform: string): ValueRange | null {
+  const parts = value.split('-').map(Number);
+  if (parts.some(part => !Number.isFinite(part))) return null;
+
+  const [year, month = 1, day = 1, hour = 0] = parts;
+  let start: number;
+  let end: number;
+  switch (transform) {
+    case 'year': start = Date.UTC(year, 0); end = Date.UTC(year + 1, 0); break;
+    case 'month': start = Date.UTC(year, month - 1); end = Date.UTC(year, month); break;
+    case 'day': start = Date.UTC(year, month - 1, day); end = start + 86400000; break;
+    case 'hour': start = Date.UTC(year, month - 1, day, hour); end = start + 3600000; break;
+    default: return null;
+  }
+  return { lower: start, upper: end - 1 };
+}
+
+/**
+ * Evaluates predicates against one table's files. Column names match case-insensitively.
+ */
+class FileStatistics {
+  private columnTypes: Map<string, string | undefined>;
+  private partitionSources: Map<number, Map<string, { column: string; transform: string }>>;
+
+  constructor(metadata: any) {
+    this.columnTypes = new Map();
+    const schema = (metadata?.schemas || []).find((s: any) => s['schema-id'] === metadata?.['current-schema-id']);
+    const visit = (fields: any[], prefix: string) => {
+      for (const field of fields || []) {
+        const name = prefix ? `${prefix}.${field.name}` : field.name;
+        this.columnTypes.set(name.toLowerCase(), typeof field.type === 'string' ? field.type : undefined);
+        if (field.type?.type === 'struct') visit(field.type.fields, name);
+      }
+    };
+    visit(schema?.fields, '');
+
+    this.partitionSources = new Map(getPartitionSpecs(metadata).map(spec => [
+      spec.specId,
+      new Map(spec.fields.map(field => [field.name, { column: field.sourceColumn.toLowerCase(), transform: field.transform }])),
+    ]));
+  }
+
+  mayMatch(file: DataFileInfo, predicate: Predicate): boolean {
+    switch (predicate.kind) {
+      case 'and': return predicate.children.every(child => this.mayMatch(file, child));
+      case 'or': return predicate.children.some(child => this.mayMatch(file, child));
+      case 'unknown': return true;
+      case 'between':
+        return this.mayMatch(file, { kind: 'compare', column: predicate.column, op: '>=', value: predicate.low })
+          && this.mayMatch(file, { kind: 'compare', column: predicate.column, op: '<=', value: predicate.high });
+      case 'in':
+        return predicate.values.some(value => this.mayMatch(file, { kind: 'compare', column: predicate.column, op: '=', value }));
+      case 'compare': {
+        const column = this.resolveColumn(predicate.column);
+        if (!column) return true;
+
+        const value = toComparable(predicate.value, this.columnTypes.get(column));
+        const range = this.columnRange(file, column);
+        if (value === null || !range || typeof value !== typeof (range.lower ?? range.upper ?? value)) return true;
+
+        const { lower, upper } = range;
+        switch (predicate.op) {
+          case '=': return !((lower !== null && value < lower) || (upper !== null && value > upper));
+          case '!=': return !(lower !== null && lower === upper && lower === value);
+          case '<': return lower === null || lower < value;
+          case '<=': return lower === null || lower <= value;
+          case '>': return upper === null || upper > value;
+          case '>=': return upper === null || upper >= value;
+        }
+      }
+    }
+  }
+
+  // Accept table-qualified references (t.col, ns.t.col) by matching the longest known suffix
+  private resolveColumn(reference: string): string | null {
+    const parts = reference.toLowerCase().split('.');
+    for (let i = 0; i < parts.length; i++) {
+      const candidate = parts.slice(i).join('.');
+      if (this.columnTypes.has(candidate)) return candidate;
+    }
+    return null;
+  }
+
+  // Narrowest known range of a column in a file, from its bounds and partition values
+  private columnRange(file: DataFileInfo, column: string): ValueRange | null {
+    const type = this.columnTypes.get(column);
+    const ranges: ValueRange[] = [];
+
+    const bound = file.bounds.find(entry => entry.column.toLowerCase() === column);
+    if (bound) {
+      ranges.push({
+        lower: bound.lower !== null ? toComparable(bound.lower, type) : null,
+        upper: bound.upper !== null ? toComparable(bound.upper, type) : null,
+      });
+    }
+
+    const sources = this.partitionSources.get(file.specId);
+    for (const [field, value] of Object.entries(file.partition)) {
+      const source = sources?.get(field);
+      if (!source || source.column !== column || value === null) continue;
+      if (source.transform === 'identity') {
+        const comparable = toComparable(value, type);
+        ranges.push({ lower: comparable, upper: comparable });
+      } else {
+        const range = transformRange(value, source.transform);
+        if (range) ranges.push(range);
+      }
+    }
+
+    if (ranges.length === 0) return null;
+    return ranges.reduce((narrowed, range) => ({
+      lower: narrowed.lower === null || (range.lower !== null && range.lower > narrowed.lower) ? range.lower : narrowed.lower,
+      upper: narrowed.upper === null || (range.upper !== null && range.upper < narrowed.upper) ? range.upper : narrowed.upper,
+    }));
+  }
+}
+
+/**
+ * Files and bytes a WHERE clause can't rule out, based on the files' statistics
+ */
+export function estimateScan(metadata: any, files: DataFileInfo[], where: string | null, table: string = ''): CostEstimate {
+  const dataFiles = files.filter(file => file.content === 'data');
+  const totalBytes = dataFiles.reduce((sum, file) => sum + file.fileSizeBytes, 0);
+
+  const predicate = where ? parseWherePredicate(where) : null;
+  if (!predicate || !isPrunable(predicate)) {
+    return { table, totalFiles: dataFiles.length, totalBytes, files: dataFiles.length, bytes: totalBytes, prunable: false };
+  }
+
+  const statistics = new FileStatistics(metadata);
+  const matched = dataFiles.filter(file => statistics.mayMatch(file, predicate));
+  return {
+    table,
+    totalFiles: dataFiles.length,
+    totalBytes,
+    files: matched.length,
+    bytes: matched.reduce((sum, file) => sum + file.fileSizeBytes, 0),
+    prunable: true,
+  };
+}
+
+/**
+ * Estimates how much of a table a SELECT will scan before it is sent to R2 SQL
+ */
+export class QueryCostEstimator {
+  private catalogClient: IcebergCatalogClient;
+  private fileExplorer: DataFileExplorer;
+
+  constructor(catalogClient: IcebergCatalogClient, fileExplorer: DataFileExplorer) {
+    this.catalogClient = catalogClient;
+    this.fileExplorer = fileExplorer;
+  }
+
+  /**
+   * Returns null for statements that aren't a SELECT from a known table
+   */
+  async estimate(
+    sql: string,
+    resolveTable: (name: string) => Promise<{ namespace: string; table: string } | null>
+  ): Promise<CostEstimate | null> {
+    const target = parseQueryTarget(sql);
+    if (!target) return null;
+
+    const resolved = await resolveTable(target.table);
+    const metadata = resolved
+      ? (await this.catalogClient.getTableMetadata(resolved.namespace, resolved.table))?.fullMetadata
+      : null;
+    if (!resolved || !metadata) return null;
+
+    const files = await this.fileExplorer.listDataFiles(metadata);
+    return estimateScan(metadata, files, target.where, `${resolved.namespace}.${resolved.table}`);
+  }
+}
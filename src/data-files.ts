@@ -0,0 +1,418 @@
+import { readAvroFile } from './avro.js';
+import { R2StorageClient } from './r2-storage-client.js';
+import { getColumnNamesById } from './iceberg-metadata.js';
+
+// Data file listing for SHOW FILES: snapshot manifest list -> manifests -> data file entries,
+// read straight from R2 so small files and skewed partitions can be spotted without a query.
+
+export type DataFileContent = 'data' | 'position-deletes' | 'equality-deletes';
+
+export interface ColumnBound {
+  column: string;
+  lower: string | null;
+  upper: string | null;
+}
+
+export interface DataFileInfo {
+  path: string;
+  format: string;
+  content: DataFileContent;
+  specId: number;
+  partition: Record<string, string | null>; // Partition field name -> readable value
+  partitionKey: string; // e.g. 'ts_day=2024-05-01/id_bucket=3', or '(unpartitioned)'
+  recordCount: number;
+  fileSizeBytes: number;
+  bounds: ColumnBound[];
+}
+
+export interface PartitionSummary {
+  partitionKey: string;
+  files: number;
+  records: number;
+  sizeBytes: number;
+  avgFileSizeBytes: number;
+  smallFiles: number; // Files below the table's small file threshold
+  sizeShare: number; // Fraction of the table's bytes that live in this partition
+}
+
+export type PartitionFilterOp = '=' | '!=' | '<' | '<=' | '>' | '>=' | 'is null' | 'is not null';
+
+export interface PartitionFilter {
+  field: string;
+  op: PartitionFilterOp;
+  value: string | null;
+}
+
+export interface ShowFilesStatement {
+  table: string;
+  filters: PartitionFilter[];
+}
+
+export const UNPARTITIONED = '(unpartitioned)';
+
+// Iceberg's default write.target-file-size-bytes
+const DEFAULT_TARGET_FILE_SIZE = 512 * 1024 * 1024;
+
+// Manifests are fetched this many at a time
+const MANIFEST_CONCURRENCY = 8;
+
+// Decoded manifest lists and manifests kept in memory; the least recently used are dropped first
+const MAX_CACHED_FILES = 128;
+
+const MANIFEST_ENTRY_DELETED = 2;
+const CONTENT_TYPES: DataFileContent[] = ['data', 'position-deletes', 'equality-deletes'];
+
+const FILTER_PATTERN = /^("[^"]+"|[\w.]+)\s*(?:(is\s+not\s+null|is\s+null)|(=|!=|<>|<=|>=|<|>)\s*('(?:[^']|'')*'|\S+))$/i;
+
+/**
+ * Parse SHOW FILES <table> [WHERE <partition filter> [AND ...]]. Returns null for other statements.
+ */
+export function parseShowFiles(sql: string): ShowFilesStatement | null {
+  const match = sql.trim().replace(/;\s*$/, '').match(/^show\s+files\s+(?:(?:from|in)\s+)?(\S+)(?:\s+where\s+(.+))?$/is);
+  if (!match) return null;
+
+  const filters = match[2]
+    ? match[2].split(/\s+and\s+/i).map(condition => parsePartitionFilter(condition.trim()))
+    : [];
+  return { table: match[1], filters };
+}
+
+function parsePartitionFilter(condition: string): PartitionFilter {
+  const match = condition.match(FILTER_PATTERN);
+  if (!match) {
+    throw new Error(`Unsupported partition filter: ${condition}. Use <partition_field> <op> <value>, joined with AND`);
+  }
+
+  const field = match[1].replace(/^"(.*)"$/, '$1');
+  if (match[2]) {
+    return { field, op: match[2].toLowerCase().replace(/\s+/g, ' ') as PartitionFilterOp, value: null };
+  }
+  const op = (match[3] === '<>' ? '!=' : match[3]) as PartitionFilterOp;
+  return { field, op, value: match[4].replace(/^'(.*)'$/s, '$1').replace(/''/g, "'") };
+}
+
+function compareValues(a: string, b: string): number {
+  const numA = Number(a);
+  const numB = Number(b);
+  if (a.trim() !== '' && b.trim() !== '' && Number.isFinite(numA) && Number.isFinite(numB)) {
+    return numA - numB;
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Filters compare against the readable partition values (e.g. ts_day = '2024-05-01').
+ * Throws when a filter names a field no file is partitioned by.
+ */
+export function filterDataFiles(files: DataFileInfo[], filters: PartitionFilter[]): DataFileInfo[] {
+  const known = new Set(files.flatMap(file => Object.keys(file.partition)));
+  for (const filter of filters) {
+    if (files.length > 0 && !known.has(filter.field)) {
+      const fields = [...known];
+      throw new Error(`Unknown partition field: ${filter.field}. ${fields.length ? `Partition fields: ${fields.join(', ')}` : 'The table is not partitioned'}`);
+    }
+  }
+
+  return files.filter(file => filters.every(filter => {
+    const value = file.partition[filter.field] ?? null;
+    if (filter.op === 'is null') return value === null;
+    if (filter.op === 'is not null') return value !== null;
+    if (value === null || filter.value === null) return false;
+
+    const cmp = compareValues(value, filter.value);
+    switch (filter.op) {
+      case '=': return cmp === 0;
+      case '!=': return cmp !== 0;
+      case '<': return cmp < 0;
+      case '<=': return cmp <= 0;
+      case '>': return cmp > 0;
+      case '>=': return cmp >= 0;
+    }
+  }));
+}
+
+/**
+ * Files below an eighth of write.target-file-size-bytes count as small
+ */
+export function getSmallFileThreshold(metadata: any): number {
+  const target = Number(metadata?.properties?.['write.target-file-size-bytes']);
+  return Math.floor((Number.isFinite(target) && target > 0 ? target : DEFAULT_TARGET_FILE_SIZE) / 8);
+}
+
+/**
+ * Per-partition totals, largest partition first
+ */
+export function summarizePartitions(files: DataFileInfo[], smallFileThreshold: number): PartitionSummary[] {
+  const totalBytes = files.reduce((sum, file) => sum + file.fileSizeBytes, 0);
+  const byPartition = new Map<string, PartitionSummary>();
+
+  for (const file of files) {
+    const summary = byPartition.get(file.partitionKey) ?? {
+      partitionKey: file.partitionKey, files: 0, records: 0, sizeBytes: 0, avgFileSizeBytes: 0, smallFiles: 0, sizeShare: 0,
+    };
+    summary.files++;
+    summary.records += file.recordCount;
+    summary.sizeBytes += file.fileSizeBytes;
+    if (file.fileSizeBytes < smallFileThreshold) summary.smallFiles++;
+    byPartition.set(file.partitionKey, summary);
+  }
+
+  return [...byPartition.values()]
+    .map(summary => ({
+      ...summary,
+      avgFileSizeBytes: summary.sizeBytes / summary.files,
+      sizeShare: totalBytes > 0 ? summary.sizeBytes / totalBytes : 0,
+    }))
+    .sort((a, b) => b.sizeBytes - a.sizeBytes);
+}
+
+// Map every field id to its primitive type name (e.g. 'long', 'decimal(10, 2)'); current schema wins
+function getFieldTypesById(metadata: any): Map<number, string> {
+  const types = new Map<number, string>();
+  const currentId = metadata?.['current-schema-id'];
+  const schemas: any[] = metadata?.schemas || (metadata?.schema ? [metadata.schema] : []);
+  const current = schemas.find(schema => schema['schema-id'] === currentId);
+
+  const visitType = (id: number | undefined, type: any) => {
+    if (typeof type === 'string') {
+      if (id !== undefined) types.set(id, type);
+    } else if (type?.type === 'struct') {
+      for (const field of type.fields || []) visitType(field.id, field.type);
+    } else if (type?.type === 'list') {
+      visitType(type['element-id'], type.element);
+    } else if (type?.type === 'map') {
+      visitType(type['key-id'], type.key);
+      visitType(type['value-id'], type.value);
+    }
+  };
+
+  for (const schema of [...schemas.filter(schema => schema !== current), ...(current ? [current] : [])]) {
+    visitType(undefined, { type: 'struct', fields: schema.fields });
+  }
+  return types;
+}
+
+function formatDays(days: number): string {
+  return new Date(days * 86400000).toISOString().slice(0, 10);
+}
+
+function formatMicros(micros: bigint, zoned: boolean): string {
+  const ms = Number(micros / 1000n);
+  const fraction = (micros % 1000000n + 1000000n) % 1000000n;
+  const base = new Date(ms).toISOString().slice(0, 19).replace('T', ' ');
+  return `${base}${fraction ? `.${fraction.toString().padStart(6, '0').replace(/0+$/, '')}` : ''}${zoned ? 'Z' : ''}`;
+}
+
+function formatDecimal(unscaled: bigint, type: string): string {
+  const scale = Number(type.match(/decimal\(\s*\d+\s*,\s*(\d+)\s*\)/)?.[1] ?? 0);
+  if (scale === 0) return unscaled.toString();
+  const negative = unscaled < 0n;
+  const digits = (negative ? -unscaled : unscaled).toString().padStart(scale + 1, '0');
+  return `${negative ? '-' : ''}${digits.slice(0, -scale)}.${digits.slice(-scale)}`;
+}
+
+// Big-endian two's complement, as Iceberg stores decimals
+function readSignedBigEndian(bytes: Buffer): bigint {
+  if (bytes.length === 0) return 0n;
+  let value = BigInt(`0x${bytes.toString('hex')}`);
+  if (bytes[0] & 0x80) value -= 1n << BigInt(bytes.length * 8);
+  return value;
+}
+
+function formatUuid(bytes: Buffer): string {
+  const hex = bytes.toString('hex');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/**
+ * Decode a lower/upper bound using Iceberg's single-value binary serialization for the column type
+ */
+export function decodeBound(bytes: Buffer, type: string | undefined): string {
+  try {
+    switch (type) {
+      case 'boolean': return bytes[0] ? 'true' : 'false';
+      case 'int': return String(bytes.readInt32LE(0));
+      case 'date': return formatDays(bytes.readInt32LE(0));
+      case 'long': return bytes.readBigInt64LE(0).toString();
+      case 'float': return String(bytes.readFloatLE(0));
+      case 'double': return String(bytes.readDoubleLE(0));
+      case 'time': return formatMicros(bytes.readBigInt64LE(0), false).slice(11);
+      case 'timestamp': return formatMicros(bytes.readBigInt64LE(0), false);
+      case 'timestamptz': return formatMicros(bytes.readBigInt64LE(0), true);
+      case 'timestamp_ns': return formatMicros(bytes.readBigInt64LE(0) / 1000n, false);
+      case 'timestamptz_ns': return formatMicros(bytes.readBigInt64LE(0) / 1000n, true);
+      case 'string': return bytes.toString('utf8');
+      case 'uuid': return formatUuid(bytes);
+    }
+    if (type?.startsWith('decimal')) return formatDecimal(readSignedBigEndian(bytes), type);
+  } catch {
+    // Truncated or mismatched bytes fall through to hex
+  }
+  return `0x${bytes.toString('hex')}`;
+}
+
+/**
+ * Render a partition value the way it reads in a filter: day(ts) as a date, month(ts) as YYYY-MM, etc.
+ */
+export function formatPartitionValue(value: any, transform: string, sourceType: string | undefined): string | null {
+  if (value === null || value === undefined) return null;
+
+  const num = Number(value);
+  switch (transform) {
+    case 'year': return String(1970 + num);
+    case 'month': {
+      const year = 1970 + Math.floor(num / 12);
+      return `${year}-${String(((num % 12) + 12) % 12 + 1).padStart(2, '0')}`;
+    }
+    case 'day': return formatDays(num);
+    case 'hour': {
+      const iso = new Date(num * 3600000).toISOString();
+      return `${iso.slice(0, 10)}-${iso.slice(11, 13)}`;
+    }
+  }
+
+  if (transform.startsWith('bucket')) return String(value);
+  if (Buffer.isBuffer(value)) return decodeBound(value, sourceType);
+
+  switch (sourceType) {
+    case 'date': return formatDays(num);
+    case 'timestamp':
+    case 'timestamptz':
+      return formatMicros(BigInt(value), sourceType === 'timestamptz');
+    default: return String(value);
+  }
+}
+
+// Iceberg writes int-keyed maps as arrays of {key, value} records
+function mapEntries(map: any): Array<[number, Buffer]> {
+  if (!map) return [];
+  if (Array.isArray(map)) return map.map(entry => [Number(entry.key), entry.value]);
+  return Object.entries(map).map(([key, value]) => [Number(key), value as Buffer]);
+}
+
+/**
+ * Reads manifest lists and manifests from R2. Manifests are immutable, so decoded files are cached,
+ * up to MAX_CACHED_FILES of them.
+ */
+export class DataFileExplorer {
+  private storageClient: R2StorageClient;
+  private cache: Map<string, { records: any[]; metadata: Record<string, string> }> = new Map();
+
+  constructor(storageClient: R2StorageClient) {
+    this.storageClient = storageClient;
+  }
+
+  /**
+   * Live data and delete files of a snapshot (the current one by default)
+   */
+  async listDataFiles(metadata: any, snapshotId?: string): Promise<DataFileInfo[]> {
+    const targetId = snapshotId ?? (metadata?.['current-snapshot-id'] !== undefined ? String(metadata['current-snapshot-id']) : null);
+    if (!targetId || targetId === '-1') return [];
+
+    const snapshot = (metadata?.snapshots || []).find((s: any) => String(s['snapshot-id']) === targetId);
+    if (!snapshot) {
+      throw new Error(`Snapshot ${targetId} does not exist`);
+    }
+
+    // Format v1 snapshots may list manifests inline instead of pointing at a manifest list
+    const manifests: Array<{ path: string; specId?: number }> = snapshot['manifest-list']
+      ? (await this.readFile(snapshot['manifest-list'])).records.map(entry => ({
+          path: entry.manifest_path,
+          specId: entry.partition_spec_id !== undefined ? Number(entry.partition_spec_id) : undefined,
+        }))
+      : (snapshot.manifests || []).map((manifestPath: string) => ({ path: manifestPath }));
+
+    const specs = new Map<number, any[]>(
+      (metadata?.['partition-specs'] || []).map((spec: any) => [Number(spec['spec-id']), spec.fields || []])
+    );
+    const columnNames = getColumnNamesById(metadata);
+    const columnTypes = getFieldTypesById(metadata);
+
+    const files: DataFileInfo[] = [];
+    for (let i = 0; i < manifests.length; i += MANIFEST_CONCURRENCY) {
+      const batch = manifests.slice(i, i + MANIFEST_CONCURRENCY);
+      const decoded = await Promise.all(batch.map(manifest => this.readFile(manifest.path)));
+
+      decoded.forEach((manifest, index) => {
+        const specId = batch[index].specId ?? Number(manifest.metadata['partition-spec-id'] ?? 0);
+        const specFields = specs.get(specId) || [];
+
+        for (const entry of manifest.records) {
+          if (Number(entry.status) === MANIFEST_ENTRY_DELETED) continue;
+          files.push(this.toDataFileInfo(entry.data_file, specId, specFields, columnNames, columnTypes));
+        }
+      });
+    }
+
+    return files;
+  }
+
+  private toDataFileInfo(
+    dataFile: any,
+    specId: number,
+    specFields: any[],
+    columnNames: Map<number, string>,
+    columnTypes: Map<number, string>
+  ): DataFileInfo {
+    const partition: Record<string, string | null> = {};
+    for (const field of specFields) {
+      partition[field.name] = formatPartitionValue(
+        dataFile.partition?.[field.name], field.transform, columnTypes.get(field['source-id'])
+      );
+    }
+    const keys = Object.entries(partition).map(([name, value]) => `${name}=${value ?? 'null'}`);
+
+    const lower = new Map(mapEntries(dataFile.lower_bounds));
+    const upper = new Map(mapEntries(dataFile.upper_bounds));
+    const boundIds = [...new Set([...lower.keys(), ...upper.keys()])].sort((a, b) => a - b);
+    const bounds = boundIds.map(id => ({
+      column: columnNames.get(id) ?? `field ${id}`,
+      lower: lower.has(id) ? decodeBound(lower.get(id)!, columnTypes.get(id)) : null,
+      upper: upper.has(id) ? decodeBound(upper.get(id)!, columnTypes.get(id)) : null,
+    }));
+
+    return {
+      path: dataFile.file_path,
+      format: String(dataFile.file_format ?? '').toLowerCase(),
+      content: CONTENT_TYPES[Number(dataFile.content ?? 0)] ?? 'data',
+      specId,
+      partition,
+      partitionKey: keys.length ? keys.join('/') : UNPARTITIONED,
+      recordCount: Number(dataFile.record_count) || 0,
+      fileSizeBytes: Number(dataFile.file_size_in_bytes) || 0,
+      bounds,
+    };
+  }
+
+  /**
+   * Forget decoded files, e.g. after the catalog was refreshed
+   */
+  clear(): void {
+    this.cache.clear();
+  }
+
+  private async readFile(uri: string): Promise<{ records: any[]; metadata: Record<string, string> }> {
+    const cached = this.cache.get(uri);
+    if (cached) {
+      // Maps iterate in insertion order, so re-inserting keeps the oldest entry first
+      this.cache.delete(uri);
+      this.cache.set(uri, cached);
+      return cached;
+    }
+
+    let file;
+    try {
+      file = readAvroFile(await this.storageClient.getObject(uri));
+    } catch (error) {
+      // e.g. a codec the reader doesn't support - callers show this instead of partial statistics
+      throw new Error(`File statistics unavailable: ${error instanceof Error ? error.message : String(error)} (${uri})`);
+    }
+    const { records, metadata } = file;
+    const decoded = { records, metadata };
+    this.cache.set(uri, decoded);
+    if (this.cache.size > MAX_CACHED_FILES) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+    return decoded;
+  }
+}
@@ -0,0 +1,425 @@
+import {
+  IcebergSchema, IcebergField, IcebergComplexType, IcebergPartitionSpec, IcebergPartitionField, CreateTableRequest,
+  RefType, RefRetention,
+} from './types.js';
+
+// Parsing for the DDL statements the shell handles itself through the Iceberg REST catalog
+
+export interface CreateTableStatement {
+  namespace: string;
+  table: string;
+  fields: IcebergField[] | null; // null when copying the schema with LIKE
+  likeTable: string | null;
+  partitionBy: string[];
+  properties: Record<string, string>;
+}
+
+export type RefCommand =
+  | { action: 'create'; type: RefType; name: string; snapshotId?: string; retention: RefRetention }
+  | { action: 'drop'; type: RefType; name: string }
+  | { action: 'fast-forward'; name: string; target: string };
+
+// SQL type names accepted for Iceberg primitives
+const PRIMITIVE_TYPES: Record<string, string> = {
+  boolean: 'boolean',
+  bool: 'boolean',
+  int: 'int',
+  integer: 'int',
+  bigint: 'long',
+  long: 'long',
+  float: 'float',
+  real: 'float',
+  double: 'double',
+  date: 'date',
+  time: 'time',
+  timestamp: 'timestamp',
+  timestamptz: 'timestamptz',
+  string: 'string',
+  varchar: 'string',
+  text: 'string',
+  uuid: 'uuid',
+  binary: 'binary',
+};
+
+// Partition fields get ids starting at 1000, as Iceberg itself does
+const PARTITION_FIELD_ID_START = 1000;
+
+/**
+ * Parse a property list like ('key' = 'value', ...) or, without values, ('key', ...)
+ */
+export function parsePropertyList(text: string): Record<string, string> | null {
+  const body = text.trim().match(/^\((.*)\)$/s);
+  if (!body) return null;
+
+  const properties: Record<string, string> = {};
+  const unquote = (value: string) => value.slice(1, -1).replace(/''/g, "'");
+  const pattern = /\s*('(?:[^']|'')*')(?:\s*=\s*('(?:[^']|'')*'))?\s*(?:,|$)/gy;
+  let match: RegExpExecArray | null;
+  let consumed = 0;
+  while (consumed < body[1].length && (match = pattern.exec(body[1])) !== null) {
+    properties[unquote(match[1])] = match[2] !== undefined ? unquote(match[2]) : '';
+    consumed = pattern.lastIndex;
+  }
+  return body[1].slice(consumed).trim() === '' ? properties : null;
+}
+
+/**
+ * Parse CREATE TABLE ns.t (col type [NOT NULL] [COMMENT '...'], ...) or CREATE TABLE ns.t LIKE ns.source,
+ * each optionally followed by PARTITIONED BY (...) and WITH PROPERTIES (...). Throws on syntax errors.
+ */
+export function parseCreateTable(sql: string): CreateTableStatement {
+  let rest = sql.trim().replace(/;\s*$/, '');
+
+  const header = rest.match(/^create\s+table\s+([^\s(]+)\s*/i);
+  if (!header) {
+    throw new Error('Expected CREATE TABLE <namespace>.<table>');
+  }
+  const qualifiedName = unquoteIdentifier(header[1]);
+  const lastDot = qualifiedName.lastIndexOf('.');
+  if (lastDot <= 0) {
+    throw new Error(`Table name must include its namespace: ${qualifiedName}`);
+  }
+  rest = rest.substring(header[0].length);
+
+  let fields: IcebergField[] | null = null;
+  let likeTable: string | null = null;
+
+  const like = rest.match(/^like\s+(\S+)\s*/i);
+  if (like) {
+    likeTable = unquoteIdentifier(like[1]);
+    rest = rest.substring(like[0].length);
+  } else if (rest.startsWith('(')) {
+    const end = findClosingParen(rest, 0);
+    const nextId = { value: 1 };
+    const columns = splitTopLevel(rest.substring(1, end));
+    if (columns.length === 0) {
+      throw new Error('CREATE TABLE needs at least one column');
+    }
+    fields = columns.map(column => parseColumn(column, nextId));
+    rest = rest.substring(end + 1).trim();
+  } else {
+    throw new Error('Expected a column list or LIKE <table> after the table name');
+  }
+
+  let partitionBy: string[] = [];
+  const partitioned = rest.match(/^partitioned\s+by\s*(?=\()/i);
+  if (partitioned) {
+    const start = partitioned[0].length;
+    const end = findClosingParen(rest, start);
+    partitionBy = splitTopLevel(rest.substring(start + 1, end));
+    rest = rest.substring(end + 1).trim();
+  }
+
+  let properties: Record<string, string> = {};
+  const withProperties = rest.match(/^with\s+properties\s*(\(.*\))$/is);
+  if (withProperties) {
+    const parsed = parsePropertyList(withProperties[1]);
+    if (!parsed) {
+      throw new Error("Invalid property list. Use WITH PROPERTIES ('key' = 'value', ...)");
+    }
+    properties = parsed;
+    rest = '';
+  }
+
+  if (rest) {
+    throw new Error(`Unexpected input: ${rest}`);
+  }
+
+  return {
+    namespace: qualifiedName.substring(0, lastDot),
+    table: qualifiedName.substring(lastDot + 1),
+    fields,
+    likeTable,
+    partitionBy,
+    properties,
+  };
+}
+
+/**
+ * Build the REST create-table body. For LIKE, pass the schema of the source table.
+ */
+export function buildCreateTableRequest(statement: CreateTableStatement, sourceSchema?: IcebergSchema): CreateTableRequest {
+  const fields = statement.fields || sourceSchema?.fields;
+  if (!fields) {
+    throw new Error(`No schema available for ${statement.table}`);
+  }
+
+  const schema: IcebergSchema = { type: 'struct', 'schema-id': 0, fields };
+  const request: CreateTableRequest = { name: statement.table, schema };
+
+  if (statement.partitionBy.length > 0) {
+    request['partition-spec'] = buildPartitionSpec(statement.partitionBy, fields);
+  }
+  if (Object.keys(statement.properties).length > 0) {
+    request.properties = statement.properties;
+  }
+
+  return request;
+}
+
+/**
+ * Translate partition expressions - col, year/month/day/hour(col), bucket(n, col), truncate(w, col) -
+ * into a partition spec that references the schema's field ids
+ */
+export function buildPartitionSpec(expressions: string[], fields: IcebergField[]): IcebergPartitionSpec {
+  const partitionFields: IcebergPartitionField[] = expressions.map((expression, i) => {
+    const call = expression.trim().match(/^(\w+)\s*\((.*)\)$/s);
+    let transform = 'identity';
+    let column = expression.trim();
+
+    if (call) {
+      const name = call[1].toLowerCase();
+      const args = splitTopLevel(call[2]);
+      const timeTransform = name.replace(/s$/, ''); // Spark spells these days(ts), hours(ts), ...
+
+      if (['year', 'month', 'day', 'hour'].includes(timeTransform) && args.length === 1) {
+        transform = timeTransform;
+        column = args[0];
+      } else if ((name === 'bucket' || name === 'truncate') && args.length === 2 && /^\d+$/.test(args[0])) {
+        transform = `${name}[${args[0]}]`;
+        column = args[1];
+      } else if (name === 'identity' && args.length === 1) {
+        column = args[0];
+      } else {
+        throw new Error(`Unsupported partition transform: ${expression}`);
+      }
+    }
+
+    column = unquoteIdentifier(column);
+    const source = findField(fields, column);
+    if (!source) {
+      throw new Error(`Unknown partition column: ${column}`);
+    }
+
+    const baseName = column.replace(/\./g, '_');
+    const suffix = transform === 'identity' ? ''
+      : transform.startsWith('bucket') ? '_bucket'
+      : transform.startsWith('truncate') ? '_trunc'
+      : `_${transform}`;
+
+    return {
+      'source-id': source.id,
+      'field-id': PARTITION_FIELD_ID_START + i,
+      name: baseName + suffix,
+      transform,
+    };
+  });
+
+  return { 'spec-id': 0, fields: partitionFields };
+}
+
+/**
+ * Parse the branch/tag part of ALTER TABLE <table> ...:
+ *   CREATE BRANCH|TAG <name> [AS OF VERSION <snapshot-id>] [RETAIN <n> DAYS|HOURS|MINUTES]
+ *     [WITH SNAPSHOT RETENTION [<n> SNAPSHOTS] [<n> DAYS|HOURS|MINUTES]]   (branches only)
+ *   DROP BRANCH|TAG <name>
+ *   FAST FORWARD <branch> TO <ref or snapshot-id>
+ * Returns null when the text isn't a ref command; throws when it is one but is malformed.
+ */
+export function parseRefCommand(text: string): RefCommand | null {
+  const trimmed = text.trim().replace(/;\s*$/, '');
+
+  const drop = trimmed.match(/^drop\s+(branch|tag)\s+(\S+)$/i);
+  if (drop) {
+    return { action: 'drop', type: drop[1].toLowerCase() as RefType, name: unquoteIdentifier(drop[2]) };
+  }
+
+  const fastForward = trimmed.match(/^fast[\s_-]?forward\s+(\S+)\s+to\s+(\S+)$/i);
+  if (fastForward) {
+    return { action: 'fast-forward', name: unquoteIdentifier(fastForward[1]), target: unquoteIdentifier(fastForward[2]) };
+  }
+
+  const create = trimmed.match(/^create\s+(branch|tag)\s+(\S+)(.*)$/is);
+  if (!create) {
+    if (/^(create|drop)\s+(branch|tag)\b|^fast[\s_-]?forward\b/i.test(trimmed)) {
+      throw new Error(`Invalid branch/tag command: ${trimmed}`);
+    }
+    return null;
+  }
+
+  const type = create[1].toLowerCase() as RefType;
+  let rest = create[3].trim();
+  const command: RefCommand = { action: 'create', type, name: unquoteIdentifier(create[2]), retention: {} };
+
+  const asOf = rest.match(/^as\s+of\s+version\s+(\d+)\s*/i);
+  if (asOf) {
+    command.snapshotId = asOf[1];
+    rest = rest.substring(asOf[0].length);
+  }
+
+  const retain = rest.match(/^retain\s+(\d+)\s+(days?|hours?|minutes?)\s*/i);
+  if (retain) {
+    command.retention.maxRefAgeMs = durationMs(Number(retain[1]), retain[2]);
+    rest = rest.substring(retain[0].length);
+  }
+
+  const snapshotRetention = rest.match(/^with\s+snapshot\s+retention(?:\s+(\d+)\s+snapshots)?(?:\s+(\d+)\s+(days?|hours?|minutes?))?\s*/i);
+  if (snapshotRetention && (snapshotRetention[1] || snapshotRetention[2])) {
+    if (type === 'tag') {
+      throw new Error('Tags only support RETAIN; snapshot retention applies to branches');
+    }
+    if (snapshotRetention[1]) command.retention.minSnapshotsToKeep = Number(snapshotRetention[1]);
+    if (snapshotRetention[2]) command.retention.maxSnapshotAgeMs = durationMs(Number(snapshotRetention[2]), snapshotRetention[3]);
+    rest = rest.substring(snapshotRetention[0].length);
+  }
+
+  if (rest) {
+    throw new Error(`Unexpected input: ${rest}`);
+  }
+  return command;
+}
+
+function durationMs(amount: number, unit: string): number {
+  const lower = unit.toLowerCase();
+  const size = lower.startsWith('day') ? 86_400_000 : lower.startsWith('hour') ? 3_600_000 : 60_000;
+  return amount * size;
+}
+
+function parseColumn(definition: string, nextId: { value: number }): IcebergField {
+  const match = definition.trim().match(/^("[^"]+"|`[^`]+`|[\w$]+)(?:\s*:\s*|\s+)(.+)$/s);
+  if (!match) {
+    throw new Error(`Invalid column definition: ${definition.trim()}`);
+  }
+
+  let typeText = match[2].trim();
+  let doc: string | undefined;
+  const comment = typeText.match(/\s+comment\s+'((?:[^']|'')*)'$/i);
+  if (comment) {
+    doc = comment[1].replace(/''/g, "'");
+    typeText = typeText.substring(0, comment.index).trim();
+  }
+
+  const required = /\s+not\s+null$/i.test(typeText);
+  typeText = typeText.replace(/\s+(not\s+)?null$/i, '').trim();
+
+  const field: IcebergField = { id: nextId.value++, name: unquoteIdentifier(match[1]), required, type: 'string' };
+  field.type = parseType(typeText, nextId);
+  if (doc !== undefined) field.doc = doc;
+  return field;
+}
+
+function parseType(text: string, nextId: { value: number }): string | IcebergComplexType {
+  const trimmed = text.trim();
+  const lower = trimmed.toLowerCase();
+
+  if (PRIMITIVE_TYPES[lower]) {
+    return PRIMITIVE_TYPES[lower];
+  }
+
+  const decimal = lower.match(/^(?:decimal|numeric)\s*\(\s*(\d+)\s*,\s*(\d+)\s*\)$/);
+  if (decimal) {
+    return `decimal(${decimal[1]}, ${decimal[2]})`;
+  }
+
+  const fixed = lower.match(/^fixed\s*[([]\s*(\d+)\s*[)\]]$/);
+  if (fixed) {
+    return `fixed[${fixed[1]}]`;
+  }
+
+  // varchar(255) and friends carry no length in Iceberg
+  if (/^(?:varchar|char)\s*\(\s*\d+\s*\)$/.test(lower)) {
+    return 'string';
+  }
+
+  const nested = trimmed.match(/^(\w+)\s*<(.*)>$/s);
+  if (nested) {
+    const kind = nested[1].toLowerCase();
+    const args = splitTopLevel(nested[2]);
+
+    if (kind === 'struct') {
+      return {
+        type: 'struct',
+        fields: args.map(arg => parseColumn(arg, nextId)),
+      };
+    }
+
+    if ((kind === 'array' || kind === 'list') && args.length === 1) {
+      const elementId = nextId.value++;
+      return {
+        'type': 'list',
+        'element-id': elementId,
+        'element': parseType(args[0], nextId),
+        'element-required': false,
+      };
+    }
+
+    if (kind === 'map' && args.length === 2) {
+      const keyId = nextId.value++;
+      const valueId = nextId.value++;
+      return {
+        'type': 'map',
+        'key-id': keyId,
+        'key': parseType(args[0], nextId),
+        'value-id': valueId,
+        'value': parseType(args[1], nextId),
+        'value-required': false,
+      };
+    }
+  }
+
+  throw new Error(`Unsupported column type: ${trimmed}`);
+}
+
+// Look up a column by name; dotted paths walk into structs
+function findField(fields: IcebergField[], path: string): IcebergField | undefined {
+  const [head, ...rest] = path.split('.');
+  const field = fields.find(f => f.name.toLowerCase() === head.toLowerCase());
+  if (!field || rest.length === 0) return field;
+  if (typeof field.type === 'object' && field.type.type === 'struct') {
+    return findField(field.type.fields, rest.join('.'));
+  }
+  return undefined;
+}
+
+function unquoteIdentifier(name: string): string {
+  return name.replace(/["`]/g, '');
+}
+
+function findClosingParen(text: string, start: number): number {
+  let depth = 0;
+  let quote: string | null = null;
+
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '\'' || ch === '"' || ch === '`') {
+      quote = ch;
+    } else if (ch === '(') {
+      depth++;
+    } else if (ch === ')') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+
+  throw new Error('Unbalanced parentheses');
+}
+
+// Split on commas that aren't nested inside (), <> or quotes
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let current = '';
+
+  for (const ch of text) {
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '\'' || ch === '"' || ch === '`') {
+      quote = ch;
+    } else if (ch === '(' || ch === '<') {
+      depth++;
+    } else if (ch === ')' || ch === '>') {
+      depth--;
+    } else if (ch === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += ch;
+  }
+
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
@@ -0,0 +1,223 @@
+import fetch from 'node-fetch';
+import { R2SQLConfig } from './types.js';
+import { R2SQLClient } from './r2sql-client.js';
+import { IcebergCatalogClient } from './iceberg-client.js';
+import { R2StorageClient } from './r2-storage-client.js';
+
+// `doctor` / `status --verify`: checks the token, then each of the three permissions the shell needs,
+// so a token missing a scope is reported by name instead of as an unexplained 403 later
+
+export type Permission = 'Data Catalog' | 'Object Storage' | 'R2 SQL Read';
+
+export type CheckStatus = 'ok' | 'failed' | 'skipped';
+
+export interface DiagnosticCheck {
+  name: string;
+  status: CheckStatus;
+  detail: string;
+  missingPermission?: Permission;
+  hint?: string; // How to fix a failed check
+}
+
+export interface TokenVerification {
+  valid: boolean | null; // null when Cloudflare couldn't be reached
+  status?: string; // active, disabled or expired
+  id?: string;
+  expiresOn?: string;
+}
+
+const TOKEN_HINT = 'Create a token at https://dash.cloudflare.com/?to=/:account/r2/api-tokens and run `r2sql-shell login` again';
+
+// How to grant each permission on an existing token; edited tokens keep their value, so no new login is needed
+const PERMISSION_HINTS: Record<Permission, string> = {
+  'Data Catalog': 'Edit the API token and add R2 Data Catalog: Edit (Read is enough for queries)',
+  'Object Storage': 'Edit the API token and add R2 Object Storage: Edit (Read is enough for queries)',
+  'R2 SQL Read': 'Edit the API token and add R2 SQL: Read',
+};
+
+// Cap on how long the test query may take
+const SQL_CHECK_TIMEOUT_SECONDS = 30;
+
+function isAccessDenied(message: string): boolean {
+  return /\b(401|403)\b|unauthori[sz]ed|forbidden|not authorized|access denied|denied access/i.test(message);
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Check a token with Cloudflare's verify endpoint. User tokens verify under /user, account-owned
+ * tokens under /accounts/{id}.
+ */
+export async function verifyToken(apiToken: string, accountId?: string): Promise<TokenVerification> {
+  const verifyUrls = ['https://api.cloudflare.com/client/v4/user/tokens/verify'];
+  if (accountId) {
+    verifyUrls.push(`https://api.cloudflare.com/client/v4/accounts/${accountId}/tokens/verify`);
+  }
+
+  let reached = false;
+  for (const url of verifyUrls) {
+    try {
+      const response = await fetch(url, { headers: { 'Authorization': `Bearer ${apiToken}` } });
+      reached = true;
+      const data = await response.json() as any;
+      if (response.ok && data.success && data.result) {
+        return {
+          valid: data.result.status === 'active',
+          status: data.result.status,
+          id: data.result.id,
+          expiresOn: data.result.expires_on,
+        };
+      }
+    } catch {
+      // Try the next endpoint
+    }
+  }
+  return { valid: reached ? false : null };
+}
+
+/**
+ * Runs the checks against a configuration: the token itself, then Data Catalog (catalog /v1/config and a
+ * table listing), Object Storage (reading a table's metadata file) and R2 SQL Read (a one-row query)
+ */
+export class Diagnostics {
+  private config: R2SQLConfig;
+  private tokenSource?: string;
+
+  constructor(config: R2SQLConfig, tokenSource?: string) {
+    this.config = config;
+    this.tokenSource = tokenSource;
+  }
+
+  async run(): Promise<DiagnosticCheck[]> {
+    const { check: token, rejected } = await this.checkToken();
+    if (rejected) {
+      // Every other request would be rejected too, which says nothing about the permissions
+      const skipped = (name: string): DiagnosticCheck => ({ name, status: 'skipped', detail: 'Skipped because the token was rejected' });
+      return [token, skipped('Data Catalog'), skipped('Object Storage'), skipped('R2 SQL Read')];
+    }
+
+    const catalog = await this.checkCatalog();
+    return [
+      token,
+      catalog.check,
+      await this.checkObjectStorage(catalog.metadataLocation),
+      await this.checkSql(catalog.table),
+    ];
+  }
+
+  // rejected is true when Cloudflare refused the token itself, so the permission checks can't tell anything
+  private async checkToken(): Promise<{ check: DiagnosticCheck; rejected: boolean }> {
+    const name = 'API token';
+    const verification = await verifyToken(this.config.apiToken, this.config.accountId);
+
+    if (verification.valid) {
+      const expires = verification.expiresOn ? `, expires ${verification.expiresOn}` : '';
+      return { check: { name, status: 'ok', detail: `Token is active${expires}` }, rejected: false };
+    }
+    if (verification.valid === null) {
+      const hint = 'Check your network connection and proxy settings';
+      return { check: { name, status: 'failed', detail: 'Could not reach api.cloudflare.com', hint }, rejected: false };
+    }
+    if (this.tokenSource === 'wrangler' && !verification.status) {
+      // OAuth tokens aren't API tokens, so the verify endpoint doesn't know them; the other checks still apply
+      const detail = 'OAuth tokens from wrangler login can\'t be checked with the token verify endpoint';
+      return { check: { name, status: 'skipped', detail }, rejected: false };
+    }
+    if (verification.status) {
+      return { check: { name, status: 'failed', detail: `Token is ${verification.status}`, hint: TOKEN_HINT }, rejected: true };
+    }
+    const hint = `Check the token was copied completely. ${TOKEN_HINT}`;
+    return { check: { name, status: 'failed', detail: 'Cloudflare rejected the token', hint }, rejected: true };
+  }
+
+  private async checkCatalog(): Promise<{
+    check: DiagnosticCheck;
+    table?: { namespace: string; table: string };
+    metadataLocation?: string;
+  }> {
+    const name = 'Data Catalog';
+    const catalogClient = new IcebergCatalogClient(this.config);
+
+    try {
+      await catalogClient.getCatalogConfig();
+
+      // The first table found is used by the storage and SQL checks
+      for (const namespace of await catalogClient.listNamespaces()) {
+        for await (const table of catalogClient.iterateTables(namespace, 1)) {
+          const metadata = await catalogClient.getTableMetadata(namespace, table);
+          return {
+            check: { name, status: 'ok', detail: `Catalog of ${this.config.bucketName} is readable; found ${namespace}.${table}` },
+            table: { namespace, table },
+            metadataLocation: metadata?.metadataLocation,
+          };
+        }
+      }
+      return { check: { name, status: 'ok', detail: `Catalog of ${this.config.bucketName} is readable; it has no tables yet` } };
+    } catch (error) {
+      const message = errorMessage(error);
+      if (isAccessDenied(message)) {
+        return { check: { name, status: 'failed', detail: `Access denied: ${message}`, missingPermission: name, hint: PERMISSION_HINTS[name] } };
+      }
+      if (/\b(400|404)\b/.test(message)) {
+        return {
+          check: {
+            name,
+            status: 'failed',
+            detail: `No catalog for bucket ${this.config.bucketName}: ${message}`,
+            hint: `Check the account ID and bucket name, and enable the catalog with: npx wrangler r2 bucket catalog enable ${this.config.bucketName}`,
+          },
+        };
+      }
+      return { check: { name, status: 'failed', detail: message } };
+    }
+  }
+
+  private async checkObjectStorage(metadataLocation?: string): Promise<DiagnosticCheck> {
+    const name = 'Object Storage';
+    if (!metadataLocation) {
+      return { name, status: 'skipped', detail: 'No table metadata file to read; create a table to check this' };
+    }
+
+    try {
+      await new R2StorageClient(this.config).getObject(metadataLocation);
+      return { name, status: 'ok', detail: `Read ${metadataLocation}` };
+    } catch (error) {
+      const message = errorMessage(error);
+      if (isAccessDenied(message)) {
+        return { name, status: 'failed', detail: message, missingPermission: name, hint: PERMISSION_HINTS[name] };
+      }
+      if (/derive R2 credentials/.test(message)) {
+        return {
+          name,
+          status: 'failed',
+          detail: message,
+          hint: this.tokenSource === 'wrangler'
+            ? 'OAuth tokens can\'t sign R2 requests; log in with an API token or set R2_ACCESS_KEY_ID and R2_SECRET_ACCESS_KEY'
+            : 'Set R2_ACCESS_KEY_ID and R2_SECRET_ACCESS_KEY',
+        };
+      }
+      return { name, status: 'failed', detail: message };
+    }
+  }
+
+  private async checkSql(table?: { namespace: string; table: string }): Promise<DiagnosticCheck> {
+    const name = 'R2 SQL Read';
+    // Without a table the query fails to plan, but an auth error still comes back first
+    const sql = table ? `SELECT * FROM ${table.namespace}.${table.table} LIMIT 1` : 'SELECT 1';
+    const client = new R2SQLClient({ ...this.config, queryTimeout: SQL_CHECK_TIMEOUT_SECONDS });
+    const result = await client.executeQuery(sql);
+
+    if (!result.error) {
+      return { name, status: 'ok', detail: `Ran ${sql}` };
+    }
+    if (result.status === 401 || result.status === 403 || isAccessDenied(result.error)) {
+      return { name, status: 'failed', detail: result.error, missingPermission: name, hint: PERMISSION_HINTS[name] };
+    }
+    if (!table && result.status !== undefined) {
+      return { name, status: 'ok', detail: 'R2 SQL accepted the token (no table to query yet)' };
+    }
+    return { name, status: 'failed', detail: result.error };
+  }
+}
@@ -2,6 +2,18 @@ import chalk from 'chalk';
 import Table from 'cli-table3';
 import asciichart from 'asciichart';
 import { format } from 'sql-formatter';
+import { OutputFormat, StatementResult } from './types.js';
+import {
+  SnapshotRow, PartitionSpecInfo, SortOrderInfo, SchemaVersion, SchemaChangeKind, TableDetails, RefRow,
+  formatTimestampMs, formatDurationMs, formatBytes, getTableDetailSections,
+} from './iceberg-metadata.js';
+import { DataFileInfo, PartitionSummary } from './data-files.js';
+import { PlanNode } from './query-plan.js';
+import { ValidationIssue } from './sql-validator.js';
+import { Completion } from './completion.js';
+import { DiagnosticCheck } from './diagnostics.js';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['csv', 'tsv', 'json', 'ndjson', 'table'];
 
 export class ResultFormatter {
   formatSQL(sql: string): string {
@@ -37,6 +49,46 @@ export class ResultFormatter {
     return lines.join('\n');
   }
 
+  // Errors stop the query; when there are only warnings the query is sent anyway
+  formatValidationIssues(sql: string, issues: ValidationIssue[]): string {
+    const sourceLines = sql.split('\n');
+    const blocking = issues.some(issue => issue.severity === 'error');
+    const lines = [blocking
+      ? chalk.red.bold(`✗ ${issues.length} problem${issues.length === 1 ? '' : 's'} found before running the query`)
+      : chalk.yellow.bold(`⚠ ${issues.length} warning${issues.length === 1 ? '' : 's'}, running the query anyway`)];
+
+    for (const issue of issues) {
+      const color = issue.severity === 'error' ? chalk.red : chalk.yellow;
+      const source = sourceLines[issue.line - 1] ?? '';
+      const width = Math.max(1, Math.min(issue.length, source.length - issue.column + 1));
+      lines.push('');
+      lines.push(`  ${chalk.dim(`${issue.line}:${issue.column}`)} ${color(issue.message)}`);
+      lines.push(`    ${source}`);
+      lines.push(`    ${' '.repeat(issue.column - 1)}${color('^'.repeat(width))}`);
+    }
+
+    if (blocking) {
+      lines.push('');
+      lines.push(chalk.dim('Start the shell with --no-validate to send queries to R2 SQL without these checks.'));
+    }
+    return lines.join('\n');
+  }
+
+  formatCompletions(completions: Completion[]): string {
+    const width = Math.max(...completions.map(c => c.text.length + (c.detail ? c.detail.length + 1 : 0))) + 2;
+    const perRow = Math.max(1, Math.floor((process.stdout.columns || 80) / width));
+    const cells = completions.map(c => {
+      const plain = c.text + (c.detail ? ` ${c.detail}` : '');
+      return chalk.white(c.text) + (c.detail ? ' ' + chalk.dim(c.detail) : '') + ' '.repeat(width - plain.length);
+    });
+
+    const rows: string[] = [];
+    for (let i = 0; i < cells.length; i += perRow) {
+      rows.push(cells.slice(i, i + perRow).join('').trimEnd());
+    }
+    return rows.join('\n');
+  }
+
   formatTable(data: any[]): string {
     if (data.length === 0) {
       return chalk.yellow('No results');
@@ -65,6 +117,70 @@ export class ResultFormatter {
     return table.toString();
   }
 
+  formatOutput(data: any[], format: OutputFormat): string {
+    switch (format) {
+      case 'csv':
+        return this.formatDelimited(data, ',');
+      case 'tsv':
+        return this.formatDelimited(data, '\t');
+      case 'json':
+        return JSON.stringify(data, null, 2);
+      case 'ndjson':
+        return data.map(row => JSON.stringify(row)).join('\n');
+      case 'table':
+        return this.formatPlainTable(data);
+    }
+  }
+
+  private formatDelimited(data: any[], delimiter: string): string {
+    if (data.length === 0) return '';
+
+    const columns = Object.keys(data[0]);
+    const escape = (value: any): string => {
+      const str = this.toPlainString(value);
+      if (delimiter === '\t') {
+        // TSV has no quoting - flatten tabs and newlines instead
+        return str.replace(/[\t\r\n]/g, ' ');
+      }
+      if (/[",\r\n]/.test(str)) {
+        return `"${str.replace(/"/g, '""')}"`;
+      }
+      return str;
+    };
+
+    const lines = [columns.map(escape).join(delimiter)];
+    for (const row of data) {
+      lines.push(columns.map(col => escape(row[col])).join(delimiter));
+    }
+
+    return lines.join('\n');
+  }
+
+  private formatPlainTable(data: any[]): string {
+    if (data.length === 0) return '(0 rows)';
+
+    const columns = Object.keys(data[0]);
+    const rows = data.map(row => columns.map(col => {
+      const value = row[col];
+      return value === null || value === undefined ? 'NULL' : this.toPlainString(value).replace(/[\r\n]/g, ' ');
+    }));
+    const widths = columns.map((col, i) => Math.max(col.length, ...rows.map(row => row[i].length)));
+
+    const lines = [
+      columns.map((col, i) => col.padEnd(widths[i])).join(' | ').trimEnd(),
+      widths.map(w => '-'.repeat(w)).join('-+-'),
+      ...rows.map(row => row.map((value, i) => value.padEnd(widths[i])).join(' | ').trimEnd()),
+    ];
+
+    return lines.join('\n');
+  }
+
+  private toPlainString(value: any): string {
+    if (value === null || value === undefined) return '';
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+  }
+
   formatMetadata(metadata?: { rowCount?: number; executionTime?: number; bytesScanned?: number }): string {
     if (!metadata) return '';
 
@@ -79,15 +195,305 @@ export class ResultFormatter {
     }
 
     if (metadata.bytesScanned !== undefined) {
-      const kb = metadata.bytesScanned / 1024;
-      const mb = kb / 1024;
-      const sizeStr = mb >= 1 ? `${mb.toFixed(2)} MB` : `${kb.toFixed(2)} KB`;
-      lines.push(chalk.dim(`Scanned: ${chalk.white(sizeStr)}`));
+      lines.push(chalk.dim(`Scanned: ${chalk.white(this.formatBytes(metadata.bytesScanned))}`));
     }
 
     return lines.join(' | ');
   }
 
+  formatBytes(bytes: number): string {
+    return formatBytes(bytes);
+  }
+
+  formatScriptSummary(results: StatementResult[]): string {
+    const table = new Table({
+      head: ['#', 'Status', 'Rows', 'Scanned', 'Time', 'Statement'].map(col => chalk.cyan.bold(col)),
+      style: {
+        head: [],
+        border: ['grey'],
+      },
+    });
+
+    let succeeded = 0;
+    let failed = 0;
+    let skipped = 0;
+
+    for (const { index, sql, result } of results) {
+      const statement = sql.replace(/\s+/g, ' ');
+      const preview = statement.length > 50 ? statement.substring(0, 47) + '...' : statement;
+
+      if (!result) {
+        skipped++;
+        table.push([index, chalk.dim('skipped'), '', '', '', chalk.dim(preview)]);
+      } else if (result.error) {
+        failed++;
+        table.push([index, chalk.red('error'), '', '', '', preview]);
+      } else {
+        succeeded++;
+        const meta = result.metadata;
+        table.push([
+          index,
+          chalk.green('ok'),
+          (meta?.rowCount ?? result.data.length).toLocaleString(),
+          meta?.bytesScanned !== undefined ? this.formatBytes(meta.bytesScanned) : '',
+          meta?.executionTime !== undefined ? `${meta.executionTime.toFixed(2)}ms` : '',
+          preview,
+        ]);
+      }
+    }
+
+    const totals = [chalk.green(`${succeeded} succeeded`)];
+    if (failed > 0) totals.push(chalk.red(`${failed} failed`));
+    if (skipped > 0) totals.push(chalk.dim(`${skipped} skipped`));
+
+    return chalk.white.bold('Script Summary:') + '\n' + table.toString() + '\n' + totals.join(chalk.dim(' | '));
+  }
+
+  formatDiagnostics(checks: DiagnosticCheck[]): string {
+    const width = Math.max(...checks.map(check => check.name.length)) + 2;
+    const lines: string[] = [];
+
+    for (const check of checks) {
+      const icon = check.status === 'ok' ? chalk.green('✓') : check.status === 'failed' ? chalk.red('✗') : chalk.dim('-');
+      const detail = check.status === 'failed' ? chalk.red(check.detail) : chalk.dim(check.detail);
+      lines.push(`${icon} ${chalk.white(check.name.padEnd(width))}${detail}`);
+      if (check.hint) {
+        lines.push(`  ${' '.repeat(width)}${chalk.yellow(`💡 ${check.hint}`)}`);
+      }
+    }
+
+    const missing = checks.filter(check => check.missingPermission).map(check => check.missingPermission!);
+    const failed = checks.filter(check => check.status === 'failed').length;
+    lines.push('');
+    if (missing.length > 0) {
+      lines.push(chalk.red.bold(`Missing permission${missing.length === 1 ? '' : 's'}: ${missing.join(', ')}`));
+    } else if (failed > 0) {
+      lines.push(chalk.red.bold(`${failed} check${failed === 1 ? '' : 's'} failed`));
+    } else {
+      lines.push(chalk.green.bold('✓ The token has everything r2sql-shell needs'));
+    }
+    return lines.join('\n');
+  }
+
+  formatSnapshots(rows: SnapshotRow[]): string {
+    if (rows.length === 0) {
+      return chalk.yellow('No snapshots');
+    }
+
+    const table = new Table({
+      head: ['Snapshot ID', 'Parent', 'Timestamp (UTC)', 'Operation', '+Files', '-Files', '+Records', '-Records', '+Size', '-Size']
+        .map(col => chalk.cyan.bold(col)),
+      style: {
+        head: [],
+        border: ['grey'],
+      },
+    });
+
+    const count = (value: number | null) => value === null ? chalk.dim('-') : value.toLocaleString();
+    const size = (value: number | null) => value === null ? chalk.dim('-') : this.formatBytes(value);
+
+    for (const row of rows) {
+      const labels = row.isCurrent ? ['current', ...row.refs] : row.refs;
+      const id = labels.length > 0 ? `${row.snapshotId} ${chalk.green(`(${labels.join(', ')})`)}` : row.snapshotId;
+      table.push([
+        id,
+        row.parentId ?? chalk.dim('-'),
+        formatTimestampMs(row.timestampMs),
+        row.operation,
+        count(row.addedDataFiles),
+        count(row.deletedDataFiles),
+        count(row.addedRecords),
+        count(row.deletedRecords),
+        size(row.addedFilesSize),
+        size(row.removedFilesSize),
+      ]);
+    }
+
+    return table.toString();
+  }
+
+  formatRefs(rows: RefRow[]): string {
+    if (rows.length === 0) {
+      return chalk.yellow('No branches or tags');
+    }
+
+    const table = new Table({
+      head: ['Name', 'Type', 'Snapshot ID', 'Snapshot Time (UTC)', 'Max Ref Age', 'Max Snapshot Age', 'Min Snapshots']
+        .map(col => chalk.cyan.bold(col)),
+      style: {
+        head: [],
+        border: ['grey'],
+      },
+    });
+
+    const duration = (value: number | null) => value === null ? chalk.dim('-') : formatDurationMs(value);
+
+    for (const row of rows) {
+      table.push([
+        row.isMain ? `${row.name} ${chalk.green('(main)')}` : row.name,
+        row.type === 'tag' ? chalk.magenta(row.type) : chalk.cyan(row.type),
+        row.snapshotId,
+        row.snapshotTimestampMs !== null ? formatTimestampMs(row.snapshotTimestampMs) : chalk.dim('-'),
+        duration(row.maxRefAgeMs),
+        duration(row.maxSnapshotAgeMs),
+        row.minSnapshotsToKeep === null ? chalk.dim('-') : String(row.minSnapshotsToKeep),
+      ]);
+    }
+
+    return table.toString();
+  }
+
+  formatPartitionLayout(specs: PartitionSpecInfo[], orders: SortOrderInfo[]): string {
+    const lines: string[] = [chalk.cyan.bold('Partition Specs:')];
+
+    if (specs.length === 0) {
+      lines.push(chalk.dim('  (none)'));
+    }
+    for (const spec of specs) {
+      const label = `  Spec ${spec.specId}` + (spec.isDefault ? chalk.green(' (default)') : chalk.dim(' (historical)'));
+      if (spec.fields.length === 0) {
+        lines.push(label + chalk.dim(' - unpartitioned'));
+        continue;
+      }
+      lines.push(label);
+      for (const field of spec.fields) {
+        lines.push(`    ${chalk.cyan(field.name.padEnd(25))} ${chalk.yellow(field.expression.padEnd(30))} ${chalk.dim(`source: ${field.sourceColumn} (id ${field.sourceId})`)}`);
+      }
+    }
+
+    lines.push('');
+    lines.push(chalk.cyan.bold('Sort Orders:'));
+
+    if (orders.length === 0) {
+      lines.push(chalk.dim('  (none)'));
+    }
+    for (const order of orders) {
+      const label = `  Order ${order.orderId}` + (order.isDefault ? chalk.green(' (default)') : '');
+      const fields = order.fields.map(field => [field.expression, field.direction, field.nullOrder].filter(Boolean).join(' '));
+      lines.push(`${label}: ${fields.length > 0 ? fields.join(', ') : chalk.dim('unsorted')}`);
+    }
+
+    return lines.join('\n');
+  }
+
+  formatTableDetails(details: TableDetails): string {
+    const lines: string[] = [];
+    for (const section of getTableDetailSections(details)) {
+      if (lines.length > 0) lines.push('');
+      lines.push(chalk.cyan.bold(`${section.title}:`));
+      if (section.rows.length === 0) {
+        lines.push(chalk.dim('  (none)'));
+      }
+      for (const { label, value } of section.rows) {
+        lines.push(`  ${chalk.cyan(label.padEnd(section.labelWidth))} ${value === null ? chalk.dim('-') : chalk.white(value)}`);
+      }
+    }
+    return lines.join('\n');
+  }
+
+  formatSchemaHistory(versions: SchemaVersion[]): string {
+    if (versions.length === 0) {
+      return chalk.yellow('No schemas found');
+    }
+
+    const colors: Record<SchemaChangeKind, (text: string) => string> = {
+      'added': chalk.green,
+      'dropped': chalk.red,
+      'renamed': chalk.cyan,
+      'type-promoted': chalk.yellow,
+      'nullability': chalk.magenta,
+    };
+
+    const lines: string[] = [];
+    for (const version of versions) {
+      let header = chalk.white.bold(`Schema ${version.schemaId}`);
+      if (version.isCurrent) header += chalk.green(' (current)');
+      header += chalk.dim(` - ${version.fieldCount} fields`);
+      if (version.firstUsedMs !== null) header += chalk.dim(`, first written ${formatTimestampMs(version.firstUsedMs)}`);
+      lines.push(header);
+
+      if (version === versions[0]) {
+        lines.push(chalk.dim('  initial schema'));
+      } else if (version.changes.length === 0) {
+        lines.push(chalk.dim('  no field changes'));
+      }
+      for (const change of version.changes) {
+        const kind = colors[change.kind](change.kind.padEnd(14));
+        lines.push(`  ${kind} ${chalk.white(change.name.padEnd(30))} ${chalk.dim(change.detail)} ${chalk.dim(`(id ${change.fieldId})`)}`);
+      }
+      lines.push('');
+    }
+
+    return lines.join('\n').trimEnd();
+  }
+
+  formatPartitionSummary(summaries: PartitionSummary[]): string {
+    if (summaries.length === 0) {
+      return chalk.yellow('No data files');
+    }
+
+    const table = new Table({
+      head: ['Partition', 'Files', 'Small Files', 'Records', 'Size', 'Avg File', 'Share']
+        .map(col => chalk.cyan.bold(col)),
+      style: {
+        head: [],
+        border: ['grey'],
+      },
+    });
+
+    for (const summary of summaries) {
+      table.push([
+        summary.partitionKey,
+        String(summary.files),
+        summary.smallFiles > 0 ? chalk.yellow(String(summary.smallFiles)) : chalk.dim('0'),
+        summary.records.toLocaleString(),
+        this.formatBytes(summary.sizeBytes),
+        this.formatBytes(summary.avgFileSizeBytes),
+        `${(summary.sizeShare * 100).toFixed(1)}%`,
+      ]);
+    }
+
+    return table.toString();
+  }
+
+  formatDataFiles(files: DataFileInfo[], smallFileThreshold: number): string {
+    if (files.length === 0) {
+      return chalk.yellow('No data files');
+    }
+
+    const table = new Table({
+      head: ['File', 'Partition', 'Content', 'Records', 'Size', 'Column Bounds (lower .. upper)']
+        .map(col => chalk.cyan.bold(col)),
+      style: {
+        head: [],
+        border: ['grey'],
+      },
+    });
+
+    const bound = (value: string | null) => value === null ? chalk.dim('-') : value;
+
+    for (const file of files) {
+      table.push([
+        file.path.split('/').pop() || file.path,
+        file.partitionKey,
+        file.content === 'data' ? file.content : chalk.magenta(file.content),
+        file.recordCount.toLocaleString(),
+        file.fileSizeBytes < smallFileThreshold ? chalk.yellow(this.formatBytes(file.fileSizeBytes)) : this.formatBytes(file.fileSizeBytes),
+        file.bounds.length
+          ? file.bounds.map(b => `${chalk.dim(b.column)} ${bound(b.lower)} .. ${bound(b.upper)}`).join('\n')
+          : chalk.dim('-'),
+      ]);
+    }
+
+    return table.toString();
+  }
+
+  formatPlan(plan: PlanNode, depth: number = 0): string {
+    const label = plan.warning ? chalk.yellow(plan.label) : depth === 0 ? chalk.cyan.bold(plan.label) : chalk.white(plan.label);
+    const detail = plan.detail ? chalk.dim(` - ${plan.detail}`) : '';
+    return [`${'  '.repeat(depth)}${label}${detail}`, ...plan.children.map(child => this.formatPlan(child, depth + 1))].join('\n');
+  }
+
   tryAutoChart(data: any[]): string | null {
     if (data.length < 2) return null;
 
@@ -1,14 +1,23 @@
 import fetch, { RequestInit } from 'node-fetch';
-import { R2SQLConfig, IcebergNamespace, IcebergTable, TableMetadata } from './types.js';
+import {
+  R2SQLConfig, IcebergNamespace, IcebergTable, TableMetadata, CatalogPage, PageOptions, NamespaceNode, NamespacePropertiesUpdate,
+  CreateTableRequest, TableRequirement, TableUpdate, RefType, RefRetention,
+} from './types.js';
+import { RetryPolicy } from './retry.js';
+import { getRefRows, isAncestorOf, RefRow } from './iceberg-metadata.js';
 import fs from 'fs';
 import path from 'path';
 
+// Child namespaces of one level are listed this many at a time
+const NAMESPACE_CONCURRENCY = 8;
+
 export class IcebergCatalogClient {
   private config: R2SQLConfig;
   private baseUrl: string;
   private prefix: string | null = null;
   private initialized: boolean = false;
   private debugLog: fs.WriteStream | null = null;
+  private retryPolicy = new RetryPolicy();
 
   constructor(config: R2SQLConfig) {
     this.config = config;
@@ -32,29 +41,16 @@ export class IcebergCatalogClient {
 
     try {
       // Call /v1/config to get the prefix
-      const url = new URL(`${this.baseUrl}/v1/config`);
-      url.searchParams.set('warehouse', this.config.warehouse);
-
-      const response = await fetch(url.toString(), {
-        headers: {
-          'Authorization': `Bearer ${this.config.apiToken}`,
-          'Content-Type': 'application/json',
-          'Accept': 'application/json',
-        },
-      });
+      const configResult = await this.getCatalogConfig();
 
-      if (response.ok) {
-        const configResult = await response.json() as any;
+      // Extract prefix from overrides or defaults
+      let prefix = configResult.overrides?.prefix || configResult.defaults?.prefix;
 
-        // Extract prefix from overrides or defaults
-        let prefix = configResult.overrides?.prefix || configResult.defaults?.prefix;
-
-        if (prefix) {
-          // URL decode the prefix and only use it if it doesn't match warehouse
-          this.prefix = decodeURIComponent(prefix);
-          if (this.prefix === this.config.warehouse) {
-            this.prefix = null; // Don't duplicate warehouse in path
-          }
+      if (prefix) {
+        // URL decode the prefix and only use it if it doesn't match warehouse
+        this.prefix = decodeURIComponent(prefix);
+        if (this.prefix === this.config.warehouse) {
+          this.prefix = null; // Don't duplicate warehouse in path
         }
       }
     } catch (error) {
@@ -65,6 +61,33 @@ export class IcebergCatalogClient {
     this.initialized = true;
   }
 
+  /**
+   * The catalog's /v1/config for the warehouse. Throws when the catalog rejects the request, e.g.
+   * when the token lacks Data Catalog access or the catalog isn't enabled on the bucket.
+   */
+  async getCatalogConfig(): Promise<{ defaults?: Record<string, string>; overrides?: Record<string, string> }> {
+    const url = new URL(`${this.baseUrl}/v1/config`);
+    url.searchParams.set('warehouse', this.config.warehouse);
+
+    const { response } = await this.retryPolicy.execute(
+      () => fetch(url.toString(), {
+        headers: {
+          'Authorization': `Bearer ${this.config.apiToken}`,
+          'Content-Type': 'application/json',
+          'Accept': 'application/json',
+        },
+      }),
+      { label: 'GET /v1/config', log: (message) => this.debug(message) }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      this.debug(`Error Response: ${errorText}`);
+      throw new Error(`Iceberg API error: ${response.status} ${errorText}`);
+    }
+    return await response.json() as any;
+  }
+
   private async request(path: string, options?: RequestInit): Promise<any> {
     await this.initialize();
 
@@ -81,20 +104,26 @@ export class IcebergCatalogClient {
     // Build full URL
     const fullUrl = `${this.baseUrl}${finalPath}`;
 
+    const method = (options?.method || 'GET').toUpperCase();
+
     this.debug(`\n=== ICEBERG REQUEST ===`);
     this.debug(`URL: ${fullUrl}`);
-    this.debug(`Method: ${options?.method || 'GET'}`);
+    this.debug(`Method: ${method}`);
 
     try {
-      const response = await fetch(fullUrl, {
-        ...options,
-        headers: {
-          'Authorization': `Bearer ${this.config.apiToken}`,
-          'Content-Type': 'application/json',
-          'Accept': 'application/json',
-          ...options?.headers,
-        },
-      });
+      // Only GETs are idempotent - anything that changes the catalog runs exactly once
+      const { response } = await this.retryPolicy.execute(
+        () => fetch(fullUrl, {
+          ...options,
+          headers: {
+            'Authorization': `Bearer ${this.config.apiToken}`,
+            'Content-Type': 'application/json',
+            'Accept': 'application/json',
+            ...options?.headers,
+          },
+        }),
+        { label: `${method} ${path}`, log: (message) => this.debug(message), idempotent: method === 'GET' }
+      );
 
       this.debug(`Response Status: ${response.status} ${response.statusText}`);
 
@@ -104,7 +133,7 @@ export class IcebergCatalogClient {
         throw new Error(`Iceberg API error: ${response.status} ${errorText}`);
       }
 
-      const result = await response.json();
+      const result = this.parseJson(await response.text());
       this.debug(`Response: ${JSON.stringify(result, null, 2)}`);
       return result;
     } catch (error) {
@@ -113,12 +142,47 @@ export class IcebergCatalogClient {
     }
   }
 
+  /**
+   * Serialize a request body. Snapshot ids are kept as strings internally (see parseJson) but the
+   * catalog expects them as JSON numbers, so numeric "snapshot-id(s)" strings are written unquoted.
+   */
+  private stringifyJson(value: any): string {
+    return JSON.stringify(value)
+      .replace(/"snapshot-id":"(-?\d+)"/g, '"snapshot-id":$1')
+      .replace(/"snapshot-ids":\[([^\]]*)\]/g, (_match, ids: string) => `"snapshot-ids":[${ids.replace(/"(-?\d+)"/g, '$1')}]`);
+  }
+
+  /**
+   * Parse a JSON response, keeping integers beyond Number.MAX_SAFE_INTEGER (like 64-bit
+   * snapshot ids) as strings so they aren't silently rounded
+   */
+  private parseJson(text: string): any {
+    if (!text) return {};
+
+    // Match string literals (left untouched) or long integers outside of strings
+    const quoted = text.replace(/"(?:[^"\\]|\\.)*"|(?<![.\d])-?\d{16,}(?![.\deE])/g, token =>
+      token.startsWith('"') || Number.isSafeInteger(Number(token)) ? token : `"${token}"`
+    );
+    return JSON.parse(quoted);
+  }
+
+  /**
+   * List all namespaces at every level, as dotted names (e.g. 'ns1', 'ns1.ns2')
+   */
   async listNamespaces(): Promise<string[]> {
+    const flatten = (nodes: NamespaceNode[]): string[] =>
+      nodes.flatMap(node => [node.path.join('.'), ...flatten(node.children)]);
+    return flatten(await this.getNamespaceTree());
+  }
+
+  /**
+   * Build the namespace hierarchy, following parent= to discover nested namespaces.
+   * Each level is listed breadth-first so sibling namespaces are fetched in parallel.
+   */
+  async getNamespaceTree(): Promise<NamespaceNode[]> {
+    let roots: NamespaceNode[];
     try {
-      const result = await this.request('/v1/namespaces');
-      // Response format: { namespaces: [["ns1"], ["ns2"], ...] }
-      const namespaces: string[][] = result.namespaces || [];
-      return namespaces.map(ns => ns.join('.'));
+      roots = await this.listNamespaceNodes([]);
     } catch (error) {
       // 404 might mean no namespaces exist yet, which is OK - silently return empty array
       if (error instanceof Error && error.message.includes('404')) {
@@ -129,34 +193,365 @@ export class IcebergCatalogClient {
       this.debug(`Error listing namespaces: ${error instanceof Error ? error.message : String(error)}`);
       return [];
     }
+
+    let level = roots;
+    while (level.length > 0) {
+      const next: NamespaceNode[] = [];
+      for (let i = 0; i < level.length; i += NAMESPACE_CONCURRENCY) {
+        const batch = level.slice(i, i + NAMESPACE_CONCURRENCY);
+        await Promise.all(batch.map(async node => {
+          try {
+            node.children = await this.listNamespaceNodes(node.path);
+          } catch (error) {
+            // Not every catalog supports nested namespaces - treat failures as a leaf
+            this.debug(`Error listing child namespaces of ${node.path.join('.')}: ${error instanceof Error ? error.message : String(error)}`);
+          }
+          next.push(...node.children);
+        }));
+      }
+      level = next;
+    }
+
+    return roots;
+  }
+
+  /**
+   * List the direct children of a namespace, without descending further
+   */
+  private async listNamespaceNodes(parent: string[]): Promise<NamespaceNode[]> {
+    const nodes: NamespaceNode[] = [];
+
+    for await (const path of this.iterateNamespaces(undefined, parent)) {
+      // Some catalogs ignore parent= and return the top level again - only keep direct children
+      const isChild = path.length === parent.length + 1 && parent.every((level, i) => path[i] === level);
+      if (!isChild) continue;
+      nodes.push({ name: path[path.length - 1], path, children: [] });
+    }
+
+    return nodes;
   }
 
   async listTables(namespace: string): Promise<string[]> {
     try {
-      // Use ASCII unit separator (\u001f) for namespace path, then URL encode
-      const namespaceParts = namespace.split('.');
-      const namespacePath = namespaceParts.map(part => encodeURIComponent(part)).join('%1F');
-      const result = await this.request(`/v1/namespaces/${namespacePath}/tables`);
-      const tables: IcebergTable[] = result.identifiers || [];
-      return tables.map(t => t.name);
+      const tables: string[] = [];
+      for await (const table of this.iterateTables(namespace)) {
+        tables.push(table);
+      }
+      return tables;
     } catch (error) {
       this.debug(`Error listing tables in namespace ${namespace}: ${error instanceof Error ? error.message : String(error)}`);
       return [];
     }
   }
 
+  /**
+   * Fetch a single page of namespaces. Throws on API errors.
+   */
+  async listNamespacesPage(options?: PageOptions & { parent?: string[] }): Promise<CatalogPage<string[]>> {
+    // Multi-level parents are joined with the ASCII unit separator (\u001f)
+    const parent = options?.parent?.length ? { parent: options.parent.join('\u001f') } : undefined;
+    const result = await this.request(`/v1/namespaces${this.pageQuery(options, parent)}`);
+    // Response format: { namespaces: [["ns1"], ["ns1", "ns2"], ...], "next-page-token": "..." }
+    return {
+      items: result.namespaces || [],
+      nextPageToken: result['next-page-token'] || undefined,
+    };
+  }
+
+  /**
+   * Fetch a single page of tables in a namespace. Throws on API errors.
+   */
+  async listTablesPage(namespace: string, options?: PageOptions): Promise<CatalogPage<string>> {
+    const result = await this.request(`/v1/namespaces/${this.namespacePath(namespace)}/tables${this.pageQuery(options)}`);
+    const tables: IcebergTable[] = result.identifiers || [];
+    return {
+      items: tables.map(t => t.name),
+      nextPageToken: result['next-page-token'] || undefined,
+    };
+  }
+
+  /**
+   * Iterate over the namespaces under a parent (top level by default), fetching further pages as needed
+   */
+  async *iterateNamespaces(pageSize?: number, parent?: string[]): AsyncGenerator<string[]> {
+    let pageToken: string | undefined;
+    do {
+      const page = await this.listNamespacesPage({ pageToken, pageSize, parent });
+      yield* page.items;
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+  }
+
+  /**
+   * Iterate over all tables in a namespace, fetching further pages as needed
+   */
+  async *iterateTables(namespace: string, pageSize?: number): AsyncGenerator<string> {
+    let pageToken: string | undefined;
+    do {
+      const page = await this.listTablesPage(namespace, { pageToken, pageSize });
+      yield* page.items;
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+  }
+
+  /**
+   * Create a namespace; nested namespaces are given as dotted names (e.g. 'ns1.ns2')
+   */
+  async createNamespace(namespace: string, properties: Record<string, string> = {}): Promise<void> {
+    await this.request('/v1/namespaces', {
+      method: 'POST',
+      body: JSON.stringify({ namespace: namespace.split('.'), properties }),
+    });
+  }
+
+  /**
+   * Drop a namespace. The catalog rejects this if the namespace still contains tables.
+   */
+  async dropNamespace(namespace: string): Promise<void> {
+    await this.request(`/v1/namespaces/${this.namespacePath(namespace)}`, { method: 'DELETE' });
+  }
+
+  async updateNamespaceProperties(
+    namespace: string,
+    updates: Record<string, string>,
+    removals: string[] = []
+  ): Promise<NamespacePropertiesUpdate> {
+    const result = await this.request(`/v1/namespaces/${this.namespacePath(namespace)}/properties`, {
+      method: 'POST',
+      body: JSON.stringify({ updates, removals }),
+    });
+    return {
+      updated: result.updated || [],
+      removed: result.removed || [],
+      missing: result.missing || [],
+    };
+  }
+
+  /**
+   * Create an empty table. Returns the new table's metadata as assigned by the catalog.
+   */
+  async createTable(namespace: string, request: CreateTableRequest): Promise<any> {
+    const result = await this.request(`/v1/namespaces/${this.namespacePath(namespace)}/tables`, {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+    return result.metadata;
+  }
+
+  /**
+   * Drop a table from the catalog. With purge, the catalog also deletes the table's data and metadata files.
+   */
+  async dropTable(namespace: string, tableName: string, purge: boolean = false): Promise<void> {
+    const query = purge ? '?purgeRequested=true' : '';
+    await this.request(`/v1/namespaces/${this.namespacePath(namespace)}/tables/${encodeURIComponent(tableName)}${query}`, {
+      method: 'DELETE',
+    });
+  }
+
+  /**
+   * Rename a table, optionally moving it to another namespace
+   */
+  async renameTable(namespace: string, tableName: string, newNamespace: string, newTableName: string): Promise<void> {
+    const source: IcebergTable = { namespace: namespace.split('.'), name: tableName };
+    const destination: IcebergTable = { namespace: newNamespace.split('.'), name: newTableName };
+    await this.request('/v1/tables/rename', {
+      method: 'POST',
+      body: JSON.stringify({ source, destination }),
+    });
+  }
+
+  /**
+   * Commit updates to a table. The catalog applies them only if every requirement still holds.
+   * Returns the table's new metadata.
+   */
+  async commitTable(namespace: string, tableName: string, requirements: TableRequirement[], updates: TableUpdate[]): Promise<any> {
+    const result = await this.request(`/v1/namespaces/${this.namespacePath(namespace)}/tables/${encodeURIComponent(tableName)}`, {
+      method: 'POST',
+      body: this.stringifyJson({ requirements, updates }),
+    });
+    return result.metadata;
+  }
+
+  /**
+   * Create a branch or tag pointing at a snapshot (the current snapshot by default)
+   */
+  async createRef(
+    namespace: string,
+    tableName: string,
+    name: string,
+    type: RefType,
+    snapshotId?: string,
+    retention: RefRetention = {}
+  ): Promise<void> {
+    const metadata = await this.loadRawMetadata(namespace, tableName);
+    if (metadata.refs?.[name]) {
+      throw new Error(`${namespace}.${tableName} already has a ref named ${name}`);
+    }
+
+    const target = snapshotId ?? (metadata['current-snapshot-id'] !== undefined ? String(metadata['current-snapshot-id']) : undefined);
+    if (!target || !(metadata.snapshots || []).some((snapshot: any) => String(snapshot['snapshot-id']) === target)) {
+      throw new Error(snapshotId ? `Snapshot ${snapshotId} does not exist in ${namespace}.${tableName}` : `${namespace}.${tableName} has no snapshots yet`);
+    }
+
+    await this.commitTable(namespace, tableName,
+      // A null snapshot id asserts that the ref doesn't exist yet
+      [{ type: 'assert-ref-snapshot-id', 'ref': name, 'snapshot-id': null }],
+      [this.setRefUpdate(name, type, target, retention)]
+    );
+  }
+
+  /**
+   * Move a branch forward to a snapshot id or to the head of another ref. Only allowed when the
+   * branch's current snapshot is an ancestor of the target.
+   */
+  async fastForwardBranch(namespace: string, tableName: string, branch: string, target: string): Promise<{ from: string; to: string }> {
+    const metadata = await this.loadRawMetadata(namespace, tableName);
+    const refs = getRefRows(metadata);
+    const ref = this.findRef(refs, branch, namespace, tableName);
+    if (ref.type !== 'branch') {
+      throw new Error(`${branch} is a tag - only branches can be fast-forwarded`);
+    }
+
+    const targetId = refs.find(r => r.name === target)?.snapshotId ?? target;
+    if (!(metadata.snapshots || []).some((snapshot: any) => String(snapshot['snapshot-id']) === targetId)) {
+      throw new Error(`${target} is neither a ref nor a snapshot of ${namespace}.${tableName}`);
+    }
+    if (targetId === ref.snapshotId) {
+      throw new Error(`${branch} is already at snapshot ${targetId}`);
+    }
+    if (!isAncestorOf(metadata, ref.snapshotId, targetId)) {
+      throw new Error(`Cannot fast-forward ${branch}: snapshot ${ref.snapshotId} is not an ancestor of ${targetId}`);
+    }
+
+    const retention: RefRetention = {
+      maxRefAgeMs: ref.maxRefAgeMs ?? undefined,
+      maxSnapshotAgeMs: ref.maxSnapshotAgeMs ?? undefined,
+      minSnapshotsToKeep: ref.minSnapshotsToKeep ?? undefined,
+    };
+    await this.commitTable(namespace, tableName,
+      [{ type: 'assert-ref-snapshot-id', 'ref': branch, 'snapshot-id': ref.snapshotId }],
+      [this.setRefUpdate(branch, 'branch', targetId, retention)]
+    );
+    return { from: ref.snapshotId, to: targetId };
+  }
+
+  /**
+   * Delete a branch or tag. The main branch can't be deleted.
+   */
+  async deleteRef(namespace: string, tableName: string, name: string, type?: RefType): Promise<void> {
+    if (name === 'main') {
+      throw new Error('The main branch cannot be deleted');
+    }
+
+    const metadata = await this.loadRawMetadata(namespace, tableName);
+    const ref = this.findRef(getRefRows(metadata), name, namespace, tableName);
+    if (type && ref.type !== type) {
+      throw new Error(`${name} is a ${ref.type}, not a ${type}`);
+    }
+
+    await this.commitTable(namespace, tableName,
+      [{ type: 'assert-ref-snapshot-id', 'ref': name, 'snapshot-id': ref.snapshotId }],
+      [{ action: 'remove-snapshot-ref', 'ref-name': name }]
+    );
+  }
+
+  /**
+   * Roll main back to an earlier snapshot, keeping main's retention settings. Fails if main has
+   * moved away from expectedCurrentId (e.g. a write landed after the preview).
+   */
+  async rollbackToSnapshot(namespace: string, tableName: string, snapshotId: string, expectedCurrentId: string): Promise<void> {
+    const metadata = await this.loadRawMetadata(namespace, tableName);
+    const main = getRefRows(metadata).find(ref => ref.isMain);
+    const retention: RefRetention = {
+      maxRefAgeMs: main?.maxRefAgeMs ?? undefined,
+      maxSnapshotAgeMs: main?.maxSnapshotAgeMs ?? undefined,
+      minSnapshotsToKeep: main?.minSnapshotsToKeep ?? undefined,
+    };
+
+    await this.commitTable(namespace, tableName,
+      [{ type: 'assert-ref-snapshot-id', 'ref': 'main', 'snapshot-id': expectedCurrentId }],
+      [this.setRefUpdate('main', 'branch', snapshotId, retention)]
+    );
+  }
+
+  /**
+   * Remove snapshots from the table metadata. Fails if main has moved away from expectedCurrentId.
+   */
+  async expireSnapshots(namespace: string, tableName: string, snapshotIds: string[], expectedCurrentId: string | null): Promise<void> {
+    const requirements: TableRequirement[] = expectedCurrentId
+      ? [{ type: 'assert-ref-snapshot-id', 'ref': 'main', 'snapshot-id': expectedCurrentId }]
+      : [];
+    await this.commitTable(namespace, tableName, requirements, [{ action: 'remove-snapshots', 'snapshot-ids': snapshotIds }]);
+  }
+
+  private findRef(refs: RefRow[], name: string, namespace: string, tableName: string): RefRow {
+    const ref = refs.find(r => r.name === name);
+    if (!ref) {
+      throw new Error(`${namespace}.${tableName} has no branch or tag named ${name}`);
+    }
+    return ref;
+  }
+
+  private setRefUpdate(name: string, type: RefType, snapshotId: string, retention: RefRetention): TableUpdate {
+    const update: TableUpdate = { 'action': 'set-snapshot-ref', 'ref-name': name, type, 'snapshot-id': snapshotId };
+    if (retention.maxRefAgeMs !== undefined) update['max-ref-age-ms'] = retention.maxRefAgeMs;
+    if (type === 'branch') {
+      if (retention.maxSnapshotAgeMs !== undefined) update['max-snapshot-age-ms'] = retention.maxSnapshotAgeMs;
+      if (retention.minSnapshotsToKeep !== undefined) update['min-snapshots-to-keep'] = retention.minSnapshotsToKeep;
+    }
+    return update;
+  }
+
+  // Unlike getTableMetadata, errors propagate - used before commits
+  private async loadRawMetadata(namespace: string, tableName: string): Promise<any> {
+    const result = await this.request(`/v1/namespaces/${this.namespacePath(namespace)}/tables/${encodeURIComponent(tableName)}`);
+    if (!result.metadata) {
+      throw new Error(`No metadata returned for ${namespace}.${tableName}`);
+    }
+    return result.metadata;
+  }
+
+  // An empty pageToken on the first request tells the catalog we page; without it, it may return everything at once
+  private pageQuery(options?: PageOptions, extra?: Record<string, string>): string {
+    const params = new URLSearchParams(extra);
+    params.set('pageToken', options?.pageToken || '');
+    if (options?.pageSize) params.set('pageSize', String(options.pageSize));
+    return `?${params.toString()}`;
+  }
+
+  private namespacePath(namespace: string): string {
+    // Use ASCII unit separator (\u001f) for namespace path, then URL encode
+    return namespace.split('.').map(part => encodeURIComponent(part)).join('%1F');
+  }
+
+  /**
+   * Whether the table exists, without downloading its metadata when the catalog supports HEAD
+   */
+  async tableExists(namespace: string, tableName: string): Promise<boolean> {
+    try {
+      await this.request(`/v1/namespaces/${this.namespacePath(namespace)}/tables/${encodeURIComponent(tableName)}`, { method: 'HEAD' });
+      return true;
+    } catch (error) {
+      if (/\b404\b/.test(error instanceof Error ? error.message : String(error))) return false;
+      // HEAD not supported - fall back to loading the table
+      return (await this.getTableMetadata(namespace, tableName)) !== null;
+    }
+  }
+
   async getTableMetadata(namespace: string, tableName: string): Promise<TableMetadata | null> {
     try {
-      // Use ASCII unit separator (\u001f) for namespace path, then URL encode
-      const namespaceParts = namespace.split('.');
-      const namespacePath = namespaceParts.map(part => encodeURIComponent(part)).join('%1F');
-      const result = await this.request(`/v1/namespaces/${namespacePath}/tables/${encodeURIComponent(tableName)}`);
+      const result = await this.request(`/v1/namespaces/${this.namespacePath(namespace)}/tables/${encodeURIComponent(tableName)}`);
+
+      // Prefer the schema matching current-schema-id; schemas[0] is the oldest version
+      const schemas: any[] = result.metadata?.schemas || [];
+      const currentSchema = schemas.find(schema => schema['schema-id'] === result.metadata?.['current-schema-id']);
 
       return {
         name: tableName,
         namespace: namespace.split('.'),
-        schema: result.metadata?.['current-schema'] || result.metadata?.schemas?.[0],
+        schema: result.metadata?.['current-schema'] || currentSchema || schemas[schemas.length - 1] || result.metadata?.schema,
         fullMetadata: result.metadata, // Include the full Iceberg metadata
+        metadataLocation: result['metadata-location'],
       };
     } catch (error) {
       this.debug(`Error getting metadata for table ${namespace}.${tableName}: ${error instanceof Error ? error.message : String(error)}`);
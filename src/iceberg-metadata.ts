@@ -0,0 +1,537 @@
+// Helpers that decode the raw Iceberg table metadata returned by IcebergCatalogClient.getTableMetadata
+
+export interface SnapshotRow {
+  snapshotId: string;
+  parentId: string | null;
+  timestampMs: number;
+  operation: string;
+  addedDataFiles: number | null;
+  deletedDataFiles: number | null;
+  addedRecords: number | null;
+  deletedRecords: number | null;
+  addedFilesSize: number | null;
+  removedFilesSize: number | null;
+  isCurrent: boolean;
+  refs: string[]; // Branches and tags pointing at this snapshot
+}
+
+export type SnapshotSortKey = 'timestamp' | 'snapshot-id' | 'operation' | 'added-records' | 'deleted-records' | 'added-files-size';
+
+export const SNAPSHOT_SORT_KEYS: SnapshotSortKey[] = [
+  'timestamp', 'snapshot-id', 'operation', 'added-records', 'deleted-records', 'added-files-size',
+];
+
+function toNumber(value: any): number | null {
+  if (value === undefined || value === null || value === '') return null;
+  const num = Number(value);
+  return Number.isFinite(num) ? num : null;
+}
+
+// Snapshot ids are 64-bit and can exceed Number.MAX_SAFE_INTEGER, so keep them as strings
+function toId(value: any): string | null {
+  return value === undefined || value === null ? null : String(value);
+}
+
+/**
+ * Extract one row per snapshot, with the summary counters Iceberg writers record
+ */
+export function getSnapshotRows(metadata: any): SnapshotRow[] {
+  const snapshots: any[] = metadata?.snapshots || [];
+  const currentId = toId(metadata?.['current-snapshot-id']);
+
+  const refsBySnapshot = new Map<string, string[]>();
+  for (const [name, ref] of Object.entries<any>(metadata?.refs || {})) {
+    const id = toId(ref?.['snapshot-id']);
+    if (!id) continue;
+    refsBySnapshot.set(id, [...(refsBySnapshot.get(id) || []), name]);
+  }
+
+  return snapshots.map(snapshot => {
+    const summary = snapshot.summary || {};
+    const snapshotId = toId(snapshot['snapshot-id']) || '';
+    return {
+      snapshotId,
+      parentId: toId(snapshot['parent-snapshot-id']),
+      timestampMs: toNumber(snapshot['timestamp-ms']) || 0,
+      operation: summary.operation || 'unknown',
+      addedDataFiles: toNumber(summary['added-data-files']),
+      deletedDataFiles: toNumber(summary['deleted-data-files']),
+      addedRecords: toNumber(summary['added-records']),
+      deletedRecords: toNumber(summary['deleted-records']),
+      addedFilesSize: toNumber(summary['added-files-size']),
+      removedFilesSize: toNumber(summary['removed-files-size']),
+      isCurrent: snapshotId === currentId,
+      refs: refsBySnapshot.get(snapshotId) || [],
+    };
+  });
+}
+
+// Compare 64-bit ids numerically without losing precision
+function compareIds(a: string, b: string): number {
+  try {
+    const ia = BigInt(a);
+    const ib = BigInt(b);
+    return ia < ib ? -1 : ia > ib ? 1 : 0;
+  } catch {
+    return a.localeCompare(b);
+  }
+}
+
+export function sortSnapshotRows(rows: SnapshotRow[], key: SnapshotSortKey, descending: boolean): SnapshotRow[] {
+  const value = (row: SnapshotRow): number | string => {
+    switch (key) {
+      case 'timestamp': return row.timestampMs;
+      case 'snapshot-id': return row.snapshotId;
+      case 'operation': return row.operation;
+      case 'added-records': return row.addedRecords ?? -1;
+      case 'deleted-records': return row.deletedRecords ?? -1;
+      case 'added-files-size': return row.addedFilesSize ?? -1;
+    }
+  };
+
+  const compare = (a: SnapshotRow, b: SnapshotRow): number => {
+    const va = value(a);
+    const vb = value(b);
+    if (key === 'snapshot-id') {
+      return compareIds(va as string, vb as string);
+    }
+    return va < vb ? -1 : va > vb ? 1 : 0;
+  };
+
+  const sorted = [...rows].sort(compare);
+  return descending ? sorted.reverse() : sorted;
+}
+
+export function formatTimestampMs(ms: number): string {
+  return ms ? new Date(ms).toISOString().replace('T', ' ').replace(/\.\d{3}Z$/, 'Z') : '';
+}
+
+export interface PartitionFieldInfo {
+  fieldId: number | null;
+  name: string;
+  sourceId: number;
+  sourceColumn: string;
+  transform: string;
+  expression: string; // Readable form, e.g. day(ts) or bucket[16](id)
+}
+
+export interface PartitionSpecInfo {
+  specId: number;
+  isDefault: boolean;
+  fields: PartitionFieldInfo[];
+}
+
+export interface SortFieldInfo {
+  sourceId: number;
+  sourceColumn: string;
+  transform: string;
+  expression: string;
+  direction: string;
+  nullOrder: string;
+}
+
+export interface SortOrderInfo {
+  orderId: number;
+  isDefault: boolean;
+  fields: SortFieldInfo[];
+}
+
+/**
+ * Map every field id (including nested struct fields) to its dotted column name.
+ * Older schemas are included so specs that reference dropped columns still resolve.
+ */
+export function getColumnNamesById(metadata: any): Map<number, string> {
+  const names = new Map<number, string>();
+  const currentId = metadata?.['current-schema-id'];
+  const schemas: any[] = metadata?.schemas || (metadata?.schema ? [metadata.schema] : []);
+
+  const visit = (fields: any[], prefix: string, overwrite: boolean) => {
+    for (const field of fields || []) {
+      const name = prefix ? `${prefix}.${field.name}` : field.name;
+      if (overwrite || !names.has(field.id)) {
+        names.set(field.id, name);
+      }
+      if (field.type && typeof field.type === 'object' && field.type.type === 'struct') {
+        visit(field.type.fields, name, overwrite);
+      }
+    }
+  };
+
+  // Current schema wins, so renamed columns show their current name
+  for (const schema of schemas) {
+    visit(schema.fields, '', false);
+  }
+  const current = schemas.find(schema => schema['schema-id'] === currentId);
+  if (current) {
+    visit(current.fields, '', true);
+  }
+
+  return names;
+}
+
+/**
+ * Render a transform applied to a column the way it reads in SQL: day(ts), bucket[16](id)
+ */
+export function describeTransform(transform: string, column: string): string {
+  return !transform || transform === 'identity' ? column : `${transform}(${column})`;
+}
+
+export function getPartitionSpecs(metadata: any): PartitionSpecInfo[] {
+  const columns = getColumnNamesById(metadata);
+  const defaultSpecId = metadata?.['default-spec-id'] ?? 0;
+
+  // Format v1 tables may only carry a single unversioned partition-spec
+  const specs: any[] = metadata?.['partition-specs']
+    || (metadata?.['partition-spec'] ? [{ 'spec-id': 0, fields: metadata['partition-spec'] }] : []);
+
+  return specs.map(spec => ({
+    specId: spec['spec-id'],
+    isDefault: spec['spec-id'] === defaultSpecId,
+    fields: (spec.fields || []).map((field: any) => {
+      const sourceColumn = columns.get(field['source-id']) || `<field ${field['source-id']}>`;
+      return {
+        fieldId: field['field-id'] ?? null,
+        name: field.name,
+        sourceId: field['source-id'],
+        sourceColumn,
+        transform: field.transform,
+        expression: describeTransform(field.transform, sourceColumn),
+      };
+    }),
+  }));
+}
+
+export function getSortOrders(metadata: any): SortOrderInfo[] {
+  const columns = getColumnNamesById(metadata);
+  const defaultOrderId = metadata?.['default-sort-order-id'] ?? 0;
+  const orders: any[] = metadata?.['sort-orders'] || [];
+
+  return orders.map(order => ({
+    orderId: order['order-id'],
+    isDefault: order['order-id'] === defaultOrderId,
+    fields: (order.fields || []).map((field: any) => {
+      const sourceColumn = columns.get(field['source-id']) || `<field ${field['source-id']}>`;
+      return {
+        sourceId: field['source-id'],
+        sourceColumn,
+        transform: field.transform,
+        expression: describeTransform(field.transform, sourceColumn),
+        direction: String(field.direction || 'asc').toUpperCase(),
+        nullOrder: String(field['null-order'] || '').replace('-', ' ').toUpperCase(),
+      };
+    }),
+  }));
+}
+
+export type SchemaChangeKind = 'added' | 'dropped' | 'renamed' | 'type-promoted' | 'nullability';
+
+export interface SchemaChange {
+  kind: SchemaChangeKind;
+  fieldId: number;
+  name: string; // Column name in the newer schema (or the dropped name)
+  detail: string;
+}
+
+export interface SchemaVersion {
+  schemaId: number;
+  isCurrent: boolean;
+  fieldCount: number;
+  firstUsedMs: number | null; // Timestamp of the first snapshot written with this schema
+  changes: SchemaChange[]; // Compared to the previous schema version
+}
+
+interface FlatField {
+  name: string;
+  type: string;
+  required: boolean;
+}
+
+export function describeType(type: any): string {
+  if (typeof type === 'string') return type;
+  if (!type || typeof type !== 'object') return String(type);
+  switch (type.type) {
+    case 'list': return `list<${describeType(type.element)}>`;
+    case 'map': return `map<${describeType(type.key)}, ${describeType(type.value)}>`;
+    default: return type.type;
+  }
+}
+
+// Flatten a schema to field id -> field, descending into structs, lists and maps
+function flattenSchema(schema: any): Map<number, FlatField> {
+  const fields = new Map<number, FlatField>();
+
+  const visitType = (type: any, path: string) => {
+    if (!type || typeof type !== 'object') return;
+    if (type.type === 'struct') {
+      visitFields(type.fields, path);
+    } else if (type.type === 'list') {
+      visitType(type.element, `${path}.element`);
+    } else if (type.type === 'map') {
+      visitType(type.key, `${path}.key`);
+      visitType(type.value, `${path}.value`);
+    }
+  };
+
+  const visitFields = (list: any[], prefix: string) => {
+    for (const field of list || []) {
+      const name = prefix ? `${prefix}.${field.name}` : field.name;
+      fields.set(field.id, { name, type: describeType(field.type), required: !!field.required });
+      visitType(field.type, name);
+    }
+  };
+
+  visitFields(schema?.fields, '');
+  return fields;
+}
+
+export interface SchemaColumn {
+  name: string; // Dotted path for struct fields, e.g. address.city
+  type: string;
+  required: boolean;
+}
+
+/**
+ * Columns a query can reference - top-level fields and dotted paths into structs - keyed by lowercased name
+ */
+export function getSchemaColumns(schema: any): Map<string, SchemaColumn> {
+  const columns = new Map<string, SchemaColumn>();
+
+  const visitFields = (list: any[], prefix: string) => {
+    for (const field of list || []) {
+      const name = prefix ? `${prefix}.${field.name}` : field.name;
+      columns.set(name.toLowerCase(), { name, type: describeType(field.type), required: !!field.required });
+      if (field.type?.type === 'struct') visitFields(field.type.fields, name);
+    }
+  };
+
+  visitFields(schema?.fields, '');
+  return columns;
+}
+
+/**
+ * The schema matching current-schema-id; schemas[0] is the oldest version
+ */
+export function getCurrentSchema(metadata: any): any {
+  const schemas: any[] = metadata?.schemas || [];
+  return schemas.find(schema => schema['schema-id'] === metadata?.['current-schema-id']) ?? schemas[schemas.length - 1];
+}
+
+/**
+ * Field-level diff between two schema versions, matched by field id
+ */
+export function diffSchemas(before: any, after: any): SchemaChange[] {
+  const oldFields = flattenSchema(before);
+  const newFields = flattenSchema(after);
+  const changes: SchemaChange[] = [];
+
+  for (const [fieldId, field] of newFields) {
+    const previous = oldFields.get(fieldId);
+    if (!previous) {
+      changes.push({ kind: 'added', fieldId, name: field.name, detail: `${field.type}${field.required ? ' NOT NULL' : ''}` });
+      continue;
+    }
+    if (previous.name !== field.name) {
+      changes.push({ kind: 'renamed', fieldId, name: field.name, detail: `${previous.name} → ${field.name}` });
+    }
+    if (previous.type !== field.type) {
+      changes.push({ kind: 'type-promoted', fieldId, name: field.name, detail: `${previous.type} → ${field.type}` });
+    }
+    if (previous.required !== field.required) {
+      const nullability = (required: boolean) => required ? 'NOT NULL' : 'NULL';
+      changes.push({ kind: 'nullability', fieldId, name: field.name, detail: `${nullability(previous.required)} → ${nullability(field.required)}` });
+    }
+  }
+
+  for (const [fieldId, field] of oldFields) {
+    if (!newFields.has(fieldId)) {
+      changes.push({ kind: 'dropped', fieldId, name: field.name, detail: field.type });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Every schema version in id order, each with its diff against the version before it
+ */
+export function getSchemaHistory(metadata: any): SchemaVersion[] {
+  const schemas: any[] = [...(metadata?.schemas || (metadata?.schema ? [metadata.schema] : []))]
+    .sort((a, b) => (a['schema-id'] ?? 0) - (b['schema-id'] ?? 0));
+  const currentId = metadata?.['current-schema-id'] ?? schemas[schemas.length - 1]?.['schema-id'];
+
+  // Snapshots record the schema they were written with
+  const firstUsed = new Map<number, number>();
+  for (const snapshot of metadata?.snapshots || []) {
+    const schemaId = snapshot['schema-id'];
+    const timestamp = toNumber(snapshot['timestamp-ms']);
+    if (schemaId === undefined || timestamp === null) continue;
+    if (!firstUsed.has(schemaId) || timestamp < firstUsed.get(schemaId)!) {
+      firstUsed.set(schemaId, timestamp);
+    }
+  }
+
+  return schemas.map((schema, i) => ({
+    schemaId: schema['schema-id'] ?? 0,
+    isCurrent: (schema['schema-id'] ?? 0) === currentId,
+    fieldCount: flattenSchema(schema).size,
+    firstUsedMs: firstUsed.get(schema['schema-id']) ?? null,
+    changes: i === 0 ? [] : diffSchemas(schemas[i - 1], schema),
+  }));
+}
+
+export interface TableDetails {
+  location: string | null;
+  formatVersion: number | null;
+  tableUuid: string | null;
+  lastUpdatedMs: number | null;
+  properties: Record<string, string>;
+  currentSnapshotId: string | null;
+  totalRecords: number | null;
+  totalDataFiles: number | null;
+  totalFilesSize: number | null;
+  totalDeleteFiles: number | null;
+}
+
+/**
+ * Table-level facts for DESCRIBE EXTENDED; totals come from the current snapshot's summary
+ */
+export function getTableDetails(metadata: any): TableDetails {
+  const currentSnapshotId = toId(metadata?.['current-snapshot-id']);
+  const current = (metadata?.snapshots || []).find((snapshot: any) => toId(snapshot['snapshot-id']) === currentSnapshotId);
+  const summary = current?.summary || {};
+
+  return {
+    location: metadata?.location || null,
+    formatVersion: toNumber(metadata?.['format-version']),
+    tableUuid: metadata?.['table-uuid'] || null,
+    lastUpdatedMs: toNumber(metadata?.['last-updated-ms']),
+    properties: metadata?.properties || {},
+    // -1 is how v1 writers spell "no snapshot"
+    currentSnapshotId: current ? currentSnapshotId : null,
+    totalRecords: toNumber(summary['total-records']),
+    totalDataFiles: toNumber(summary['total-data-files']),
+    totalFilesSize: toNumber(summary['total-files-size']),
+    totalDeleteFiles: toNumber(summary['total-delete-files']),
+  };
+}
+
+export interface TableDetailSection {
+  title: string;
+  labelWidth: number;
+  rows: Array<{ label: string; value: string | null }>; // null when the metadata doesn't say
+}
+
+/**
+ * DESCRIBE EXTENDED's sections as plain text, for the REPL and the TUI to render in their own markup
+ */
+export function getTableDetailSections(details: TableDetails): TableDetailSection[] {
+  const count = (value: number | null) => value === null ? null : value.toLocaleString();
+  return [
+    {
+      title: 'Table Details',
+      labelWidth: 20,
+      rows: [
+        { label: 'Location', value: details.location },
+        { label: 'Format Version', value: count(details.formatVersion) },
+        { label: 'Table UUID', value: details.tableUuid },
+        { label: 'Last Updated', value: details.lastUpdatedMs !== null ? formatTimestampMs(details.lastUpdatedMs) : null },
+        { label: 'Current Snapshot', value: details.currentSnapshotId ?? '(none)' },
+      ],
+    },
+    {
+      title: 'Current Snapshot Totals',
+      labelWidth: 20,
+      rows: [
+        { label: 'Records', value: count(details.totalRecords) },
+        { label: 'Data Files', value: count(details.totalDataFiles) },
+        { label: 'Files Size', value: details.totalFilesSize !== null ? formatBytes(details.totalFilesSize) : null },
+        { label: 'Delete Files', value: count(details.totalDeleteFiles) },
+      ],
+    },
+    {
+      title: 'Properties',
+      labelWidth: 45,
+      rows: Object.entries(details.properties)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([label, value]) => ({ label, value })),
+    },
+  ];
+}
+
+export interface RefRow {
+  name: string;
+  type: 'branch' | 'tag';
+  snapshotId: string;
+  snapshotTimestampMs: number | null;
+  isMain: boolean;
+  maxRefAgeMs: number | null;
+  maxSnapshotAgeMs: number | null;
+  minSnapshotsToKeep: number | null;
+}
+
+/**
+ * Branches and tags, main first, then other branches, then tags
+ */
+export function getRefRows(metadata: any): RefRow[] {
+  const timestamps = new Map<string, number>();
+  for (const snapshot of metadata?.snapshots || []) {
+    timestamps.set(toId(snapshot['snapshot-id']) || '', toNumber(snapshot['timestamp-ms']) || 0);
+  }
+
+  const rows: RefRow[] = Object.entries<any>(metadata?.refs || {}).map(([name, ref]) => {
+    const snapshotId = toId(ref['snapshot-id']) || '';
+    return {
+      name,
+      type: ref.type === 'tag' ? 'tag' : 'branch',
+      snapshotId,
+      snapshotTimestampMs: timestamps.get(snapshotId) ?? null,
+      isMain: name === 'main',
+      maxRefAgeMs: toNumber(ref['max-ref-age-ms']),
+      maxSnapshotAgeMs: toNumber(ref['max-snapshot-age-ms']),
+      minSnapshotsToKeep: toNumber(ref['min-snapshots-to-keep']),
+    };
+  });
+
+  const rank = (row: RefRow) => row.isMain ? 0 : row.type === 'branch' ? 1 : 2;
+  return rows.sort((a, b) => rank(a) - rank(b) || a.name.localeCompare(b.name));
+}
+
+/**
+ * Whether ancestorId is snapshotId itself or one of its parents
+ */
+export function isAncestorOf(metadata: any, ancestorId: string, snapshotId: string): boolean {
+  const parents = new Map<string, string | null>();
+  for (const snapshot of metadata?.snapshots || []) {
+    parents.set(toId(snapshot['snapshot-id']) || '', toId(snapshot['parent-snapshot-id']));
+  }
+
+  let current: string | null = snapshotId;
+  const seen = new Set<string>();
+  while (current && !seen.has(current)) {
+    if (current === ancestorId) return true;
+    seen.add(current);
+    current = parents.get(current) ?? null;
+  }
+  return false;
+}
+
+/**
+ * Human-readable size in KB, MB or GB
+ */
+export function formatBytes(bytes: number): string {
+  const kb = bytes / 1024;
+  const mb = kb / 1024;
+  const gb = mb / 1024;
+  return gb >= 1 ? `${gb.toFixed(2)} GB` : mb >= 1 ? `${mb.toFixed(2)} MB` : `${kb.toFixed(2)} KB`;
+}
+
+/**
+ * Human-readable duration for retention settings, e.g. 7d, 12h, 30m
+ */
+export function formatDurationMs(ms: number): string {
+  const units: [string, number][] = [['d', 86_400_000], ['h', 3_600_000], ['m', 60_000], ['s', 1000]];
+  for (const [unit, size] of units) {
+    if (ms >= size && ms % size === 0) return `${ms / size}${unit}`;
+  }
+  return `${ms}ms`;
+}
@@ -1,22 +1,90 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
+import { Command, InvalidArgumentError } from 'commander';
 import { loadConfig, promptForConfig } from './config.js';
 import { R2SQLREPL } from './repl.js';
 import { R2SQLTUI } from './tui.js';
 import { AuthService } from './auth-service.js';
+import { R2SQLClient } from './r2sql-client.js';
+import { IcebergCatalogClient } from './iceberg-client.js';
+import { BucketSession, BucketClients } from './bucket-session.js';
+import { Diagnostics } from './diagnostics.js';
+import { ScriptRunner } from './script-runner.js';
+import { ResultFormatter, OUTPUT_FORMATS } from './formatter.js';
+import { OutputFormat, R2SQLConfig } from './types.js';
 import chalk from 'chalk';
 
 const program = new Command();
 
+/**
+ * Check the token and its permissions for the configuration the options resolve to, and print the
+ * report. Returns false if any check failed.
+ */
+async function runDiagnostics(options: { accountId?: string; bucket?: string; token?: string; profile?: string; debug?: boolean }): Promise<boolean> {
+  const config = await loadConfig({
+    accountId: options.accountId,
+    bucketName: options.bucket,
+    apiToken: options.token,
+    debugEnabled: options.debug,
+    profile: options.profile,
+  });
+  const tokenSource = options.token ? 'manual' : (await AuthService.getAuthToken(options.profile))?.source;
+
+  console.log(chalk.white.bold(`\nChecking account ${config.accountId}, bucket ${config.bucketName}`) +
+    (tokenSource ? chalk.dim(` (token from ${tokenSource})`) : '') + '\n');
+  const checks = await new Diagnostics(config, tokenSource).run();
+  console.log(new ResultFormatter().formatDiagnostics(checks));
+  return checks.every(check => check.status !== 'failed');
+}
+
+// SQL and catalog clients for each bucket in the configuration
+function openBuckets(config: R2SQLConfig): BucketSession<BucketClients> {
+  return new BucketSession(config, bucketConfig => ({
+    config: bucketConfig,
+    sqlClient: new R2SQLClient(bucketConfig),
+    catalogClient: new IcebergCatalogClient(bucketConfig),
+  }));
+}
+
+// Only qualified names can be looked up without listing namespaces; others run in the default bucket
+async function resolveQualifiedName(name: string): Promise<{ namespace: string; table: string } | null> {
+  const lastDot = name.lastIndexOf('.');
+  return lastDot > 0 ? { namespace: name.substring(0, lastDot), table: name.substring(lastDot + 1) } : null;
+}
+
+function parseTimeout(value: string): number {
+  const seconds = Number(value);
+  if (!Number.isFinite(seconds) || seconds <= 0) {
+    throw new InvalidArgumentError('Timeout must be a positive number of seconds.');
+  }
+  return seconds;
+}
+
+// Accepts plain bytes or a size with a unit: 500MB, 10GB, 1.5TB
+function parseByteSize(value: string): number {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(b|kb|mb|gb|tb)?$/i);
+  if (!match) {
+    throw new InvalidArgumentError('Size must be a number of bytes or use a unit, e.g. 500MB or 10GB.');
+  }
+  const units: Record<string, number> = { b: 1, kb: 1024, mb: 1024 ** 2, gb: 1024 ** 3, tb: 1024 ** 4 };
+  return Math.round(Number(match[1]) * units[(match[2] || 'b').toLowerCase()]);
+}
+
 program
   .name('r2sql-shell')
   .description('Interactive shell for querying R2 Data Catalog with R2 SQL')
   .version('1.1.0')
   .option('--account-id <id>', 'Cloudflare Account ID')
-  .option('--bucket <name>', 'R2 Bucket Name')
+  .option('--bucket <name>', 'R2 Bucket Name (comma-separated to attach several; the first is the default)')
   .option('--token <token>', 'Cloudflare API Token')
+  .option('--profile <name>', 'Use the credentials stored under this profile')
   .option('-e, --execute <query>', 'Execute a SQL query on startup')
+  .option('--file <path>', 'Execute the statements in a SQL script file and exit')
+  .option('--continue-on-error', 'With --file, keep running statements after one fails')
+  .option('--stop-on-error', 'With --file, stop at the first failing statement (default)')
+  .option('--timeout <seconds>', 'Cancel queries that run longer than this many seconds', parseTimeout)
+  .option('--max-estimated-bytes <size>', 'Ask before running queries estimated to scan more than this (e.g. 10GB)', parseByteSize)
+  .option('--no-validate', 'Send queries to R2 SQL without checking syntax, tables and columns first')
   .option('--history [enabled]', 'Save query history to r2sql-history.txt', false)
   .option('--debug', 'Enable debug logging to r2sql-debug.log', false)
   .option('--tui', 'Use TUI mode (default)', true)
@@ -29,9 +97,21 @@ Examples:
   $ r2sql-shell login --no-start
     Set up authentication without starting the shell
 
+  $ r2sql-shell login --profile prod
+    Store credentials under the "prod" profile
+
   $ r2sql-shell status
     Check authentication status
 
+  $ r2sql-shell profiles
+    List stored profiles
+
+  $ r2sql-shell profiles use prod
+    Use the "prod" profile when --profile isn't given
+
+  $ r2sql-shell --profile staging
+    Start the shell with the "staging" profile
+
   $ r2sql-shell
     Start the shell (will use stored credentials)
 
@@ -41,9 +121,18 @@ Examples:
   $ r2sql-shell --account-id abc123 --bucket my-bucket --token xyz789
     Start with all credentials from command line
 
+  $ r2sql-shell --bucket logs,archive
+    Attach two buckets; queries go to the bucket that has the table
+
   $ r2sql-shell -e "SELECT * FROM default.logs LIMIT 10"
     Execute a query on startup
 
+  $ r2sql-shell query "SELECT * FROM default.logs LIMIT 10" --format csv
+    Run a query without the shell and print the results to stdout
+
+  $ r2sql-shell --file investigations.sql --continue-on-error
+    Run every statement in a SQL script and print a per-statement summary
+
   $ r2sql-shell --history
     Enable query history logging to r2sql-history.txt
 
@@ -53,12 +142,15 @@ Examples:
   $ r2sql-shell --simple
     Use simple REPL mode instead of TUI
 
+  $ r2sql-shell doctor
+    Check the token and which of its required permissions are missing
+
   $ r2sql-shell logout
     Remove stored authentication credentials
 
 Authentication Priority:
-  1. Wrangler credentials (~/.wrangler/config/default.toml)
-  2. r2sql-shell OAuth tokens (~/.r2sql-shell/config.json)
+  1. r2sql-shell stored tokens (~/.r2sql-shell/config.json)
+  2. Wrangler login (~/.wrangler/config/default.toml), refreshed when expired
   3. CLOUDFLARE_API_TOKEN environment variable
   4. .env file configuration
   5. Command-line arguments (--token)
@@ -76,11 +168,17 @@ For more information, visit: https://github.com/marcinthecloud/r2sql-shell
 // Login command
 program
   .command('login')
-  .description('Set up authentication and start the shell')
+  .description('Set up authentication and start the shell (--timeout is stored with the profile)')
   .option('--no-start', 'Don\'t automatically start the shell after login')
-  .action(async (options) => {
+  .action(async (_options, command) => {
+    const options = command.optsWithGlobals();
     try {
-      await AuthService.login();
+      await AuthService.login(options.profile, options.timeout);
+
+      // Show which permissions the new token is missing before anything fails on them
+      if (!await runDiagnostics({ profile: options.profile })) {
+        console.log(chalk.dim('\nRun ') + chalk.white('r2sql-shell doctor') + chalk.dim(' again after fixing the token.'));
+      }
 
       // Automatically start the shell unless --no-start is specified
       if (options.start !== false) {
@@ -101,7 +199,7 @@ program
         console.log(chalk.blue('\n🚀 Starting r2sql-shell...\n'));
 
         // Load config and start TUI
-        const config = await loadConfig();
+        const config = await loadConfig({ profile: options.profile });
         const tui = new R2SQLTUI(config, {
           historyEnabled: false,
         });
@@ -120,10 +218,14 @@ program
 // Logout command
 program
   .command('logout')
-  .description('Remove stored credentials and configuration (token, account ID, bucket)')
-  .action(async () => {
+  .description('Remove stored credentials and configuration (token, account ID, bucket) for the current or given profile')
+  .action(async (_options, command) => {
     try {
-      await AuthService.logout();
+      const { profile } = command.optsWithGlobals();
+      if (profile && !AuthService.hasProfile(profile)) {
+        throw new Error(`Unknown profile '${profile}'`);
+      }
+      await AuthService.logout(profile);
       process.exit(0);
     } catch (error) {
       console.error(chalk.red.bold('✗ Logout failed:'), error instanceof Error ? error.message : String(error));
@@ -135,13 +237,22 @@ program
 program
   .command('status')
   .description('Check authentication status')
-  .action(async () => {
+  .option('--verify', 'Also check the token and its Data Catalog, Object Storage and R2 SQL permissions')
+  .action(async (_options, command) => {
     try {
-      const status = await AuthService.getAuthStatus();
+      const options = command.optsWithGlobals();
+      const { profile } = options;
+      if (profile && !AuthService.hasProfile(profile)) {
+        throw new Error(`Unknown profile '${profile}'`);
+      }
+      const status = await AuthService.getAuthStatus(profile);
       if (status.authenticated) {
         console.log(chalk.green.bold('✓ Authenticated'));
+        console.log(chalk.dim(`  Profile: ${status.profile}`));
         console.log(chalk.dim(`  Token source: ${status.source}`));
-        if (status.configPath) {
+        if (status.tokenStore) {
+          console.log(chalk.dim(`  Token stored in: ${status.tokenStore}`));
+        } else if (status.configPath) {
           console.log(chalk.dim(`  Token location: ${status.configPath}`));
         }
 
@@ -165,9 +276,84 @@ program
         console.log(chalk.yellow.bold('⚠ Not authenticated'));
         console.log(chalk.dim('\n  To authenticate, you have several options:'));
         console.log(chalk.white('  1. Run: r2sql-shell login') + chalk.dim(' (recommended - sets up everything)'));
-        console.log(chalk.white('  2. Set CLOUDFLARE_API_TOKEN') + chalk.dim(' environment variable'));
-        console.log(chalk.white('  3. Create a .env file') + chalk.dim(' with CLOUDFLARE_API_TOKEN'));
-        console.log(chalk.white('  4. Pass --token') + chalk.dim(' as a command-line argument\n'));
+        console.log(chalk.white('  2. Run: wrangler login') + chalk.dim(' (the shell reads wrangler\'s OAuth token)'));
+        console.log(chalk.white('  3. Set CLOUDFLARE_API_TOKEN') + chalk.dim(' environment variable'));
+        console.log(chalk.white('  4. Create a .env file') + chalk.dim(' with CLOUDFLARE_API_TOKEN'));
+        console.log(chalk.white('  5. Pass --token') + chalk.dim(' as a command-line argument\n'));
+      }
+
+      if (options.verify) {
+        process.exit(status.authenticated && await runDiagnostics(options) ? 0 : 1);
+      }
+      process.exit(0);
+    } catch (error) {
+      console.error(chalk.red.bold('✗ Error:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+// Doctor command - token and permission checks for the effective configuration
+program
+  .command('doctor')
+  .description('Check the API token and whether it has the Data Catalog, Object Storage and R2 SQL Read permissions')
+  .action(async (_options, command) => {
+    try {
+      process.exit(await runDiagnostics(command.optsWithGlobals()) ? 0 : 1);
+    } catch (error) {
+      console.error(chalk.red.bold('✗ Error:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+// Profiles command - manage named sets of stored credentials
+const profiles = program
+  .command('profiles')
+  .description('List, switch between and remove stored credential profiles');
+
+profiles
+  .command('list', { isDefault: true })
+  .description('List stored profiles')
+  .action(() => {
+    const stored = AuthService.listProfiles();
+    if (stored.length === 0) {
+      console.log(chalk.yellow('No stored profiles'));
+      console.log(chalk.dim('  Run ') + chalk.white('r2sql-shell login --profile <name>') + chalk.dim(' to create one'));
+      process.exit(0);
+    }
+
+    for (const profile of stored) {
+      const marker = profile.current ? chalk.green('* ') : '  ';
+      const name = profile.current ? chalk.green.bold(profile.name) : chalk.white(profile.name);
+      const details = [profile.accountId, profile.bucketName].filter(Boolean).join(' / ');
+      console.log(`${marker}${name}${details ? chalk.dim(`  ${details}`) : ''}`);
+    }
+    process.exit(0);
+  });
+
+profiles
+  .command('use <name>')
+  .description('Use this profile when --profile isn\'t given')
+  .action((name: string) => {
+    try {
+      AuthService.useProfile(name);
+      console.log(chalk.green(`✓ Now using profile ${name}`));
+      process.exit(0);
+    } catch (error) {
+      console.error(chalk.red.bold('✗ Error:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+profiles
+  .command('remove <name>')
+  .description('Delete a stored profile and its API token')
+  .action(async (name: string) => {
+    try {
+      await AuthService.removeProfile(name);
+      console.log(chalk.green(`✓ Removed profile ${name}`));
+      const remaining = AuthService.listProfiles().find(profile => profile.current);
+      if (remaining) {
+        console.log(chalk.dim('  Current profile: ') + chalk.white(remaining.name));
       }
       process.exit(0);
     } catch (error) {
@@ -176,10 +362,75 @@ program
     }
   });
 
+// Query command - non-interactive, for scripts and pipelines
+program
+  .command('query <sql>')
+  .description('Execute a single query and print the results to stdout')
+  .option('-f, --format <format>', `Output format (${OUTPUT_FORMATS.join(', ')})`, 'table')
+  .action(async (sql: string, _options, command) => {
+    // Root options like --account-id and --token are shared with this command
+    const options = command.optsWithGlobals();
+    const outputFormat = String(options.format).toLowerCase() as OutputFormat;
+
+    if (!OUTPUT_FORMATS.includes(outputFormat)) {
+      console.error(`Error: Unknown format '${options.format}'. Expected one of: ${OUTPUT_FORMATS.join(', ')}`);
+      process.exit(2);
+    }
+
+    try {
+      const config = await loadConfig({
+        accountId: options.accountId,
+        bucketName: options.bucket,
+        apiToken: options.token,
+        debugEnabled: options.debug,
+        queryTimeout: options.timeout,
+        profile: options.profile,
+      });
+
+      // With several buckets, run the query in the one that has its table
+      const { sqlClient } = await openBuckets(config).route(sql, resolveQualifiedName);
+      const result = await sqlClient.executeQuery(sql);
+
+      if (result.error) {
+        console.error(`Error: ${result.error}`);
+        process.exit(1);
+      }
+
+      const output = new ResultFormatter().formatOutput(result.data, outputFormat);
+      // Exit only once stdout has flushed so piped output isn't truncated
+      process.stdout.write(output ? output + '\n' : '', () => process.exit(0));
+    } catch (error) {
+      console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+  });
+
 // Default action for starting the shell
 program
   .action(async (options) => {
     try {
+      if (options.file) {
+        if (options.continueOnError && options.stopOnError) {
+          throw new Error('--continue-on-error and --stop-on-error cannot be used together');
+        }
+
+        const config = await loadConfig({
+          accountId: options.accountId,
+          bucketName: options.bucket,
+          apiToken: options.token,
+          debugEnabled: options.debug,
+          queryTimeout: options.timeout,
+          profile: options.profile,
+        });
+
+        // Each statement runs in the bucket that has its table
+        const buckets = openBuckets(config);
+        const runner = new ScriptRunner(async sql => (await buckets.route(sql, resolveQualifiedName)).sqlClient);
+        const results = await runner.runFile(options.file, options.continueOnError ? 'continue' : 'stop');
+        const failed = results.some(entry => entry.result?.error);
+        process.exit(failed ? 1 : 0);
+      }
+
       let config;
 
       // Try to load config from args/env
@@ -189,12 +440,14 @@ program
           bucketName: options.bucket,
           apiToken: options.token,
           debugEnabled: options.debug,
+          queryTimeout: options.timeout,
+          profile: options.profile,
         });
       } catch (error) {
         // If config is missing and no args provided, prompt interactively
-        if (!options.accountId && !options.bucket && !options.token) {
+        if (!options.accountId && !options.bucket && !options.token && !options.profile) {
           console.log(chalk.yellow('No configuration found. Let\'s get started!\n'));
-          config = await promptForConfig(options.debug);
+          config = await promptForConfig(options.debug, options.timeout);
           // Give the terminal a moment to fully reset after inquirer
           await new Promise(resolve => setTimeout(resolve, 100));
         } else {
@@ -206,12 +459,15 @@ program
       const historyEnabled = options.history !== false && options.history !== 'false' && options.history !== undefined;
 
       if (options.simple) {
-        const repl = new R2SQLREPL(config);
+        const repl = new R2SQLREPL(config, { validate: options.validate });
         await repl.start();
       } else {
         const tui = new R2SQLTUI(config, {
           executeOnStart: options.execute,
           historyEnabled,
+          maxEstimatedBytes: options.maxEstimatedBytes,
+          validate: options.validate,
+          queryTimeout: options.timeout,
         });
         await tui.start();
       }
@@ -0,0 +1,242 @@
+import { R2SQLClient } from './r2sql-client.js';
+import { IcebergCatalogClient } from './iceberg-client.js';
+import { DataFileExplorer } from './data-files.js';
+import { parseSelect, findUnsupportedFeatures, resolveColumnReference, SelectStatement } from './sql-parser.js';
+import { parseWherePredicate, estimateScan, Predicate } from './cost-estimator.js';
+import { getPartitionSpecs, getTableDetails, getSchemaColumns, getCurrentSchema, formatBytes } from './iceberg-metadata.js';
+
+// EXPLAIN: R2 SQL's own plan when it returns one, plus a client-side plan built from the query and
+// the table's catalog metadata
+
+export interface PlanNode {
+  label: string;
+  detail?: string;
+  warning?: boolean; // Something R2 SQL won't run, or that will scan more than expected
+  children: PlanNode[];
+}
+
+const OPERATOR_TEXT: Record<string, string> = { '=': '=', '!=': '!=', '<': '<', '<=': '<=', '>': '>', '>=': '>=' };
+
+function node(label: string, detail?: string, children: PlanNode[] = [], warning?: boolean): PlanNode {
+  return warning ? { label, detail, children, warning } : { label, detail, children };
+}
+
+function quoteValue(value: string): string {
+  return /^-?\d+(\.\d+)?$/.test(value) || /^(true|false)$/i.test(value) ? value : `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Render a parsed predicate back to SQL
+ */
+export function describePredicate(predicate: Predicate): string {
+  switch (predicate.kind) {
+    case 'compare': return `${predicate.column} ${OPERATOR_TEXT[predicate.op]} ${quoteValue(predicate.value)}`;
+    case 'between': return `${predicate.column} BETWEEN ${quoteValue(predicate.low)} AND ${quoteValue(predicate.high)}`;
+    case 'in': return `${predicate.column} IN (${predicate.values.map(quoteValue).join(', ')})`;
+    case 'and':
+    case 'or':
+      return predicate.children
+        .map(child => child.kind === 'and' || child.kind === 'or' ? `(${describePredicate(child)})` : describePredicate(child))
+        .join(` ${predicate.kind.toUpperCase()} `);
+    case 'unknown': return predicate.text;
+  }
+}
+
+// Columns a predicate filters on; null when it contains something that isn't a plain column test
+function predicateColumns(predicate: Predicate): string[] | null {
+  switch (predicate.kind) {
+    case 'unknown': return null;
+    case 'and':
+    case 'or': {
+      const columns = predicate.children.map(predicateColumns);
+      return columns.some(list => list === null) ? null : columns.flat() as string[];
+    }
+    default: return [predicate.column];
+  }
+}
+
+/**
+ * Build the client-side plan for a parsed SELECT. Operators nest like an execution plan:
+ * the root runs last (Limit), the leaf reads data (Scan).
+ */
+export function buildQueryPlan(
+  statement: SelectStatement,
+  sql: string,
+  metadata: any,
+  tableName: string,
+  scan?: { files: number; bytes: number; totalFiles: number; totalBytes: number }
+): PlanNode {
+  const columns = getSchemaColumns(getCurrentSchema(metadata));
+  const details = getTableDetails(metadata);
+
+  // Partition source column -> partition expressions, e.g. ts -> day(ts)
+  const partitionColumns = new Map<string, string[]>();
+  for (const spec of getPartitionSpecs(metadata).filter(spec => spec.isDefault)) {
+    for (const field of spec.fields) {
+      const key = field.sourceColumn.toLowerCase();
+      partitionColumns.set(key, [...(partitionColumns.get(key) || []), field.expression]);
+    }
+  }
+
+  // Scan, with the scan estimate when manifests could be read
+  const scanChildren: PlanNode[] = [];
+  if (scan) {
+    const share = scan.totalBytes > 0 ? ` (${(scan.bytes / scan.totalBytes * 100).toFixed(1)}%)` : '';
+    scanChildren.push(node('Estimated scan', `${scan.files} of ${scan.totalFiles} files, ${formatBytes(scan.bytes)} of ${formatBytes(scan.totalBytes)}${share}`,
+      [], scan.totalFiles > 1 && scan.files === scan.totalFiles));
+  } else {
+    scanChildren.push(node('Estimated scan', 'file statistics unavailable'));
+  }
+  const partitioning = [...partitionColumns.values()].flat();
+  scanChildren.push(node('Partitioned by', partitioning.length ? partitioning.join(', ') : 'unpartitioned'));
+  let plan = node(`Scan ${tableName}`,
+    `snapshot ${details.currentSnapshotId ?? '(none)'}` +
+    (details.totalDataFiles !== null ? `, ${details.totalDataFiles} files` : '') +
+    (details.totalFilesSize !== null ? `, ${formatBytes(details.totalFilesSize)}` : ''),
+    scanChildren);
+
+  // Filter: top-level AND terms that prune partitions vs. those evaluated row by row
+  if (statement.where) {
+    const predicate = parseWherePredicate(statement.where);
+    const terms = predicate.kind === 'and' ? predicate.children : [predicate];
+    const prunable: PlanNode[] = [];
+    const residual: PlanNode[] = [];
+
+    for (const term of terms) {
+      const termColumns = predicateColumns(term);
+      const resolved = termColumns?.map(column => resolveColumnReference(columns, column));
+      const text = describePredicate(term);
+
+      if (resolved?.some(column => column === null)) {
+        residual.push(node(text, `unknown column ${termColumns![resolved.indexOf(null)]}`, [], true));
+      } else if (resolved && resolved.every(column => partitionColumns.has(column!))) {
+        const via = [...new Set(resolved.flatMap(column => partitionColumns.get(column!)!))].join(', ');
+        prunable.push(node(text, `prunes partitions via ${via}`));
+      } else if (resolved) {
+        residual.push(node(text, 'per row; column min/max statistics can skip files'));
+      } else {
+        residual.push(node(text, 'per row'));
+      }
+    }
+
+    plan = node('Filter', statement.where, [
+      node('Partition-prunable', prunable.length ? undefined : 'none - every partition is read', prunable, prunable.length === 0),
+      node('Residual', residual.length ? undefined : 'none', residual),
+      plan,
+    ]);
+  } else {
+    plan = node('Filter', 'none - every file is read', [plan], true);
+  }
+
+  // Projection with column types
+  const projected: PlanNode[] = [];
+  for (const item of statement.columns) {
+    if (item.expression === '*' || item.expression.endsWith('.*')) {
+      for (const column of columns.values()) {
+        if (!column.name.includes('.')) projected.push(node(column.name, column.type));
+      }
+      continue;
+    }
+    const column = resolveColumnReference(columns, item.expression);
+    const label = item.alias ? `${item.expression} AS ${item.alias}` : item.expression;
+    if (column) {
+      projected.push(node(label, columns.get(column)!.type));
+    } else if (/^("[^"]+"|[A-Za-z_][\w.]*)$/.test(item.expression)) {
+      projected.push(node(label, 'unknown column', [], true));
+    } else {
+      projected.push(node(label, 'expression'));
+    }
+  }
+  plan = node('Projection', `${projected.length} column${projected.length === 1 ? '' : 's'}`, [...projected, plan]);
+
+  // Sort - R2 SQL only orders by partition key columns
+  if (statement.orderBy.length) {
+    const keys = statement.orderBy.map(item => {
+      const column = resolveColumnReference(columns, item.column);
+      const text = `${item.column} ${item.descending ? 'DESC' : 'ASC'}`;
+      if (!column) return node(text, 'unknown column', [], true);
+      return partitionColumns.has(column)
+        ? node(text, 'partition key')
+        : node(text, 'not a partition key - R2 SQL only supports ORDER BY on partition key columns', [], true);
+    });
+    plan = node('Sort', statement.limit !== null ? `top ${statement.limit}` : 'all matching rows', [...keys, plan]);
+  }
+
+  // Limit
+  plan = statement.limit !== null
+    ? node('Limit', `${statement.limit} rows - the scan can stop early${statement.orderBy.length ? ' only after sorting' : ''}`, [plan])
+    : node('Limit', 'none - every matching row is returned', [plan]);
+
+  const unsupported = findUnsupportedFeatures(sql);
+  if (unsupported.length === 0) return plan;
+
+  const features = [...new Set(unsupported.map(entry => entry.feature))];
+  return node('Query', undefined, [
+    node('Not supported by R2 SQL', undefined, features.map(feature => node(feature, undefined, [], true)), true),
+    plan,
+  ]);
+}
+
+/**
+ * Turns EXPLAIN <sql> into plan trees
+ */
+export class QueryPlanner {
+  private sqlClient: R2SQLClient;
+  private catalogClient: IcebergCatalogClient;
+  private fileExplorer: DataFileExplorer;
+
+  constructor(sqlClient: R2SQLClient, catalogClient: IcebergCatalogClient, fileExplorer: DataFileExplorer) {
+    this.sqlClient = sqlClient;
+    this.catalogClient = catalogClient;
+    this.fileExplorer = fileExplorer;
+  }
+
+  /**
+   * Returns the plans to show: R2 SQL's plan first when it provides one, then the client-side plan
+   */
+  async explain(
+    sql: string,
+    resolveTable: (name: string) => Promise<{ namespace: string; table: string } | null>
+  ): Promise<PlanNode[]> {
+    const statement = parseSelect(sql);
+    if (!statement) {
+      throw new Error('EXPLAIN supports SELECT ... FROM <table> queries');
+    }
+
+    const resolved = await resolveTable(statement.table);
+    const metadata = resolved
+      ? (await this.catalogClient.getTableMetadata(resolved.namespace, resolved.table))?.fullMetadata
+      : null;
+    if (!resolved || !metadata) {
+      throw new Error(`Could not fetch table metadata for ${statement.table}`);
+    }
+
+    // The estimate needs the manifests; the plan is still useful without it
+    let scan;
+    try {
+      scan = estimateScan(metadata, await this.fileExplorer.listDataFiles(metadata), statement.where);
+    } catch {
+      scan = undefined;
+    }
+
+    const plans: PlanNode[] = [];
+    const serverPlan = await this.serverPlan(sql);
+    if (serverPlan) plans.push(serverPlan);
+    plans.push(node('Client-side plan', undefined, [
+      buildQueryPlan(statement, sql, metadata, `${resolved.namespace}.${resolved.table}`, scan),
+    ]));
+    return plans;
+  }
+
+  // R2 SQL's own EXPLAIN output, or null when it doesn't support EXPLAIN
+  private async serverPlan(sql: string): Promise<PlanNode | null> {
+    const result = await this.sqlClient.executeQuery(`EXPLAIN ${sql.trim().replace(/;\s*$/, '')}`);
+    if (result.error || result.data.length === 0) return null;
+
+    return node('R2 SQL plan', undefined, result.data.map((row, index) => {
+      const label = String(row.plan_type ?? row.type ?? `step ${index + 1}`);
+      const text = String(row.plan ?? row.explain ?? JSON.stringify(row));
+      return node(label, undefined, text.split('\n').filter(line => line.trim()).map(line => node(line.trimEnd())));
+    }));
+  }
+}
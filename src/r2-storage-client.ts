@@ -0,0 +1,144 @@
+import fetch from 'node-fetch';
+import crypto from 'crypto';
+import { R2SQLConfig } from './types.js';
+import { RetryPolicy } from './retry.js';
+import fs from 'fs';
+import path from 'path';
+
+const REGION = 'auto';
+const SERVICE = 's3';
+const EMPTY_PAYLOAD_HASH = crypto.createHash('sha256').update('').digest('hex');
+
+interface S3Credentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+function sha256Hex(data: string): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return crypto.createHmac('sha256', key).update(data).digest();
+}
+
+// SigV4 wants RFC 3986 encoding, which is stricter than encodeURIComponent
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * Split an s3://bucket/key URI (as used in Iceberg metadata) into bucket and key
+ */
+export function parseObjectUri(uri: string): { bucket: string; key: string } {
+  const match = uri.match(/^s3[an]?:\/\/([^/]+)\/(.+)$/);
+  if (!match) {
+    throw new Error(`Unsupported object location: ${uri}`);
+  }
+  return { bucket: match[1], key: match[2] };
+}
+
+/**
+ * Read-only client for the R2 S3-compatible API, used to fetch Iceberg manifest files.
+ * Requests are signed with AWS Signature V4. Without explicit R2 access keys the credentials are
+ * derived from the API token: the token id is the access key id and the SHA-256 of the token is the secret.
+ */
+export class R2StorageClient {
+  private config: R2SQLConfig;
+  private endpoint: string;
+  private credentials: S3Credentials | null = null;
+  private debugLog: fs.WriteStream | null = null;
+  private retryPolicy = new RetryPolicy();
+
+  constructor(config: R2SQLConfig) {
+    this.config = config;
+    this.endpoint = `https://${config.accountId}.r2.cloudflarestorage.com`;
+
+    if (config.r2AccessKeyId && config.r2SecretAccessKey) {
+      this.credentials = { accessKeyId: config.r2AccessKeyId, secretAccessKey: config.r2SecretAccessKey };
+    }
+
+    // Create a debug log file only if debug is enabled
+    if (config.debugEnabled) {
+      const logPath = path.join(process.cwd(), 'r2sql-debug.log');
+      this.debugLog = fs.createWriteStream(logPath, { flags: 'a' });
+    }
+  }
+
+  private debug(message: string) {
+    if (this.debugLog) {
+      this.debugLog.write(`${new Date().toISOString()} - [R2] ${message}\n`);
+    }
+  }
+
+  /**
+   * Download an object by its s3:// URI
+   */
+  async getObject(uri: string): Promise<Buffer> {
+    const { bucket, key } = parseObjectUri(uri);
+    const credentials = await this.getCredentials();
+    const canonicalUri = `/${encodeRfc3986(bucket)}/${key.split('/').map(encodeRfc3986).join('/')}`;
+
+    const { response } = await this.retryPolicy.execute(
+      // Sign per attempt so retries don't reuse a stale x-amz-date
+      () => fetch(`${this.endpoint}${canonicalUri}`, { headers: this.signGet(canonicalUri, credentials) }),
+      { label: `GET ${uri}`, log: (message) => this.debug(message) }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      this.debug(`Error Response: ${errorText}`);
+      if (response.status === 401 || response.status === 403) {
+        throw new Error(`R2 denied access to ${uri} (${response.status}). The API token needs R2 Object Storage read access, or set R2_ACCESS_KEY_ID and R2_SECRET_ACCESS_KEY`);
+      }
+      throw new Error(`R2 API error: ${response.status} reading ${uri}`);
+    }
+
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  private signGet(canonicalUri: string, credentials: S3Credentials): Record<string, string> {
+    const host = new URL(this.endpoint).host;
+    const amzDate = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+    const dateStamp = amzDate.slice(0, 8);
+
+    const signedHeaders = 'host;x-amz-content-sha256;x-amz-date';
+    const canonicalHeaders = `host:${host}\nx-amz-content-sha256:${EMPTY_PAYLOAD_HASH}\nx-amz-date:${amzDate}\n`;
+    const canonicalRequest = ['GET', canonicalUri, '', canonicalHeaders, signedHeaders, EMPTY_PAYLOAD_HASH].join('\n');
+
+    const scope = `${dateStamp}/${REGION}/${SERVICE}/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${credentials.secretAccessKey}`, dateStamp), REGION), SERVICE), 'aws4_request');
+    const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    return {
+      'x-amz-date': amzDate,
+      'x-amz-content-sha256': EMPTY_PAYLOAD_HASH,
+      'Authorization': `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+    };
+  }
+
+  private async getCredentials(): Promise<S3Credentials> {
+    if (this.credentials) return this.credentials;
+
+    // User tokens verify under /user, account-owned tokens under /accounts/{id}
+    const verifyUrls = [
+      'https://api.cloudflare.com/client/v4/user/tokens/verify',
+      `https://api.cloudflare.com/client/v4/accounts/${this.config.accountId}/tokens/verify`,
+    ];
+
+    for (const url of verifyUrls) {
+      const response = await fetch(url, { headers: { 'Authorization': `Bearer ${this.config.apiToken}` } });
+      if (!response.ok) continue;
+
+      const data = await response.json() as any;
+      if (data.success && data.result?.id) {
+        this.credentials = { accessKeyId: data.result.id, secretAccessKey: sha256Hex(this.config.apiToken) };
+        return this.credentials;
+      }
+    }
+
+    throw new Error('Could not derive R2 credentials from the API token. Set R2_ACCESS_KEY_ID and R2_SECRET_ACCESS_KEY');
+  }
+}
@@ -1,11 +1,13 @@
 import fetch from 'node-fetch';
-import { R2SQLConfig, R2SQLQueryResult } from './types.js';
+import { R2SQLConfig, R2SQLQueryResult, QueryExecution } from './types.js';
+import { RetryPolicy } from './retry.js';
 import fs from 'fs';
 import path from 'path';
 
 export class R2SQLClient {
   private config: R2SQLConfig;
   private debugLog: fs.WriteStream | null = null;
+  private retryPolicy = new RetryPolicy();
 
   constructor(config: R2SQLConfig) {
     this.config = config;
@@ -24,6 +26,59 @@ export class R2SQLClient {
   }
 
   async executeQuery(sql: string): Promise<R2SQLQueryResult> {
+    return this.startQuery(sql).result;
+  }
+
+  /**
+   * Start a query and return a handle that can cancel it while it's in flight.
+   * The query is also aborted once the configured timeout elapses.
+   */
+  startQuery(sql: string): QueryExecution {
+    const controller = new AbortController();
+    let timedOut = false;
+
+    const timeoutSeconds = this.config.queryTimeout;
+    const timer = timeoutSeconds
+      ? setTimeout(() => {
+          timedOut = true;
+          this.debug(`Query timed out after ${timeoutSeconds}s, aborting request`);
+          controller.abort();
+        }, timeoutSeconds * 1000)
+      : null;
+
+    const result = this.runQuery(sql, controller.signal)
+      .then((queryResult): R2SQLQueryResult => {
+        if (!controller.signal.aborted) {
+          return queryResult;
+        }
+        if (timedOut) {
+          return {
+            data: [],
+            error: `Query timed out after ${timeoutSeconds}s (client-side timeout)`,
+          };
+        }
+        return {
+          data: [],
+          error: 'Query cancelled',
+          cancelled: true,
+        };
+      })
+      .finally(() => {
+        if (timer) clearTimeout(timer);
+      });
+
+    return {
+      result,
+      cancel: () => {
+        if (!controller.signal.aborted) {
+          this.debug('Query cancelled by user, aborting request');
+          controller.abort();
+        }
+      },
+    };
+  }
+
+  private async runQuery(sql: string, signal: AbortSignal): Promise<R2SQLQueryResult> {
     // Correct R2 SQL endpoint format
     const url = `https://api.sql.cloudflarestorage.com/api/v1/accounts/${this.config.accountId}/r2-sql/query/${this.config.bucketName}`;
 
@@ -43,14 +98,19 @@ export class R2SQLClient {
     this.debug('===========================\n');
 
     try {
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.config.apiToken}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestBody),
-      });
+      // Queries are read-only, so POSTs are safe to retry
+      const { response, retries } = await this.retryPolicy.execute(
+        () => fetch(url, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${this.config.apiToken}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(requestBody),
+          signal,
+        }),
+        { label: 'R2 SQL query', log: (message) => this.debug(message), signal }
+      );
 
       this.debug('\n=== R2 SQL RESPONSE DEBUG ===');
       this.debug(`Status: ${response.status} ${response.statusText}`);
@@ -72,6 +132,7 @@ export class R2SQLClient {
         return {
           data: [],
           error: `Query failed: ${errorMessage}`,
+          status: response.status,
         };
       }
 
@@ -134,6 +195,7 @@ export class R2SQLClient {
         filesScanned: meta.files_scanned,
         bytesScanned: meta.bytes_scanned || meta.bytes_read,
         executionTime: meta.query_time_ms || meta.executionTime,
+        retries,
       };
 
       this.debug(`Extracted data length: ${data.length}`);
@@ -3,25 +3,53 @@ import chalk from 'chalk';
 import { R2SQLClient } from './r2sql-client.js';
 import { IcebergCatalogClient } from './iceberg-client.js';
 import { ResultFormatter } from './formatter.js';
-import { R2SQLConfig } from './types.js';
+import { ScriptRunner } from './script-runner.js';
+import { parseCreateTable, buildCreateTableRequest, parsePropertyList, parseRefCommand, RefCommand } from './ddl.js';
+import { TimeTravelResolver } from './time-travel.js';
+import { parseRollback, parseExpire, planRollback, planExpireSnapshots } from './table-maintenance.js';
+import { R2StorageClient } from './r2-storage-client.js';
+import { DataFileExplorer, parseShowFiles, filterDataFiles, summarizePartitions, getSmallFileThreshold } from './data-files.js';
+import { QueryPlanner } from './query-plan.js';
+import { QueryValidator, ValidationIssue } from './sql-validator.js';
+import { SchemaCache } from './schema-cache.js';
+import { getCompletionContext, completeFromSchema } from './completion.js';
+import { BucketSession, BucketClients, BucketCommand, parseBucketCommand } from './bucket-session.js';
+import {
+  getSnapshotRows, sortSnapshotRows, SnapshotSortKey, SNAPSHOT_SORT_KEYS, getPartitionSpecs, getSortOrders,
+  getSchemaHistory, getTableDetails, getRefRows, formatTimestampMs,
+} from './iceberg-metadata.js';
+import { R2SQLConfig, NamespaceNode, ScriptErrorMode } from './types.js';
 import fs from 'fs';
 import path from 'path';
 import os from 'os';
 
+// SHOW FILES lists at most this many files; the partition summary always covers all of them
+const MAX_LISTED_FILES = 200;
+
+// Clients for one attached bucket
+interface BucketConnection extends BucketClients {
+  timeTravel: TimeTravelResolver;
+  fileExplorer: DataFileExplorer;
+  planner: QueryPlanner;
+  schemaCache: SchemaCache;
+  validator: QueryValidator | null; // null with --no-validate
+}
+
 export class R2SQLREPL {
-  private sqlClient: R2SQLClient;
-  private catalogClient: IcebergCatalogClient;
+  private buckets: BucketSession<BucketConnection>;
+  private validateQueries: boolean;
   private formatter: ResultFormatter;
   private rl: readline.Interface;
   private history: string[] = [];
   private historyFile: string;
+  // Namespaces and tables of the default bucket, cached for completion and bare table names
   private namespaces: string[] = [];
   private tables: Map<string, string[]> = new Map();
 
-  constructor(config: R2SQLConfig) {
-    this.sqlClient = new R2SQLClient(config);
-    this.catalogClient = new IcebergCatalogClient(config);
+  constructor(config: R2SQLConfig, options?: { validate?: boolean }) {
+    this.validateQueries = options?.validate !== false;
     this.formatter = new ResultFormatter();
+    this.buckets = new BucketSession(config, bucketConfig => this.connect(bucketConfig));
     this.historyFile = path.join(os.homedir(), '.r2sql_history');
 
     this.rl = readline.createInterface({
@@ -35,6 +63,23 @@ export class R2SQLREPL {
     this.setupReadline();
   }
 
+  private connect(config: R2SQLConfig): BucketConnection {
+    const sqlClient = new R2SQLClient(config);
+    const catalogClient = new IcebergCatalogClient(config);
+    const fileExplorer = new DataFileExplorer(new R2StorageClient(config));
+    const schemaCache = new SchemaCache(catalogClient);
+    return {
+      config,
+      sqlClient,
+      catalogClient,
+      timeTravel: new TimeTravelResolver(catalogClient),
+      fileExplorer,
+      planner: new QueryPlanner(sqlClient, catalogClient, fileExplorer),
+      schemaCache,
+      validator: this.validateQueries ? new QueryValidator(catalogClient, schemaCache) : null,
+    };
+  }
+
   private loadHistory(): void {
     try {
       if (fs.existsSync(this.historyFile)) {
@@ -79,20 +124,56 @@ export class R2SQLREPL {
     });
   }
 
-  private completer(line: string): [string[], string] {
+  private completer(line: string, callback: (error: Error | null, result: [string[], string]) => void): void {
+    this.completeFromSchema(line).then(
+      result => callback(null, result ?? this.completeKeywords(line)),
+      () => callback(null, this.completeKeywords(line))
+    );
+  }
+
+  // Columns, operators and string functions once the FROM table is known; null to fall back to keywords
+  private async completeFromSchema(line: string): Promise<[string[], string] | null> {
+    const context = getCompletionContext(line, this.rl.line);
+    if (!context.table) return null;
+
+    const resolved = await this.resolveTable(context.table);
+    const { schemaCache } = await this.connectionFor(resolved);
+    const columns = resolved ? await schemaCache.getColumns(resolved.namespace, resolved.table) : null;
+    const completions = columns ? completeFromSchema(columns, context) : [];
+    if (completions.length === 0) return null;
+
+    const texts = Array.from(new Set(completions.map(completion => completion.text)));
+    const common = texts.reduce((prefix, text) => {
+      let i = 0;
+      while (i < prefix.length && i < text.length && prefix[i].toLowerCase() === text[i].toLowerCase()) i++;
+      return prefix.slice(0, i);
+    });
+
+    // Nothing more to fill in: list the candidates with their types instead of readline's bare names
+    if (texts.length > 1 && common.length <= context.word.length) {
+      console.log('\n' + this.formatter.formatCompletions(completions));
+      this.rl.prompt(true);
+      return [[], context.word];
+    }
+    return [texts, context.word];
+  }
+
+  private completeKeywords(line: string): [string[], string] {
     const keywords = [
       'SELECT', 'FROM', 'WHERE', 'GROUP BY', 'ORDER BY', 'LIMIT',
       'JOIN', 'LEFT JOIN', 'RIGHT JOIN', 'INNER JOIN',
       'AND', 'OR', 'NOT', 'IN', 'LIKE', 'BETWEEN',
       'COUNT', 'SUM', 'AVG', 'MIN', 'MAX',
-      'SHOW TABLES', 'SHOW NAMESPACES', 'DESCRIBE',
+      'SHOW TABLES', 'SHOW NAMESPACES', 'SHOW SNAPSHOTS', 'SHOW PARTITIONS', 'SHOW SCHEMA HISTORY', 'SHOW REFS', 'SHOW FILES', 'SHOW BUCKETS', 'USE BUCKET', 'ATTACH BUCKET', 'EXPLAIN', 'DESCRIBE', 'DESCRIBE EXTENDED',
+      'ROLLBACK TABLE', 'EXPIRE SNAPSHOTS', 'CREATE TABLE', 'CREATE NAMESPACE', 'DROP NAMESPACE', 'ALTER NAMESPACE', 'DROP TABLE', 'ALTER TABLE',
     ];
 
     const allCompletions = [...keywords, ...this.namespaces];
 
-    // Add tables from all namespaces
-    for (const tables of this.tables.values()) {
+    // Add tables from all namespaces, both bare and qualified (ns1.ns2.table)
+    for (const [ns, tables] of this.tables.entries()) {
       allCompletions.push(...tables);
+      allCompletions.push(...tables.map(table => `${ns}.${table}`));
     }
 
     const upperLine = line.toUpperCase();
@@ -115,6 +196,12 @@ export class R2SQLREPL {
       return;
     }
 
+    const bucketCommand = parseBucketCommand(input);
+    if (bucketCommand) {
+      await this.runBucketCommand(bucketCommand);
+      return;
+    }
+
     if (command === 'show namespaces' || command === '.namespaces') {
       await this.showNamespaces();
       return;
@@ -137,8 +224,96 @@ export class R2SQLREPL {
     }
 
     if (command.startsWith('describe ') || command.startsWith('.describe ')) {
-      const tableName = input.slice(input.indexOf(' ') + 1).trim();
-      await this.describeTable(tableName);
+      const args = input.slice(input.indexOf(' ') + 1).trim();
+      const extended = args.match(/^extended\s+(\S+)$/i);
+      await this.describeTable(extended ? extended[1] : args, extended !== null);
+      return;
+    }
+
+    if (command.startsWith('show snapshots ')) {
+      await this.showSnapshots(input.trim().replace(/^show\s+snapshots\s+/i, ''));
+      return;
+    }
+
+    if (command.startsWith('show partitions ')) {
+      await this.showPartitions(input.trim().replace(/^show\s+partitions\s+/i, ''));
+      return;
+    }
+
+    if (command.startsWith('show refs ')) {
+      await this.showRefs(input.trim().replace(/^show\s+refs\s+/i, ''));
+      return;
+    }
+
+    if (command.startsWith('show files ')) {
+      await this.showFiles(input);
+      return;
+    }
+
+    if (command.startsWith('explain ')) {
+      await this.explain(input.trim().replace(/^explain\s+/i, ''));
+      return;
+    }
+
+    if (command.startsWith('show schema history ')) {
+      await this.showSchemaHistory(input.trim().replace(/^show\s+schema\s+history\s+/i, ''));
+      return;
+    }
+
+    // Catalog DDL - handled through the Iceberg REST catalog, not R2 SQL
+    const ddlArgs = (pattern: RegExp) => input.trim().replace(pattern, '').replace(/;\s*$/, '').trim();
+
+    if (command.startsWith('rollback table ')) {
+      await this.rollbackTable(input);
+      return;
+    }
+
+    if (command.startsWith('expire snapshots ')) {
+      await this.expireSnapshots(input);
+      return;
+    }
+
+    if (command.startsWith('create table ')) {
+      await this.createTable(input);
+      return;
+    }
+
+    if (command.startsWith('create namespace ')) {
+      await this.createNamespace(ddlArgs(/^create\s+namespace\s+/i));
+      return;
+    }
+
+    if (command.startsWith('drop namespace ')) {
+      await this.dropNamespace(ddlArgs(/^drop\s+namespace\s+/i));
+      return;
+    }
+
+    if (command.startsWith('alter namespace ')) {
+      await this.alterNamespace(ddlArgs(/^alter\s+namespace\s+/i));
+      return;
+    }
+
+    if (command.startsWith('drop table ')) {
+      await this.dropTable(ddlArgs(/^drop\s+table\s+/i));
+      return;
+    }
+
+    if (command.startsWith('alter table ')) {
+      await this.alterTable(ddlArgs(/^alter\s+table\s+/i));
+      return;
+    }
+
+    if (command.startsWith('.read ')) {
+      // .read <path> [--continue-on-error], the flag in any position
+      const flag = /(^|\s)--continue-on-error(?=\s|$)/i;
+      const args = input.slice(input.indexOf(' ') + 1).trim();
+      const continueOnError = flag.test(args);
+      const filePath = args.replace(flag, ' ').trim();
+      if (!filePath) {
+        console.log(chalk.yellow('Usage: .read <path> [--continue-on-error]'));
+        return;
+      }
+      await this.readScript(filePath, continueOnError ? 'continue' : 'stop');
       return;
     }
 
@@ -157,6 +332,32 @@ ${chalk.yellow('Special Commands:')}
   ${chalk.green('SHOW TABLES')}               List tables in default namespace
   ${chalk.green('SHOW TABLES [IN] <ns>')}    List tables in specific namespace
   ${chalk.green('DESCRIBE <table>')}          Show table schema
+  ${chalk.green('DESCRIBE EXTENDED <table>')} Schema plus location, properties and snapshot totals
+  ${chalk.green('SHOW SNAPSHOTS <table>')}    Show snapshot history (ORDER BY <col> [ASC|DESC])
+  ${chalk.green('SHOW PARTITIONS <table>')}   Show partition specs and sort orders
+  ${chalk.green('SHOW SCHEMA HISTORY <table>')} Show schema versions and field-level diffs
+  ${chalk.green('SHOW REFS <table>')}         Show branches and tags with retention settings
+  ${chalk.green('SHOW FILES <table> [WHERE <partition filter>]')} Data files per partition, with sizes and column bounds
+  ${chalk.green('EXPLAIN <query>')}           Show the query plan: columns, pruning, sort/limit, unsupported features
+  ${chalk.green('.read <path> [--continue-on-error]')} Execute the statements in a SQL file, stopping at the first error unless told to continue
+  ${chalk.green('SHOW BUCKETS')}              List attached buckets
+  ${chalk.green('ATTACH BUCKET <name>')}      Attach another bucket; queries go to the bucket that has the table
+  ${chalk.green('USE BUCKET <name>')}         Make a bucket the default, attaching it if needed
+
+${chalk.yellow('Catalog Commands:')}
+  ${chalk.green('CREATE NAMESPACE <ns> [WITH PROPERTIES (...)]')}
+  ${chalk.green('DROP NAMESPACE <ns>')}
+  ${chalk.green("ALTER NAMESPACE <ns> SET PROPERTIES ('k' = 'v', ...)")}
+  ${chalk.green("ALTER NAMESPACE <ns> UNSET PROPERTIES ('k', ...)")}
+  ${chalk.green('CREATE TABLE <ns>.<t> (col type, ...) [PARTITIONED BY (...)] [WITH PROPERTIES (...)]')}
+  ${chalk.green('CREATE TABLE <ns>.<t> LIKE <table> [PARTITIONED BY (...)]')}
+  ${chalk.green('DROP TABLE <table> [PURGE]')}  PURGE also deletes data files
+  ${chalk.green('ROLLBACK TABLE <table> TO SNAPSHOT <id>')}  Previews, then asks before committing
+  ${chalk.green("EXPIRE SNAPSHOTS <table> OLDER THAN '<ts>' [RETAIN LAST <n>]")}
+  ${chalk.green('ALTER TABLE <table> RENAME TO <new_table>')}
+  ${chalk.green('ALTER TABLE <table> CREATE BRANCH|TAG <name> [AS OF VERSION <id>] [RETAIN <n> DAYS]')}
+  ${chalk.green('ALTER TABLE <table> DROP BRANCH|TAG <name>')}
+  ${chalk.green('ALTER TABLE <table> FAST FORWARD <branch> TO <ref|snapshot-id>')}
 
 ${chalk.yellow('SQL Commands:')}
   Execute any R2 SQL query (SELECT, etc.)
@@ -177,7 +378,8 @@ ${chalk.yellow('Examples:')}
   private async showNamespaces(): Promise<void> {
     try {
       console.log(chalk.cyan('Fetching namespaces...'));
-      this.namespaces = await this.catalogClient.listNamespaces();
+      const tree = await this.buckets.get().catalogClient.getNamespaceTree();
+      this.namespaces = this.flattenNamespaces(tree);
 
       if (this.namespaces.length === 0) {
         console.log(chalk.yellow('No namespaces found'));
@@ -185,18 +387,27 @@ ${chalk.yellow('Examples:')}
       }
 
       console.log(chalk.green.bold('\nNamespaces:'));
-      for (const ns of this.namespaces) {
-        console.log(chalk.cyan(`  • ${ns}`));
-      }
+      const printTree = (nodes: NamespaceNode[], depth: number) => {
+        for (const node of nodes) {
+          const indent = '  '.repeat(depth + 1);
+          console.log(chalk.cyan(`${indent}• ${depth === 0 ? node.name : node.path.join('.')}`));
+          printTree(node.children, depth + 1);
+        }
+      };
+      printTree(tree, 0);
     } catch (error) {
       console.log(this.formatter.formatError(error instanceof Error ? error.message : String(error)));
     }
   }
 
+  private flattenNamespaces(nodes: NamespaceNode[]): string[] {
+    return nodes.flatMap(node => [node.path.join('.'), ...this.flattenNamespaces(node.children)]);
+  }
+
   private async showTables(namespace?: string): Promise<void> {
     try {
       if (!namespace && this.namespaces.length === 0) {
-        this.namespaces = await this.catalogClient.listNamespaces();
+        this.namespaces = await this.buckets.get().catalogClient.listNamespaces();
       }
 
       const ns = namespace || this.namespaces[0];
@@ -208,7 +419,7 @@ ${chalk.yellow('Examples:')}
       }
 
       console.log(chalk.cyan(`Fetching tables in namespace: ${ns}...`));
-      const tables = await this.catalogClient.listTables(ns);
+      const tables = await this.buckets.get().catalogClient.listTables(ns);
       this.tables.set(ns, tables);
 
       if (tables.length === 0) {
@@ -225,33 +436,56 @@ ${chalk.yellow('Examples:')}
     }
   }
 
-  private async describeTable(tableName: string): Promise<void> {
-    try {
-      // Try to find the table in cached namespaces
-      let foundNamespace: string | null = null;
+  /**
+   * Namespace and table for a possibly unqualified name. With guessNamespace false an unqualified name
+   * must be in the table cache; destructive commands use that so they never act on a guessed namespace.
+   */
+  private async resolveTable(qualifiedName: string, guessNamespace: boolean = true): Promise<{ namespace: string; table: string } | null> {
+    // Qualified name like ns1.ns2.table - everything before the last dot is the namespace
+    const lastDot = qualifiedName.lastIndexOf('.');
+    if (lastDot > 0) {
+      return { namespace: qualifiedName.substring(0, lastDot), table: qualifiedName.substring(lastDot + 1) };
+    }
 
-      for (const [ns, tables] of this.tables.entries()) {
-        if (tables.includes(tableName)) {
-          foundNamespace = ns;
-          break;
-        }
+    // Otherwise try to find the table in cached namespaces
+    for (const [ns, tables] of this.tables.entries()) {
+      if (tables.includes(qualifiedName)) {
+        return { namespace: ns, table: qualifiedName };
       }
+    }
 
-      if (!foundNamespace) {
-        // Try first namespace or ask for more info
-        if (this.namespaces.length === 0) {
-          this.namespaces = await this.catalogClient.listNamespaces();
-        }
-        foundNamespace = this.namespaces[0];
-      }
+    if (!guessNamespace) {
+      return null;
+    }
+
+    // Try first namespace
+    if (this.namespaces.length === 0) {
+      this.namespaces = await this.buckets.get().catalogClient.listNamespaces();
+    }
+    return this.namespaces[0] ? { namespace: this.namespaces[0], table: qualifiedName } : null;
+  }
+
+  /**
+   * Clients of the bucket that has the table; the default bucket when it couldn't be resolved
+   */
+  private async connectionFor(resolved: { namespace: string; table: string } | null): Promise<BucketConnection> {
+    return resolved ? this.buckets.ownerOf(resolved.namespace, resolved.table) : this.buckets.get();
+  }
+
+  private async describeTable(qualifiedName: string, extended: boolean = false): Promise<void> {
+    try {
+      const resolved = await this.resolveTable(qualifiedName);
 
-      if (!foundNamespace) {
+      if (!resolved) {
         console.log(chalk.yellow('Could not determine namespace for table. Use: DESCRIBE <namespace>.<table>'));
         return;
       }
 
+      const { namespace: foundNamespace, table: tableName } = resolved;
+
       console.log(chalk.cyan(`Fetching schema for ${foundNamespace}.${tableName}...`));
-      const metadata = await this.catalogClient.getTableMetadata(foundNamespace, tableName);
+      const { catalogClient } = await this.connectionFor(resolved);
+      const metadata = await catalogClient.getTableMetadata(foundNamespace, tableName);
 
       if (!metadata || !metadata.schema) {
         console.log(chalk.yellow('Could not fetch table metadata'));
@@ -266,6 +500,464 @@ ${chalk.yellow('Examples:')}
         const required = field.required ? chalk.red('NOT NULL') : chalk.dim('NULL');
         console.log(`  ${chalk.cyan(field.name.padEnd(30))} ${chalk.yellow(typeStr.padEnd(20))} ${required}`);
       }
+
+      if (extended) {
+        console.log('\n' + this.formatter.formatTableDetails(getTableDetails(metadata.fullMetadata)));
+      }
+    } catch (error) {
+      console.log(this.formatter.formatError(error instanceof Error ? error.message : String(error)));
+    }
+  }
+
+  private async showSnapshots(args: string): Promise<void> {
+    try {
+      // SHOW SNAPSHOTS <table> [ORDER BY <column> [ASC|DESC]]
+      const match = args.match(/^(\S+)(?:\s+order\s+by\s+(\S+)(?:\s+(asc|desc))?)?$/i);
+      if (!match) {
+        console.log(chalk.yellow(`Usage: SHOW SNAPSHOTS <table> [ORDER BY <${SNAPSHOT_SORT_KEYS.join('|')}> [ASC|DESC]]`));
+        return;
+      }
+
+      const sortKey = (match[2] || 'timestamp').toLowerCase() as SnapshotSortKey;
+      if (!SNAPSHOT_SORT_KEYS.includes(sortKey)) {
+        console.log(chalk.yellow(`Unknown sort column: ${match[2]}. Use one of: ${SNAPSHOT_SORT_KEYS.join(', ')}`));
+        return;
+      }
+      const descending = match[3] ? match[3].toLowerCase() === 'desc' : true;
+
+      const resolved = await this.resolveTable(match[1]);
+      if (!resolved) {
+        console.log(chalk.yellow('Could not determine namespace for table. Use: SHOW SNAPSHOTS <namespace>.<table>'));
+        return;
+      }
+
+      console.log(chalk.cyan(`Fetching snapshots for ${resolved.namespace}.${resolved.table}...`));
+      const { catalogClient } = await this.connectionFor(resolved);
+      const metadata = await catalogClient.getTableMetadata(resolved.namespace, resolved.table);
+
+      if (!metadata?.fullMetadata) {
+        console.log(chalk.yellow('Could not fetch table metadata'));
+        return;
+      }
+
+      const rows = sortSnapshotRows(getSnapshotRows(metadata.fullMetadata), sortKey, descending);
+      console.log(chalk.green.bold(`\nSnapshots: ${resolved.namespace}.${resolved.table}`) + chalk.dim(` (${rows.length})`));
+      console.log(this.formatter.formatSnapshots(rows));
+    } catch (error) {
+      console.log(this.formatter.formatError(error instanceof Error ? error.message : String(error)));
+    }
+  }
+
+  private async showPartitions(tableRef: string): Promise<void> {
+    try {
+      const resolved = await this.resolveTable(tableRef);
+      if (!resolved) {
+        console.log(chalk.yellow('Could not determine namespace for table. Use: SHOW PARTITIONS <namespace>.<table>'));
+        return;
+      }
+
+      console.log(chalk.cyan(`Fetching partition layout for ${resolved.namespace}.${resolved.table}...`));
+      const { catalogClient } = await this.connectionFor(resolved);
+      const metadata = await catalogClient.getTableMetadata(resolved.namespace, resolved.table);
+
+      if (!metadata?.fullMetadata) {
+        console.log(chalk.yellow('Could not fetch table metadata'));
+        return;
+      }
+
+      console.log(chalk.green.bold(`\nTable: ${resolved.namespace}.${resolved.table}\n`));
+      console.log(this.formatter.formatPartitionLayout(
+        getPartitionSpecs(metadata.fullMetadata),
+        getSortOrders(metadata.fullMetadata)
+      ));
+    } catch (error) {
+      console.log(this.formatter.formatError(error instanceof Error ? error.message : String(error)));
+    }
+  }
+
+  private async showSchemaHistory(tableRef: string): Promise<void> {
+    try {
+      const resolved = await this.resolveTable(tableRef);
+      if (!resolved) {
+        console.log(chalk.yellow('Could not determine namespace for table. Use: SHOW SCHEMA HISTORY <namespace>.<table>'));
+        return;
+      }
+
+      console.log(chalk.cyan(`Fetching schema history for ${resolved.namespace}.${resolved.table}...`));
+      const { catalogClient } = await this.connectionFor(resolved);
+      const metadata = await catalogClient.getTableMetadata(resolved.namespace, resolved.table);
+
+      if (!metadata?.fullMetadata) {
+        console.log(chalk.yellow('Could not fetch table metadata'));
+        return;
+      }
+
+      console.log(chalk.green.bold(`\nSchema history: ${resolved.namespace}.${resolved.table}\n`));
+      console.log(this.formatter.formatSchemaHistory(getSchemaHistory(metadata.fullMetadata)));
+    } catch (error) {
+      console.log(this.formatter.formatError(error instanceof Error ? error.message : String(error)));
+    }
+  }
+
+  private async createNamespace(args: string): Promise<void> {
+    // CREATE NAMESPACE <ns> [WITH PROPERTIES ('key' = 'value', ...)]
+    const match = args.match(/^(\S+)(?:\s+with\s+properties\s*(\(.*\)))?$/is);
+    const properties = match?.[2] ? parsePropertyList(match[2]) : {};
+    if (!match || !properties) {
+      console.log(chalk.yellow("Usage: CREATE NAMESPACE <namespace> [WITH PROPERTIES ('key' = 'value', ...)]"));
+      return;
+    }
+
+    try {
+      await this.buckets.get().catalogClient.createNamespace(match[1], properties);
+      this.namespaces = [];
+      console.log(chalk.green(`✓ Created namespace ${match[1]}`));
+    } catch (error) {
+      console.log(this.formatter.formatError(error instanceof Error ? error.message : String(error)));
+    }
+  }
+
+  private async createTable(sql: string): Promise<void> {
+    try {
+      const statement = parseCreateTable(sql);
+
+      // LIKE copies the current schema of an existing table
+      let sourceSchema;
+      if (statement.likeTable) {
+        const source = await this.resolveTable(statement.likeTable);
+        const { catalogClient } = await this.connectionFor(source);
+        const metadata = source ? await catalogClient.getTableMetadata(source.namespace, source.table) : null;
+        if (!metadata?.schema) {
+          console.log(chalk.yellow(`Could not fetch the schema of ${statement.likeTable}`));
+          return;
+        }
+        sourceSchema = metadata.schema;
+      }
+
+      const request = buildCreateTableRequest(statement, sourceSchema);
+      // New tables go to the default bucket
+      await this.buckets.get().catalogClient.createTable(statement.namespace, request);
+      this.tables.delete(statement.namespace);
+
+      const partitioning = request['partition-spec']
+        ? ` partitioned by ${request['partition-spec'].fields.map(field => field.name).join(', ')}`
+        : '';
+      console.log(chalk.green(`✓ Created table ${statement.namespace}.${statement.table} with ${request.schema.fields.length} columns${partitioning}`));
+    } catch (error) {
+      console.log(this.formatter.formatError(error instanceof Error ? error.message : String(error)));
+    }
+  }
+
+  private async dropNamespace(namespace: string): Promise<void> {
+    if (!/^\S+$/.test(namespace)) {
+      console.log(chalk.yellow('Usage: DROP NAMESPACE <namespace>'));
+      return;
+    }
+
+    try {
+      const bucket = this.buckets.defaultBucketName;
+      if (!await this.confirm(`Drop namespace ${namespace} from bucket ${bucket}? (y/N) `)) {
+        console.log(chalk.dim('Drop cancelled - nothing was changed'));
+        return;
+      }
+
+      await this.buckets.get().catalogClient.dropNamespace(namespace);
+      this.namespaces = [];
+      this.tables.delete(namespace);
+      console.log(chalk.green(`✓ Dropped namespace ${namespace}`));
+    } catch (error) {
+      console.log(this.formatter.formatError(error instanceof Error ? error.message : String(error)));
+    }
+  }
+
+  private async alterNamespace(args: string): Promise<void> {
+    // ALTER NAMESPACE <ns> SET PROPERTIES ('key' = 'value', ...) | UNSET PROPERTIES ('key', ...)
+    const match = args.match(/^(\S+)\s+(set|unset)\s+properties\s*(\(.*\))$/is);
+    const properties = match ? parsePropertyList(match[3]) : null;
+    if (!match || !properties) {
+      console.log(chalk.yellow("Usage: ALTER NAMESPACE <namespace> SET PROPERTIES ('key' = 'value', ...)"));
+      console.log(chalk.yellow("       ALTER NAMESPACE <namespace> UNSET PROPERTIES ('key', ...)"));
+      return;
+    }
+
+    try {
+      const unset = match[2].toLowerCase() === 'unset';
+      const result = unset
+        ? await this.buckets.get().catalogClient.updateNamespaceProperties(match[1], {}, Object.keys(properties))
+        : await this.buckets.get().catalogClient.updateNamespaceProperties(match[1], properties);
+
+      if (result.updated.length > 0) console.log(chalk.green(`✓ Updated: ${result.updated.join(', ')}`));
+      if (result.removed.length > 0) console.log(chalk.green(`✓ Removed: ${result.removed.join(', ')}`));
+      if (result.missing.length > 0) console.log(chalk.yellow(`Not set: ${result.missing.join(', ')}`));
+    } catch (error) {
+      console.log(this.formatter.formatError(error instanceof Error ? error.message : String(error)));
+    }
+  }
+
+  private async dropTable(args: string): Promise<void> {
+    // DROP TABLE <table> [PURGE]
+    const match = args.match(/^(\S+)(\s+purge)?$/i);
+    if (!match) {
+      console.log(chalk.yellow('Usage: DROP TABLE <table> [PURGE]'));
+      return;
+    }
+
+    try {
+      const resolved = await this.resolveTable(match[1], false);
+      if (!resolved) {
+        console.log(chalk.yellow('Could not determine namespace for table. Use: DROP TABLE <namespace>.<table>'));
+        return;
+      }
+
+      const purge = match[2] !== undefined;
+      if (purge && !await this.confirm(`Drop ${resolved.namespace}.${resolved.table} and delete its data files? (y/N) `)) {
+        console.log(chalk.dim('Drop cancelled - nothing was changed'));
+        return;
+      }
+      const { catalogClient } = await this.connectionFor(resolved);
+      await catalogClient.dropTable(resolved.namespace, resolved.table, purge);
+      this.tables.delete(resolved.namespace);
+      console.log(chalk.green(`✓ Dropped table ${resolved.namespace}.${resolved.table}${purge ? ' and purged its data' : ''}`));
+    } catch (error) {
+      console.log(this.formatter.formatError(error instanceof Error ? error.message : String(error)));
+    }
+  }
+
+  private async alterTable(args: string): Promise<void> {
+    // ALTER TABLE <table> CREATE|DROP BRANCH|TAG ... / FAST FORWARD ... manage refs
+    const refArgs = args.match(/^(\S+)\s+(.*)$/s);
+    try {
+      const refCommand = refArgs ? parseRefCommand(refArgs[2]) : null;
+      if (refArgs && refCommand) {
+        await this.alterTableRefs(refArgs[1], refCommand);
+        return;
+      }
+    } catch (error) {
+      console.log(this.formatter.formatError(error instanceof Error ? error.message : String(error)));
+      return;
+    }
+
+    // ALTER TABLE <table> RENAME TO <new name>; an unqualified new name stays in the same namespace
+    const match = args.match(/^(\S+)\s+rename\s+to\s+(\S+)$/i);
+    if (!match) {
+      console.log(chalk.yellow('Usage: ALTER TABLE <table> RENAME TO <new_table>'));
+      console.log(chalk.yellow('       ALTER TABLE <table> CREATE BRANCH|TAG <name> [AS OF VERSION <id>] [RETAIN <n> DAYS]'));
+      console.log(chalk.yellow('       ALTER TABLE <table> DROP BRANCH|TAG <name>'));
+      console.log(chalk.yellow('       ALTER TABLE <table> FAST FORWARD <branch> TO <ref|snapshot-id>'));
+      return;
+    }
+
+    try {
+      const resolved = await this.resolveTable(match[1], false);
+      if (!resolved) {
+        console.log(chalk.yellow('Could not determine namespace for table. Use: ALTER TABLE <namespace>.<table> RENAME TO <new_table>'));
+        return;
+      }
+
+      const lastDot = match[2].lastIndexOf('.');
+      const newNamespace = lastDot > 0 ? match[2].substring(0, lastDot) : resolved.namespace;
+      const newTable = match[2].substring(lastDot + 1);
+
+      const { catalogClient } = await this.connectionFor(resolved);
+      await catalogClient.renameTable(resolved.namespace, resolved.table, newNamespace, newTable);
+      this.tables.delete(resolved.namespace);
+      this.tables.delete(newNamespace);
+      console.log(chalk.green(`✓ Renamed ${resolved.namespace}.${resolved.table} to ${newNamespace}.${newTable}`));
+    } catch (error) {
+      console.log(this.formatter.formatError(error instanceof Error ? error.message : String(error)));
+    }
+  }
+
+  private async alterTableRefs(tableRef: string, command: RefCommand): Promise<void> {
+    const resolved = await this.resolveTable(tableRef);
+    if (!resolved) {
+      console.log(chalk.yellow('Could not determine namespace for table. Use: ALTER TABLE <namespace>.<table> ...'));
+      return;
+    }
+
+    const { namespace, table } = resolved;
+    const { catalogClient } = await this.connectionFor(resolved);
+    if (command.action === 'create') {
+      await catalogClient.createRef(namespace, table, command.name, command.type, command.snapshotId, command.retention);
+      console.log(chalk.green(`✓ Created ${command.type} ${command.name} on ${namespace}.${table}` +
+        (command.snapshotId ? ` at snapshot ${command.snapshotId}` : ' at the current snapshot')));
+    } else if (command.action === 'drop') {
+      await catalogClient.deleteRef(namespace, table, command.name, command.type);
+      console.log(chalk.green(`✓ Dropped ${command.type} ${command.name} from ${namespace}.${table}`));
+    } else {
+      const { from, to } = await catalogClient.fastForwardBranch(namespace, table, command.name, command.target);
+      console.log(chalk.green(`✓ Fast-forwarded ${command.name} from ${from} to ${to}`));
+    }
+  }
+
+  private confirm(question: string): Promise<boolean> {
+    return new Promise(resolve => {
+      this.rl.question(chalk.yellow(question), answer => resolve(/^y(es)?$/i.test(answer.trim())));
+    });
+  }
+
+  private async rollbackTable(sql: string): Promise<void> {
+    try {
+      const statement = parseRollback(sql);
+      if (!statement) {
+        console.log(chalk.yellow('Usage: ROLLBACK TABLE <table> TO SNAPSHOT <snapshot-id>'));
+        return;
+      }
+
+      const resolved = await this.resolveTable(statement.table);
+      const connection = await this.connectionFor(resolved);
+      const metadata = resolved ? await connection.catalogClient.getTableMetadata(resolved.namespace, resolved.table) : null;
+      if (!resolved || !metadata?.fullMetadata) {
+        console.log(chalk.yellow(`Could not fetch table metadata for ${statement.table}`));
+        return;
+      }
+
+      const plan = planRollback(metadata.fullMetadata, statement.snapshotId);
+      const tableName = `${resolved.namespace}.${resolved.table}`;
+      console.log(chalk.cyan.bold(`\nDry run: roll back main of ${tableName}`));
+      console.log(`  from ${chalk.white(plan.currentId)} to ${chalk.white(plan.targetId)} (${formatTimestampMs(plan.target.timestampMs)})`);
+      console.log(chalk.dim(`\n${plan.rolledBack.length} snapshot(s) will no longer be current. They stay in the history until expired:`));
+      console.log(this.formatter.formatSnapshots(plan.rolledBack));
+
+      if (!await this.confirm('\nApply this rollback? (y/N) ')) {
+        console.log(chalk.dim('Rollback cancelled - nothing was changed'));
+        return;
+      }
+
+      await connection.catalogClient.rollbackToSnapshot(resolved.namespace, resolved.table, plan.targetId, plan.currentId);
+      console.log(chalk.green(`✓ Rolled back ${tableName} to snapshot ${plan.targetId}`));
+    } catch (error) {
+      console.log(this.formatter.formatError(error instanceof Error ? error.message : String(error)));
+    }
+  }
+
+  private async expireSnapshots(sql: string): Promise<void> {
+    try {
+      const statement = parseExpire(sql);
+      if (!statement) {
+        console.log(chalk.yellow("Usage: EXPIRE SNAPSHOTS <table> OLDER THAN '<timestamp>' [RETAIN LAST <n>]"));
+        return;
+      }
+
+      const resolved = await this.resolveTable(statement.table);
+      const connection = await this.connectionFor(resolved);
+      const metadata = resolved ? await connection.catalogClient.getTableMetadata(resolved.namespace, resolved.table) : null;
+      if (!resolved || !metadata?.fullMetadata) {
+        console.log(chalk.yellow(`Could not fetch table metadata for ${statement.table}`));
+        return;
+      }
+
+      const plan = planExpireSnapshots(metadata.fullMetadata, statement.olderThanMs, statement.retainLast);
+      const tableName = `${resolved.namespace}.${resolved.table}`;
+      const cutoff = formatTimestampMs(statement.olderThanMs);
+
+      if (plan.expired.length === 0) {
+        console.log(chalk.yellow(`No snapshots of ${tableName} older than ${cutoff} can be expired` +
+          (plan.keptByRefs > 0 ? ` (${plan.keptByRefs} kept for branches, tags or RETAIN LAST)` : '')));
+        return;
+      }
+
+      console.log(chalk.cyan.bold(`\nDry run: expire ${plan.expired.length} snapshot(s) of ${tableName} older than ${cutoff}`));
+      if (plan.keptByRefs > 0) {
+        console.log(chalk.dim(`  ${plan.keptByRefs} older snapshot(s) kept for branches, tags or RETAIN LAST ${statement.retainLast}`));
+      }
+      console.log(this.formatter.formatSnapshots(plan.expired));
+
+      if (!await this.confirm(`\nExpire these ${plan.expired.length} snapshot(s)? (y/N) `)) {
+        console.log(chalk.dim('Expire cancelled - nothing was changed'));
+        return;
+      }
+
+      await connection.catalogClient.expireSnapshots(
+        resolved.namespace, resolved.table, plan.expired.map(row => row.snapshotId), plan.currentId
+      );
+      console.log(chalk.green(`✓ Expired ${plan.expired.length} snapshot(s) of ${tableName}`));
+    } catch (error) {
+      console.log(this.formatter.formatError(error instanceof Error ? error.message : String(error)));
+    }
+  }
+
+  private async showRefs(tableRef: string): Promise<void> {
+    try {
+      const resolved = await this.resolveTable(tableRef);
+      if (!resolved) {
+        console.log(chalk.yellow('Could not determine namespace for table. Use: SHOW REFS <namespace>.<table>'));
+        return;
+      }
+
+      console.log(chalk.cyan(`Fetching refs for ${resolved.namespace}.${resolved.table}...`));
+      const { catalogClient } = await this.connectionFor(resolved);
+      const metadata = await catalogClient.getTableMetadata(resolved.namespace, resolved.table);
+
+      if (!metadata?.fullMetadata) {
+        console.log(chalk.yellow('Could not fetch table metadata'));
+        return;
+      }
+
+      console.log(chalk.green.bold(`\nBranches and tags: ${resolved.namespace}.${resolved.table}\n`));
+      console.log(this.formatter.formatRefs(getRefRows(metadata.fullMetadata)));
+    } catch (error) {
+      console.log(this.formatter.formatError(error instanceof Error ? error.message : String(error)));
+    }
+  }
+
+  private async showFiles(sql: string): Promise<void> {
+    try {
+      const statement = parseShowFiles(sql);
+      if (!statement) {
+        console.log(chalk.yellow("Usage: SHOW FILES <table> [WHERE <partition_field> = '<value>' [AND ...]]"));
+        return;
+      }
+
+      const resolved = await this.resolveTable(statement.table);
+      const connection = await this.connectionFor(resolved);
+      const metadata = resolved ? await connection.catalogClient.getTableMetadata(resolved.namespace, resolved.table) : null;
+      if (!resolved || !metadata?.fullMetadata) {
+        console.log(chalk.yellow(`Could not fetch table metadata for ${statement.table}`));
+        return;
+      }
+
+      const tableName = `${resolved.namespace}.${resolved.table}`;
+      console.log(chalk.cyan(`Reading manifests for ${tableName}...`));
+      if (metadata.metadataLocation) {
+        console.log(chalk.dim(`Metadata: ${metadata.metadataLocation}`));
+      }
+
+      const files = filterDataFiles(await connection.fileExplorer.listDataFiles(metadata.fullMetadata), statement.filters);
+      const threshold = getSmallFileThreshold(metadata.fullMetadata);
+      const totalBytes = files.reduce((sum, file) => sum + file.fileSizeBytes, 0);
+
+      console.log(chalk.green.bold(`\nPartitions: ${tableName}`) + chalk.dim(` (${files.length} files, ${this.formatter.formatBytes(totalBytes)})`));
+      console.log(this.formatter.formatPartitionSummary(summarizePartitions(files, threshold)));
+
+      const shown = files.slice(0, MAX_LISTED_FILES);
+      console.log(chalk.green.bold(`\nData files`) + chalk.dim(` (small: < ${this.formatter.formatBytes(threshold)})`));
+      console.log(this.formatter.formatDataFiles(shown, threshold));
+      if (files.length > shown.length) {
+        console.log(chalk.dim(`... and ${files.length - shown.length} more. Narrow the list with WHERE <partition filter>`));
+      }
+    } catch (error) {
+      console.log(this.formatter.formatError(error instanceof Error ? error.message : String(error)));
+    }
+  }
+
+  private async explain(sql: string): Promise<void> {
+    try {
+      const connection = await this.buckets.route(sql, name => this.resolveTable(name));
+      const query = await connection.timeTravel.prepare(sql, name => this.resolveTable(name));
+      console.log(chalk.cyan('Planning query...'));
+      const plans = await connection.planner.explain(query, name => this.resolveTable(name));
+      console.log('\n' + plans.map(plan => this.formatter.formatPlan(plan)).join('\n\n') + '\n');
+    } catch (error) {
+      console.log(this.formatter.formatError(error instanceof Error ? error.message : String(error)));
+    }
+  }
+
+  private async readScript(filePath: string, errorMode: ScriptErrorMode): Promise<void> {
+    try {
+      const clientFor = async (sql: string) => (await this.buckets.route(sql, name => this.resolveTable(name))).sqlClient;
+      const scriptRunner = new ScriptRunner(clientFor, this.formatter);
+      await scriptRunner.runFile(path.resolve(filePath.replace(/^~(?=$|\/)/, os.homedir())), errorMode);
     } catch (error) {
       console.log(this.formatter.formatError(error instanceof Error ? error.message : String(error)));
     }
@@ -273,8 +965,22 @@ ${chalk.yellow('Examples:')}
 
   private async executeSQL(sql: string): Promise<void> {
     try {
-      console.log(chalk.dim('Executing query...'));
-      const result = await this.sqlClient.executeQuery(sql);
+      const connection = await this.buckets.route(sql, name => this.resolveTable(name));
+
+      // Catch unsupported syntax and unknown tables/columns before the round trip
+      const issues = await this.validate(connection, sql);
+      if (issues.length > 0) {
+        console.log(this.formatter.formatValidationIssues(sql, issues));
+        if (issues.some(issue => issue.severity === 'error')) return;
+      }
+
+      // FOR VERSION/TIMESTAMP AS OF is resolved against the table's snapshots first
+      const query = await connection.timeTravel.prepare(sql, name => this.resolveTable(name));
+
+      console.log(chalk.dim(this.buckets.buckets.length > 1
+        ? `Executing query in bucket ${connection.config.bucketName}...`
+        : 'Executing query...'));
+      const result = await connection.sqlClient.executeQuery(query);
 
       if (result.error) {
         console.log(this.formatter.formatError(result.error));
@@ -309,12 +1015,61 @@ ${chalk.yellow('Examples:')}
     }
   }
 
+  // Validation is advisory: if the catalog can't be reached, the query is sent as is
+  private async validate(connection: BucketConnection, sql: string): Promise<ValidationIssue[]> {
+    if (!connection.validator) return [];
+    try {
+      return await connection.validator.validate(sql, name => this.resolveTable(name));
+    } catch {
+      return [];
+    }
+  }
+
+  private async runBucketCommand(command: BucketCommand): Promise<void> {
+    if (command.kind === 'show') {
+      console.log(chalk.green.bold('\nAttached buckets:'));
+      for (const bucket of this.buckets.buckets) {
+        console.log(bucket === this.buckets.defaultBucketName
+          ? chalk.cyan(`  • ${bucket}`) + chalk.dim(' (default)')
+          : chalk.cyan(`  • ${bucket}`));
+      }
+      return;
+    }
+
+    const isNew = !this.buckets.buckets.includes(command.bucket);
+    try {
+      const connection = this.buckets.attach(command.bucket);
+      if (isNew) {
+        // Check the bucket's catalog is reachable before keeping it attached
+        try {
+          await connection.catalogClient.listNamespaces();
+        } catch (error) {
+          this.buckets.detach(command.bucket);
+          throw new Error(`Could not attach bucket ${command.bucket}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+
+      if (command.kind === 'use') {
+        this.buckets.use(command.bucket);
+        this.namespaces = [];
+        this.tables.clear();
+        console.log(chalk.green(`✓ Default bucket is now ${command.bucket} - tables found in several buckets are read from it`));
+      } else {
+        console.log(isNew
+          ? chalk.green(`✓ Attached bucket ${command.bucket}`)
+          : chalk.yellow(`Bucket ${command.bucket} is already attached`));
+      }
+    } catch (error) {
+      console.log(this.formatter.formatError(error instanceof Error ? error.message : String(error)));
+    }
+  }
+
   async start(): Promise<void> {
     this.printBanner();
     console.log(chalk.dim('Type .help for help, .exit to quit\n'));
 
     // Pre-fetch namespaces for autocomplete
-    this.catalogClient.listNamespaces()
+    this.buckets.get().catalogClient.listNamespaces()
       .then(namespaces => {
         this.namespaces = namespaces;
       })
@@ -0,0 +1,134 @@
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  maxRetryAfterMs: number; // Upper bound on how long a server's Retry-After can make us wait
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+  maxRetryAfterMs: 60000,
+};
+
+// Minimal response shape shared by node-fetch and the global fetch
+interface RetryableResponse {
+  status: number;
+  statusText: string;
+  headers: { get(name: string): string | null };
+  text(): Promise<string>;
+}
+
+const RETRYABLE_NETWORK_CODES = ['ECONNRESET', 'ETIMEDOUT', 'ECONNREFUSED', 'EPIPE', 'EAI_AGAIN', 'UND_ERR_SOCKET'];
+
+/**
+ * Retry policy for transient HTTP failures, shared by the R2 SQL and Iceberg catalog clients.
+ * Retries 429, 5xx and network resets with jittered exponential backoff, honoring Retry-After.
+ * Callers decide whether a request is idempotent and therefore safe to retry.
+ */
+export class RetryPolicy {
+  private options: RetryOptions;
+
+  constructor(options?: Partial<RetryOptions>) {
+    this.options = { ...DEFAULT_RETRY_OPTIONS, ...options };
+  }
+
+  async execute<T extends RetryableResponse>(
+    doFetch: () => Promise<T>,
+    context: { label: string; log: (message: string) => void; signal?: AbortSignal; idempotent?: boolean }
+  ): Promise<{ response: T; retries: number }> {
+    const maxRetries = context.idempotent === false ? 0 : this.options.maxRetries;
+    let retries = 0;
+
+    while (true) {
+      const attempt = retries + 1;
+      context.log(`${context.label}: attempt ${attempt}/${maxRetries + 1}`);
+
+      let response: T;
+      try {
+        response = await doFetch();
+      } catch (error) {
+        if (retries >= maxRetries || !this.isRetryableError(error) || context.signal?.aborted) {
+          throw error;
+        }
+        const delay = this.backoffDelay(retries);
+        context.log(`${context.label}: attempt ${attempt} failed (${error instanceof Error ? error.message : String(error)}), retrying in ${delay}ms`);
+        await this.sleep(delay, context.signal);
+        retries++;
+        continue;
+      }
+
+      if (retries >= maxRetries || !this.isRetryableStatus(response.status)) {
+        return { response, retries };
+      }
+
+      const retryAfter = this.parseRetryAfter(response.headers.get('retry-after'));
+      const delay = retryAfter !== null ? Math.min(retryAfter, this.options.maxRetryAfterMs) : this.backoffDelay(retries);
+      context.log(`${context.label}: attempt ${attempt} got ${response.status} ${response.statusText}, retrying in ${delay}ms${retryAfter !== null ? ' (Retry-After)' : ''}`);
+
+      // Drain the body so the connection can be reused
+      await response.text().catch(() => undefined);
+      await this.sleep(delay, context.signal);
+      retries++;
+    }
+  }
+
+  private isRetryableStatus(status: number): boolean {
+    return status === 429 || (status >= 500 && status <= 599);
+  }
+
+  private isRetryableError(error: unknown): boolean {
+    if (!(error instanceof Error) || error.name === 'AbortError') {
+      return false;
+    }
+    const code = (error as any).code || (error as any).errno || (error as any).cause?.code;
+    return RETRYABLE_NETWORK_CODES.includes(code) || /socket hang up/i.test(error.message);
+  }
+
+  private backoffDelay(retries: number): number {
+    // Full jitter: random delay between 0 and the capped exponential backoff
+    const cap = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** retries);
+    return Math.round(Math.random() * cap);
+  }
+
+  private parseRetryAfter(value: string | null): number | null {
+    if (!value) return null;
+
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(value);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+
+    return null;
+  }
+
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(this.abortError());
+        return;
+      }
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(this.abortError());
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private abortError(): Error {
+    const error = new Error('The operation was aborted.');
+    error.name = 'AbortError';
+    return error;
+  }
+}
@@ -0,0 +1,38 @@
+import { IcebergCatalogClient } from './iceberg-client.js';
+import { getSchemaColumns, SchemaColumn } from './iceberg-metadata.js';
+
+/**
+ * Current-schema columns per table, fetched once from the catalog and shared by query validation
+ * and autocompletion
+ */
+export class SchemaCache {
+  private catalogClient: IcebergCatalogClient;
+  private schemas = new Map<string, Map<string, SchemaColumn>>(); // namespace.table -> columns
+
+  constructor(catalogClient: IcebergCatalogClient) {
+    this.catalogClient = catalogClient;
+  }
+
+  /**
+   * The table's columns, or null when its metadata can't be loaded. refresh bypasses the cache.
+   */
+  async getColumns(namespace: string, table: string, refresh: boolean = false): Promise<Map<string, SchemaColumn> | null> {
+    const key = `${namespace}.${table}`;
+    const cached = this.schemas.get(key);
+    if (cached && !refresh) return cached;
+
+    const metadata = await this.catalogClient.getTableMetadata(namespace, table);
+    if (!metadata?.schema) return null;
+
+    const columns = getSchemaColumns(metadata.schema);
+    this.schemas.set(key, columns);
+    return columns;
+  }
+
+  /**
+   * Forget cached schemas, e.g. after the catalog was refreshed
+   */
+  clear(): void {
+    this.schemas.clear();
+  }
+}
@@ -0,0 +1,130 @@
+import chalk from 'chalk';
+import fs from 'fs';
+import { R2SQLClient } from './r2sql-client.js';
+import { ResultFormatter } from './formatter.js';
+import { ScriptErrorMode, StatementResult } from './types.js';
+
+/**
+ * Split a SQL script into individual statements.
+ * Semicolons inside quoted strings, quoted identifiers and comments don't end a statement.
+ * Comments are stripped, and empty statements are dropped.
+ */
+export function splitStatements(script: string): string[] {
+  const statements: string[] = [];
+  let current = '';
+  let i = 0;
+
+  while (i < script.length) {
+    const ch = script[i];
+    const next = script[i + 1];
+
+    // Line comment - skip to end of line
+    if (ch === '-' && next === '-') {
+      while (i < script.length && script[i] !== '\n') i++;
+      continue;
+    }
+
+    // Block comment - skip to closing */
+    if (ch === '/' && next === '*') {
+      const end = script.indexOf('*/', i + 2);
+      i = end === -1 ? script.length : end + 2;
+      current += ' ';
+      continue;
+    }
+
+    // Quoted string or identifier - copy verbatim, doubled quotes are escapes
+    if (ch === '\'' || ch === '"') {
+      let j = i + 1;
+      while (j < script.length) {
+        if (script[j] === ch) {
+          if (script[j + 1] === ch) {
+            j += 2;
+            continue;
+          }
+          break;
+        }
+        j++;
+      }
+      current += script.substring(i, j + 1);
+      i = j + 1;
+      continue;
+    }
+
+    if (ch === ';') {
+      if (current.trim()) statements.push(current.trim());
+      current = '';
+      i++;
+      continue;
+    }
+
+    current += ch;
+    i++;
+  }
+
+  if (current.trim()) statements.push(current.trim());
+
+  return statements;
+}
+
+/**
+ * Runs SQL script files statement by statement and reports on each one. clientFor picks the client
+ * each statement runs with, so with several buckets attached it goes to the one that owns its table.
+ */
+export class ScriptRunner {
+  private clientFor: (sql: string) => Promise<R2SQLClient>;
+  private formatter: ResultFormatter;
+
+  constructor(clientFor: (sql: string) => Promise<R2SQLClient>, formatter: ResultFormatter = new ResultFormatter()) {
+    this.clientFor = clientFor;
+    this.formatter = formatter;
+  }
+
+  async runFile(filePath: string, errorMode: ScriptErrorMode = 'stop'): Promise<StatementResult[]> {
+    const script = fs.readFileSync(filePath, 'utf-8');
+    const statements = splitStatements(script);
+
+    if (statements.length === 0) {
+      console.log(chalk.yellow(`No statements found in ${filePath}`));
+      return [];
+    }
+
+    console.log(chalk.cyan(`Running ${statements.length} statement(s) from ${filePath}\n`));
+
+    const results: StatementResult[] = statements.map((sql, index) => ({ index: index + 1, sql }));
+    for (const entry of results) {
+      console.log(chalk.cyan.bold(`[${entry.index}/${statements.length}] `) + chalk.dim(this.preview(entry.sql)));
+
+      try {
+        const sqlClient = await this.clientFor(entry.sql);
+        entry.result = await sqlClient.executeQuery(entry.sql);
+      } catch (error) {
+        // Finding the statement's bucket failed (e.g. its catalog couldn't be reached)
+        entry.result = { data: [], error: error instanceof Error ? error.message : String(error) };
+      }
+
+      if (entry.result.error) {
+        console.log(this.formatter.formatError(entry.result.error) + '\n');
+        if (errorMode === 'stop') {
+          console.log(chalk.yellow('Stopping script after error (use --continue-on-error to keep going)\n'));
+          break;
+        }
+        continue;
+      }
+
+      console.log(this.formatter.formatTable(entry.result.data));
+      if (entry.result.metadata) {
+        console.log(this.formatter.formatMetadata(entry.result.metadata));
+      }
+      console.log('');
+    }
+
+    console.log(this.formatter.formatScriptSummary(results));
+
+    return results;
+  }
+
+  private preview(sql: string): string {
+    const singleLine = sql.replace(/\s+/g, ' ');
+    return singleLine.length > 80 ? singleLine.substring(0, 77) + '...' : singleLine;
+  }
+}
@@ -0,0 +1,237 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { spawn } from 'child_process';
+
+// API tokens are kept out of config.json: in the OS secret service when there is one, otherwise in a
+// passphrase-encrypted file. config.json records which backend holds each profile's token.
+
+export type SecretBackend = 'secret-service' | 'keychain' | 'encrypted-file';
+
+export const SECRET_BACKENDS: SecretBackend[] = ['secret-service', 'keychain', 'encrypted-file'];
+
+export interface SecretStore {
+  backend: SecretBackend;
+  description: string; // Shown by `status`
+  isAvailable(): Promise<boolean>;
+  get(account: string): Promise<string | null>;
+  set(account: string, secret: string): Promise<void>;
+  delete(account: string): Promise<void>;
+}
+
+// Service name the secrets are filed under in the OS stores
+const SERVICE = 'r2sql-shell';
+
+// A locked keyring may show an unlock dialog; give up if nobody answers it
+const COMMAND_TIMEOUT_MS = 60_000;
+
+interface CommandResult {
+  code: number | null; // null when the command couldn't be started
+  stdout: string;
+  stderr: string;
+}
+
+// Run a command with optional input on stdin (secret-tool and security -i read the secret from there)
+function run(command: string, args: string[], input: string = ''): Promise<CommandResult> {
+  return new Promise(resolve => {
+    const child = spawn(command, args, { stdio: ['pipe', 'pipe', 'pipe'], timeout: COMMAND_TIMEOUT_MS });
+    let stdout = '';
+    let stderr = '';
+    child.stdout.on('data', chunk => { stdout += chunk; });
+    child.stderr.on('data', chunk => { stderr += chunk; });
+    child.on('error', () => resolve({ code: null, stdout, stderr }));
+    child.on('close', code => resolve({ code, stdout, stderr }));
+    child.stdin.on('error', () => { /* The command exited before reading its input */ });
+    child.stdin.end(input);
+  });
+}
+
+/**
+ * libsecret through secret-tool: GNOME Keyring, KWallet and other Secret Service providers on Linux
+ */
+export class SecretServiceStore implements SecretStore {
+  backend: SecretBackend = 'secret-service';
+  description = 'OS secret service (libsecret)';
+
+  async isAvailable(): Promise<boolean> {
+    if (process.platform !== 'linux' || !process.env.DBUS_SESSION_BUS_ADDRESS) {
+      return false;
+    }
+    // A lookup of a missing secret fails too; only a command that can't start means no secret-tool
+    const { code } = await run('secret-tool', ['lookup', 'service', SERVICE, 'account', '']);
+    return code !== null;
+  }
+
+  async get(account: string): Promise<string | null> {
+    const { code, stdout } = await run('secret-tool', ['lookup', 'service', SERVICE, 'account', account]);
+    return code === 0 && stdout ? stdout.replace(/\n$/, '') : null;
+  }
+
+  async set(account: string, secret: string): Promise<void> {
+    const { code, stderr } = await run(
+      'secret-tool', ['store', `--label=${SERVICE} (${account})`, 'service', SERVICE, 'account', account], secret
+    );
+    if (code !== 0) {
+      throw new Error(`secret-tool could not store the token${stderr.trim() ? `: ${stderr.trim()}` : ''}`);
+    }
+  }
+
+  async delete(account: string): Promise<void> {
+    await run('secret-tool', ['clear', 'service', SERVICE, 'account', account]);
+  }
+}
+
+/**
+ * The login keychain on macOS, through the security command
+ */
+export class KeychainStore implements SecretStore {
+  backend: SecretBackend = 'keychain';
+  description = 'macOS Keychain';
+
+  async isAvailable(): Promise<boolean> {
+    return process.platform === 'darwin';
+  }
+
+  async get(account: string): Promise<string | null> {
+    const { code, stdout } = await run('security', ['find-generic-password', '-s', SERVICE, '-a', account, '-w']);
+    return code === 0 && stdout ? stdout.replace(/\n$/, '') : null;
+  }
+
+  async set(account: string, secret: string): Promise<void> {
+    if (/[\r\n]/.test(secret)) {
+      throw new Error('Keychain could not store the token: it contains a line break');
+    }
+    // security -i reads the command from stdin, so the token is never in a process's arguments. Words are
+    // double-quoted, with backslash escapes, as security's command parser expects.
+    const quote = (word: string) => `"${word.replace(/["\\]/g, '\\$&')}"`;
+    const command = ['add-generic-password', '-U', '-s', SERVICE, '-a', account, '-w', secret].map(quote).join(' ');
+    // In interactive mode security exits 0 even when a command fails, so errors show up only on stderr
+    const { code, stderr } = await run('security', ['-i'], `${command}\n`);
+    if (code !== 0 || stderr.trim()) {
+      throw new Error(`Keychain could not store the token${stderr.trim() ? `: ${stderr.trim()}` : ''}`);
+    }
+  }
+
+  async delete(account: string): Promise<void> {
+    await run('security', ['delete-generic-password', '-s', SERVICE, '-a', account]);
+  }
+}
+
+// secrets.enc layout: one scrypt salt for the file, and an AES-256-GCM sealed token per account
+interface EncryptedFile {
+  version: 1;
+  salt: string; // base64
+  secrets: Record<string, { iv: string; tag: string; data: string }>;
+}
+
+/**
+ * Tokens encrypted with a key derived from a passphrase, for systems without an OS secret store.
+ * getPassphrase is asked once per process; isNew is true when the passphrase creates the file.
+ */
+export class EncryptedFileStore implements SecretStore {
+  backend: SecretBackend = 'encrypted-file';
+  description: string;
+  private filePath: string;
+  private getPassphrase: (isNew: boolean) => Promise<string>;
+  private key: Buffer | null = null;
+
+  constructor(filePath: string, getPassphrase: (isNew: boolean) => Promise<string>) {
+    this.filePath = filePath;
+    this.getPassphrase = getPassphrase;
+    this.description = `encrypted file (${filePath})`;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  async get(account: string): Promise<string | null> {
+    const file = this.readFile();
+    const sealed = file?.secrets[account];
+    if (!file || !sealed) return null;
+
+    const key = await this.unlock(file);
+    return this.decrypt(key, sealed);
+  }
+
+  async set(account: string, secret: string): Promise<void> {
+    const file = this.readFile() || { version: 1, salt: crypto.randomBytes(16).toString('base64'), secrets: {} };
+    const key = await this.unlock(file);
+
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    const data = Buffer.concat([cipher.update(secret, 'utf-8'), cipher.final()]);
+    file.secrets[account] = {
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    };
+    this.writeFile(file);
+  }
+
+  async delete(account: string): Promise<void> {
+    const file = this.readFile();
+    if (!file?.secrets[account]) return;
+
+    delete file.secrets[account];
+    if (Object.keys(file.secrets).length === 0) {
+      fs.unlinkSync(this.filePath);
+      this.key = null;
+      return;
+    }
+    this.writeFile(file);
+  }
+
+  private readFile(): EncryptedFile | null {
+    if (!fs.existsSync(this.filePath)) return null;
+    return JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as EncryptedFile;
+  }
+
+  private writeFile(file: EncryptedFile): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true, mode: 0o700 });
+    fs.writeFileSync(this.filePath, JSON.stringify(file, null, 2), { mode: 0o600 });
+  }
+
+  // Derive the file's key from the passphrase, checking it against a stored secret when there is one
+  private async unlock(file: EncryptedFile): Promise<Buffer> {
+    if (this.key) return this.key;
+
+    const existing = Object.values(file.secrets)[0];
+    const passphrase = await this.getPassphrase(!existing);
+    const key = crypto.scryptSync(passphrase, Buffer.from(file.salt, 'base64'), 32);
+    if (existing) {
+      this.decrypt(key, existing);
+    }
+    this.key = key;
+    return key;
+  }
+
+  private decrypt(key: Buffer, sealed: { iv: string; tag: string; data: string }): string {
+    try {
+      const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(sealed.iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(sealed.tag, 'base64'));
+      return Buffer.concat([decipher.update(Buffer.from(sealed.data, 'base64')), decipher.final()]).toString('utf-8');
+    } catch {
+      throw new Error(`Could not decrypt ${this.filePath} - wrong passphrase?`);
+    }
+  }
+}
+
+/**
+ * The store new tokens go to: R2SQL_SHELL_SECRET_STORE if set, else the first available store in order
+ */
+export async function pickSecretStore(stores: SecretStore[]): Promise<SecretStore> {
+  const requested = process.env.R2SQL_SHELL_SECRET_STORE;
+  if (requested) {
+    const store = stores.find(candidate => candidate.backend === requested);
+    if (!store) {
+      throw new Error(`Unknown R2SQL_SHELL_SECRET_STORE '${requested}'. Expected one of: ${SECRET_BACKENDS.join(', ')}`);
+    }
+    return store;
+  }
+
+  for (const store of stores) {
+    if (await store.isAvailable()) return store;
+  }
+  return stores[stores.length - 1];
+}
@@ -0,0 +1,252 @@
+// Lightweight SELECT parsing shared by the scan estimator and EXPLAIN. R2 SQL queries are single-table
+// SELECTs, so clauses are located by keyword at the top level instead of with a full grammar.
+// Offsets are positions in the SQL as passed in.
+
+export interface SelectItem {
+  expression: string;
+  alias: string | null;
+  offset: number;
+}
+
+export interface OrderItem {
+  column: string;
+  descending: boolean;
+  offset: number;
+}
+
+export interface SelectStatement {
+  distinct: boolean;
+  columns: SelectItem[];
+  table: string;
+  tableOffset: number;
+  where: string | null;
+  whereOffset: number;
+  orderBy: OrderItem[];
+  limit: number | null;
+}
+
+export interface UnsupportedFeature {
+  feature: string;
+  offset: number;
+  length: number;
+}
+
+// Clause keywords that end the clause before them
+const CLAUSE_PATTERN = /\b(select|from|where|group\s+by|having|order\s+by|limit|union|intersect|except)\b/gi;
+
+// Constructs R2 SQL does not run, found in the SQL with quoted text masked out. Keep in step with
+// https://developers.cloudflare.com/r2-sql/reference/limitations-best-practices/; the validator only warns
+// about these, since R2 SQL may have added support since.
+const UNSUPPORTED_PATTERNS: Array<{ feature: string; pattern: RegExp }> = [
+  { feature: 'WITH (common table expressions)', pattern: /^\s*with\b/gi },
+  { feature: 'JOIN', pattern: /\b(?:(?:left|right|full|inner|cross|natural)\s+(?:outer\s+)?)?join\b/gi },
+  { feature: 'subqueries', pattern: /\(\s*select\b/gi },
+  { feature: 'GROUP BY', pattern: /\bgroup\s+by\b/gi },
+  { feature: 'HAVING', pattern: /\bhaving\b/gi },
+  { feature: 'aggregate functions', pattern: /\b(?:count|sum|avg|min|max)\s*\(/gi },
+  { feature: 'window functions (OVER)', pattern: /\bover\s*\(/gi },
+  { feature: 'set operations (UNION/INTERSECT/EXCEPT)', pattern: /\b(?:union|intersect|except)\b/gi },
+  { feature: 'SELECT DISTINCT', pattern: /\bselect\s+distinct\b/gi },
+];
+
+/**
+ * Replace -- line comments and /* *\/ block comments with spaces, keeping offsets and line breaks
+ */
+export function blankComments(sql: string): string {
+  let result = '';
+  let quote: string | null = null;
+
+  for (let i = 0; i < sql.length; i++) {
+    const char = sql[i];
+    if (quote) {
+      result += char;
+      if (char === quote) quote = null;
+    } else if (char === "'" || char === '"') {
+      quote = char;
+      result += char;
+    } else if (char === '-' && sql[i + 1] === '-') {
+      const end = sql.indexOf('\n', i);
+      const stop = end === -1 ? sql.length : end;
+      result += ' '.repeat(stop - i);
+      i = stop - 1;
+    } else if (char === '/' && sql[i + 1] === '*') {
+      const end = sql.indexOf('*/', i + 2);
+      const stop = end === -1 ? sql.length : end + 2;
+      result += sql.slice(i, stop).replace(/[^\n]/g, ' ');
+      i = stop - 1;
+    } else {
+      result += char;
+    }
+  }
+  return result;
+}
+
+/**
+ * Blank out comments and quoted strings (and, unless keepParens is set, parenthesized text) while
+ * keeping offsets, so keywords are only found where they matter
+ */
+export function maskNested(sql: string, keepParens: boolean = false): string {
+  sql = blankComments(sql);
+  let masked = '';
+  let quote: string | null = null;
+  let depth = 0;
+
+  for (let i = 0; i < sql.length; i++) {
+    const char = sql[i];
+    const hidden = !keepParens && depth > 0;
+    if (quote) {
+      masked += char === quote ? char : '_';
+      if (char === quote) quote = null;
+    } else if (char === "'" || char === '"') {
+      quote = char;
+      masked += hidden ? '_' : char;
+    } else if (char === '(') {
+      masked += hidden ? '_' : char;
+      depth++;
+    } else if (char === ')') {
+      depth = Math.max(0, depth - 1);
+      masked += !keepParens && depth > 0 ? '_' : char;
+    } else {
+      masked += hidden ? '_' : char;
+    }
+  }
+  return masked;
+}
+
+/**
+ * Split on top-level commas
+ */
+export function splitList(text: string): string[] {
+  const masked = maskNested(text);
+  const parts: string[] = [];
+  let start = 0;
+  for (let i = 0; i < masked.length; i++) {
+    if (masked[i] === ',') {
+      parts.push(text.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start).trim());
+  return parts;
+}
+
+// Split on top-level commas, keeping each part's offset
+function splitListWithOffsets(text: string, base: number): Array<{ text: string; offset: number }> {
+  const masked = maskNested(text);
+  const parts: Array<{ text: string; offset: number }> = [];
+  let start = 0;
+  for (let i = 0; i <= masked.length; i++) {
+    if (i === masked.length || masked[i] === ',') {
+      const raw = text.slice(start, i);
+      const leading = raw.length - raw.trimStart().length;
+      if (raw.trim()) parts.push({ text: raw.trim(), offset: base + start + leading });
+      start = i + 1;
+    }
+  }
+  return parts;
+}
+
+/**
+ * Locate the clauses of a single-table SELECT. Returns null when the statement isn't a SELECT with a FROM.
+ * Comments are left out of the clause texts.
+ */
+export function parseSelect(sql: string): SelectStatement | null {
+  const text = blankComments(sql).replace(/;\s*$/, '');
+  const masked = maskNested(text);
+
+  const clauses: Array<{ keyword: string; start: number; end: number }> = [];
+  for (const match of masked.matchAll(CLAUSE_PATTERN)) {
+    clauses.push({ keyword: match[1].toLowerCase().replace(/\s+/g, ' '), start: match.index!, end: match.index! + match[0].length });
+  }
+
+  const clauseText = (keyword: string): { text: string; offset: number } | null => {
+    const index = clauses.findIndex(clause => clause.keyword === keyword);
+    if (index === -1) return null;
+    const end = index + 1 < clauses.length ? clauses[index + 1].start : text.length;
+    const raw = text.slice(clauses[index].end, end);
+    return { text: raw.trim(), offset: clauses[index].end + (raw.length - raw.trimStart().length) };
+  };
+
+  const select = clauseText('select');
+  const from = clauseText('from');
+  if (!select || !from || !/^\s*select\b/i.test(masked)) return null;
+
+  const distinct = /^distinct\b/i.test(select.text);
+  const selectList = distinct ? select.text.replace(/^distinct\s+/i, '') : select.text;
+  const listOffset = select.offset + (select.text.length - selectList.length);
+  const columns = splitListWithOffsets(selectList, listOffset).map(item => {
+    const alias = item.text.match(/^(.*?)\s+(?:as\s+)?("[^"]+"|[A-Za-z_]\w*)$/is);
+    // A trailing bare word is only an alias when what precedes it is a complete expression
+    const isAlias = alias && !/\b(?:and|or|not|is|in|like|between|case|when|then|else|distinct)$/i.test(alias[1].trim());
+    return {
+      expression: isAlias ? alias[1].trim() : item.text,
+      alias: isAlias ? alias[2].replace(/^"(.*)"$/s, '$1') : null,
+      offset: item.offset,
+    };
+  });
+
+  const table = from.text.split(/[\s,]/)[0];
+  const where = clauseText('where');
+
+  const order = clauseText('order by');
+  const orderBy = order
+    ? splitListWithOffsets(order.text, order.offset).map(item => {
+        const match = item.text.match(/^(.*?)(?:\s+(asc|desc))?(?:\s+nulls\s+(?:first|last))?$/is);
+        return { column: match![1].trim(), descending: match![2]?.toLowerCase() === 'desc', offset: item.offset };
+      })
+    : [];
+
+  const limitMatch = clauseText('limit')?.text.match(/^(\d+)\b/);
+  const limit = limitMatch ? Number(limitMatch[1]) : null;
+
+  return {
+    distinct,
+    columns,
+    table,
+    tableOffset: from.offset,
+    where: where ? where.text : null,
+    whereOffset: where ? where.offset : -1,
+    orderBy,
+    limit,
+  };
+}
+
+/**
+ * Match a column reference against known column names (lowercased, dotted for struct fields). Table-qualified
+ * references (t.col) resolve by their longest known suffix.
+ */
+export function resolveColumnReference(columns: Map<string, unknown>, reference: string): string | null {
+  const parts = reference.replace(/"/g, '').toLowerCase().split('.');
+  for (let i = 0; i < parts.length; i++) {
+    const candidate = parts.slice(i).join('.');
+    if (columns.has(candidate)) return candidate;
+  }
+  return null;
+}
+
+/**
+ * Constructs in the query that R2 SQL does not support, in the order they appear
+ */
+export function findUnsupportedFeatures(sql: string): UnsupportedFeature[] {
+  const masked = maskNested(sql, true);
+  const found: UnsupportedFeature[] = [];
+
+  for (const { feature, pattern } of UNSUPPORTED_PATTERNS) {
+    for (const match of masked.matchAll(pattern)) {
+      const leading = match[0].length - match[0].trimStart().length;
+      found.push({ feature, offset: match.index! + leading, length: match[0].trim().replace(/\($/, '').trimEnd().length });
+    }
+  }
+
+  // FROM a, b is an implicit join
+  const statement = parseSelect(sql);
+  if (statement) {
+    const fromList = maskNested(sql).slice(statement.tableOffset).split(/\b(?:where|group\s+by|having|order\s+by|limit)\b/i)[0];
+    const comma = fromList.indexOf(',');
+    if (comma !== -1) {
+      found.push({ feature: 'multiple tables in FROM (implicit join)', offset: statement.tableOffset + comma, length: 1 });
+    }
+  }
+
+  return found.sort((a, b) => a.offset - b.offset);
+}
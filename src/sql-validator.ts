@@ -0,0 +1,198 @@
+import { IcebergCatalogClient } from './iceberg-client.js';
+import { parseSelect, findUnsupportedFeatures, resolveColumnReference, maskNested, UnsupportedFeature } from './sql-parser.js';
+import { SchemaColumn } from './iceberg-metadata.js';
+import { SchemaCache } from './schema-cache.js';
+
+// Checks a query locally before it is sent to R2 SQL, so unsupported syntax and typos in table or
+// column names are reported with their position instead of after a round trip
+
+export type IssueSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  severity: IssueSeverity; // Errors stop the query; warnings are shown and the query is still sent
+  message: string;
+  offset: number; // Position in the SQL as passed in
+  length: number;
+  line: number; // 1-based
+  column: number; // 1-based
+}
+
+// Words in an expression that are not column references
+const SQL_WORDS = new Set([
+  'and', 'or', 'not', 'is', 'null', 'like', 'ilike', 'in', 'between', 'true', 'false', 'case', 'when', 'then',
+  'else', 'end', 'as', 'asc', 'desc', 'nulls', 'first', 'last', 'distinct', 'interval', 'timestamp', 'date', 'time',
+  'escape', 'similar', 'to', 'from', 'at', 'zone', 'current_date', 'current_time', 'current_timestamp',
+  'year', 'quarter', 'month', 'week', 'day', 'hour', 'minute', 'second', 'millisecond', 'microsecond', 'epoch', 'dow', 'doy',
+  'years', 'quarters', 'months', 'weeks', 'days', 'hours', 'minutes', 'seconds', 'milliseconds', 'microseconds',
+  'with', 'array',
+  // Window clauses
+  'over', 'partition', 'by', 'order', 'rows', 'range', 'unbounded', 'preceding', 'following', 'current', 'row',
+]);
+
+// String literals, identifiers (optionally dotted or quoted) and numbers, in that order of precedence
+const TOKEN_PATTERN = /'(?:[^']|'')*'|((?:"[^"]*"|[A-Za-z_]\w*)(?:\.(?:"[^"]*"|[A-Za-z_]\w*|\*))*)|\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/g;
+
+// Features that bring in other tables, whose columns the validator can't check
+const MULTI_TABLE_FEATURES = [
+  'WITH (common table expressions)', 'JOIN', 'subqueries', 'set operations (UNION/INTERSECT/EXCEPT)',
+  'multiple tables in FROM (implicit join)',
+];
+
+/**
+ * 1-based line and column of an offset
+ */
+export function offsetToPosition(sql: string, offset: number): { line: number; column: number } {
+  const before = sql.slice(0, offset).split('\n');
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+}
+
+// Column references in an expression, with their offsets in the full query
+function findColumnReferences(expression: string, base: number): Array<{ name: string; offset: number }> {
+  const references: Array<{ name: string; offset: number }> = [];
+  let previousWord = '';
+
+  for (const match of expression.matchAll(TOKEN_PATTERN)) {
+    const identifier = match[1];
+    if (!identifier) {
+      previousWord = '';
+      continue;
+    }
+
+    const end = match.index! + identifier.length;
+    const isFunction = /^\s*\(/.test(expression.slice(end));
+    const isTypeOrAlias = previousWord === 'as' || /::\s*$/.test(expression.slice(0, match.index));
+    const lower = identifier.toLowerCase();
+
+    if (!isFunction && !isTypeOrAlias && !SQL_WORDS.has(lower) && !identifier.endsWith('*')) {
+      references.push({ name: identifier, offset: base + match.index! });
+    }
+    previousWord = lower;
+  }
+  return references;
+}
+
+// Parts of the query inside unsupported constructs: the whole query for multi-table features, else the
+// parenthesized arguments after the keyword (aggregates, OVER (...)). Column problems there are only warnings.
+function unsupportedSpans(sql: string, features: UnsupportedFeature[]): Array<{ start: number; end: number }> {
+  const masked = maskNested(sql, true);
+  return features.map(feature => {
+    if (MULTI_TABLE_FEATURES.includes(feature.feature)) {
+      return { start: 0, end: sql.length };
+    }
+
+    const open = masked.slice(feature.offset + feature.length).match(/^\s*\(/);
+    if (!open) {
+      return { start: feature.offset, end: feature.offset + feature.length };
+    }
+    let depth = 0;
+    for (let i = feature.offset + feature.length + open[0].length - 1; i < masked.length; i++) {
+      if (masked[i] === '(') depth++;
+      if (masked[i] === ')' && --depth === 0) return { start: feature.offset, end: i + 1 };
+    }
+    return { start: feature.offset, end: sql.length };
+  });
+}
+
+/**
+ * Validates SELECT statements against R2 SQL's supported syntax and the catalog
+ */
+export class QueryValidator {
+  private catalogClient: IcebergCatalogClient;
+  private schemaCache: SchemaCache;
+
+  constructor(catalogClient: IcebergCatalogClient, schemaCache: SchemaCache) {
+    this.catalogClient = catalogClient;
+    this.schemaCache = schemaCache;
+  }
+
+  /**
+   * Problems with the query, in the order they appear. Statements other than SELECT are left to R2 SQL.
+   */
+  async validate(
+    sql: string,
+    resolveTable: (name: string) => Promise<{ namespace: string; table: string } | null>
+  ): Promise<ValidationIssue[]> {
+    if (!/^\s*(select|with)\b/i.test(sql)) return [];
+
+    // The feature list can lag behind R2 SQL, so those findings are warnings and R2 SQL has the final say
+    const issues: Array<Omit<ValidationIssue, 'line' | 'column'>> = [];
+    const features = findUnsupportedFeatures(sql);
+    for (const feature of features) {
+      issues.push({
+        severity: 'warning',
+        message: `R2 SQL may not support ${feature.feature}`,
+        offset: feature.offset,
+        length: feature.length,
+      });
+    }
+
+    const statement = parseSelect(sql);
+    if (!statement) {
+      if (issues.length === 0) {
+        const start = sql.length - sql.trimStart().length;
+        issues.push({ severity: 'warning', message: 'Expected SELECT <columns> FROM <table>', offset: start, length: sql.trim().length });
+      }
+      return this.withPositions(sql, issues);
+    }
+
+    let columns = await this.getColumns(statement.table, resolveTable);
+    if (columns === null) {
+      issues.push({ severity: 'error', message: `Unknown table ${statement.table}`, offset: statement.tableOffset, length: statement.table.length });
+    } else if (columns) {
+      const aliases = new Set(statement.columns.filter(item => item.alias).map(item => item.alias!.toLowerCase()));
+      const references = [
+        ...statement.columns.flatMap(item => findColumnReferences(item.expression, item.offset)),
+        ...(statement.where ? findColumnReferences(statement.where, statement.whereOffset) : []),
+        // ORDER BY may also name a SELECT alias
+        ...statement.orderBy.flatMap(item => findColumnReferences(item.column, item.offset))
+          .filter(reference => !aliases.has(reference.name.replace(/"/g, '').toLowerCase())),
+      ];
+
+      let unknown = references.filter(reference => !resolveColumnReference(columns!, reference.name));
+      if (unknown.length > 0) {
+        // The cached schema may predate a schema change - check the latest before reporting
+        columns = await this.getColumns(statement.table, resolveTable, true);
+        unknown = columns ? unknown.filter(reference => !resolveColumnReference(columns!, reference.name)) : [];
+      }
+      const spans = unsupportedSpans(sql, features);
+      for (const reference of unknown) {
+        const inUnsupported = spans.some(span => reference.offset >= span.start && reference.offset < span.end);
+        issues.push({
+          severity: inUnsupported ? 'warning' : 'error',
+          message: `Unknown column ${reference.name} in ${statement.table}`,
+          offset: reference.offset,
+          length: reference.name.length,
+        });
+      }
+    }
+
+    return this.withPositions(sql, issues.sort((a, b) => a.offset - b.offset));
+  }
+
+  private withPositions(sql: string, issues: Array<Omit<ValidationIssue, 'line' | 'column'>>): ValidationIssue[] {
+    return issues.map(issue => ({ ...issue, ...offsetToPosition(sql, issue.offset) }));
+  }
+
+  // The table's columns; null when the table doesn't exist, undefined when that can't be determined
+  private async getColumns(
+    name: string,
+    resolveTable: (name: string) => Promise<{ namespace: string; table: string } | null>,
+    refresh: boolean = false
+  ): Promise<Map<string, SchemaColumn> | null | undefined> {
+    const resolved = await resolveTable(name.replace(/"/g, ''));
+    if (!resolved) return undefined;
+
+    const columns = await this.schemaCache.getColumns(resolved.namespace, resolved.table, refresh);
+    if (columns) return columns;
+
+    // getTableMetadata doesn't say why it failed; only report the table as unknown if the namespace listing confirms it
+    try {
+      for await (const table of this.catalogClient.iterateTables(resolved.namespace)) {
+        if (table === resolved.table) return undefined;
+      }
+    } catch (error) {
+      if (!/\b404\b/.test(error instanceof Error ? error.message : String(error))) return undefined;
+    }
+    return null;
+  }
+}
@@ -0,0 +1,129 @@
+import { getSnapshotRows, getRefRows, isAncestorOf, SnapshotRow } from './iceberg-metadata.js';
+import { parseTimestamp } from './time-travel.js';
+
+// Snapshot maintenance: ROLLBACK TABLE and EXPIRE SNAPSHOTS. Plans are computed from table
+// metadata so they can be previewed before the catalog commit.
+
+export interface RollbackStatement {
+  table: string;
+  snapshotId: string;
+}
+
+export interface ExpireStatement {
+  table: string;
+  olderThanMs: number;
+  retainLast: number;
+}
+
+export interface RollbackPlan {
+  currentId: string;
+  targetId: string;
+  target: SnapshotRow;
+  rolledBack: SnapshotRow[]; // Snapshots on main after the target, newest first
+}
+
+export interface ExpirePlan {
+  currentId: string | null;
+  expired: SnapshotRow[];
+  keptByRefs: number; // Old snapshots kept because a branch or tag needs them
+}
+
+/**
+ * Parse ROLLBACK TABLE <table> TO SNAPSHOT <id>. Returns null for other statements.
+ */
+export function parseRollback(sql: string): RollbackStatement | null {
+  const match = sql.trim().replace(/;\s*$/, '').match(/^rollback\s+table\s+(\S+)\s+to\s+snapshot\s+(\S+)$/i);
+  if (!match) return null;
+  if (!/^\d+$/.test(match[2])) {
+    throw new Error(`Snapshot id must be a number: ${match[2]}`);
+  }
+  return { table: match[1], snapshotId: match[2] };
+}
+
+/**
+ * Parse EXPIRE SNAPSHOTS <table> OLDER THAN '<timestamp>' [RETAIN LAST <n>]. Returns null for other statements.
+ */
+export function parseExpire(sql: string): ExpireStatement | null {
+  const match = sql.trim().replace(/;\s*$/, '')
+    .match(/^expire\s+snapshots\s+(\S+)\s+older\s+than\s+('(?:[^']|'')*'|\S+)(?:\s+retain\s+last\s+(\d+))?$/i);
+  if (!match) return null;
+
+  const olderThanMs = parseTimestamp(match[2].replace(/^'(.*)'$/s, '$1'));
+  if (olderThanMs === null) {
+    throw new Error(`Could not parse timestamp: ${match[2]}. Use e.g. '2024-05-01 12:00:00' (UTC) or an ISO 8601 timestamp`);
+  }
+
+  const retainLast = match[3] !== undefined ? Number(match[3]) : 1;
+  if (retainLast < 1) {
+    throw new Error('RETAIN LAST must keep at least 1 snapshot');
+  }
+  return { table: match[1], olderThanMs, retainLast };
+}
+
+/**
+ * Roll main back to one of its ancestors. Throws when the target can't be rolled back to.
+ */
+export function planRollback(metadata: any, snapshotId: string): RollbackPlan {
+  const rows = getSnapshotRows(metadata);
+  const byId = new Map(rows.map(row => [row.snapshotId, row]));
+  const currentId = getRefRows(metadata).find(ref => ref.isMain)?.snapshotId
+    ?? (metadata?.['current-snapshot-id'] !== undefined ? String(metadata['current-snapshot-id']) : '');
+
+  const target = byId.get(snapshotId);
+  if (!target) {
+    throw new Error(`Snapshot ${snapshotId} does not exist`);
+  }
+  // -1 is how v1 writers spell "no snapshot"; main can't be asserted at a snapshot it doesn't have
+  if (!currentId || currentId === '-1' || currentId === 'null') {
+    throw new Error('The table has no current snapshot, so there is nothing to roll back');
+  }
+  if (snapshotId === currentId) {
+    throw new Error(`Snapshot ${snapshotId} is already the current snapshot`);
+  }
+  if (!isAncestorOf(metadata, snapshotId, currentId)) {
+    throw new Error(`Snapshot ${snapshotId} is not an ancestor of the current snapshot ${currentId}, so main can't be rolled back to it`);
+  }
+
+  // Walk back from the current snapshot to the target
+  const rolledBack: SnapshotRow[] = [];
+  let id: string | null = currentId;
+  while (id && id !== snapshotId) {
+    const row = byId.get(id);
+    if (!row) break;
+    rolledBack.push(row);
+    id = row.parentId;
+  }
+
+  return { currentId, targetId: snapshotId, target, rolledBack };
+}
+
+/**
+ * Snapshots older than the cutoff, except those that refs point at and the last retainLast
+ * snapshots in every branch's history
+ */
+export function planExpireSnapshots(metadata: any, olderThanMs: number, retainLast: number): ExpirePlan {
+  const rows = getSnapshotRows(metadata);
+  const byId = new Map(rows.map(row => [row.snapshotId, row]));
+  const currentId = metadata?.['current-snapshot-id'] !== undefined ? String(metadata['current-snapshot-id']) : null;
+
+  const keep = new Set<string>();
+  if (currentId) keep.add(currentId);
+  for (const ref of getRefRows(metadata)) {
+    keep.add(ref.snapshotId);
+    if (ref.type !== 'branch') continue;
+
+    // Branch retention: its last N snapshots stay regardless of age
+    let id: string | null = ref.snapshotId;
+    for (let i = 0; i < Math.max(retainLast, ref.minSnapshotsToKeep ?? 0) && id; i++) {
+      keep.add(id);
+      id = byId.get(id)?.parentId ?? null;
+    }
+  }
+
+  const old = rows.filter(row => row.timestampMs < olderThanMs);
+  const expired = old
+    .filter(row => !keep.has(row.snapshotId))
+    .sort((a, b) => a.timestampMs - b.timestampMs);
+
+  return { currentId, expired, keptByRefs: old.length - expired.length };
+}
@@ -0,0 +1,161 @@
+import { IcebergCatalogClient } from './iceberg-client.js';
+import { formatTimestampMs } from './iceberg-metadata.js';
+
+// FOR VERSION AS OF <snapshot-id> / FOR TIMESTAMP AS OF '<timestamp>' on the table in FROM
+// (Spark's SYSTEM_VERSION / SYSTEM_TIME spellings are accepted too)
+const TIME_TRAVEL_PATTERN = /(\bfrom\s+)([^\s;]+)\s+for\s+(version|timestamp|system_version|system_time)\s+as\s+of\s+('(?:[^']|'')*'|[^\s;]+)/i;
+
+// How many snapshots to list when a time travel target can't be served
+const MAX_LISTED_SNAPSHOTS = 10;
+
+export type TimeTravelClause =
+  | { kind: 'version'; snapshotId: string }
+  | { kind: 'timestamp'; timestampMs: number };
+
+export interface TimeTravelQuery {
+  table: string; // Table reference as written in FROM
+  clause: TimeTravelClause;
+  sql: string; // The query with the time travel clause removed
+}
+
+interface SnapshotLogEntry {
+  snapshotId: string;
+  timestampMs: number;
+}
+
+/**
+ * Find a time travel clause in a query. Returns null when there is none; throws on an unreadable timestamp.
+ */
+export function parseTimeTravel(sql: string): TimeTravelQuery | null {
+  const match = sql.match(TIME_TRAVEL_PATTERN);
+  if (!match) return null;
+
+  const value = match[4].replace(/^'(.*)'$/s, '$1').replace(/''/g, "'");
+  let clause: TimeTravelClause;
+
+  if (match[3].toLowerCase().endsWith('version')) {
+    if (!/^\d+$/.test(value)) {
+      throw new Error(`Snapshot id must be a number: ${value}`);
+    }
+    clause = { kind: 'version', snapshotId: value };
+  } else {
+    const timestampMs = parseTimestamp(value);
+    if (timestampMs === null) {
+      throw new Error(`Could not parse timestamp: ${value}. Use e.g. '2024-05-01 12:00:00' (UTC) or an ISO 8601 timestamp`);
+    }
+    clause = { kind: 'timestamp', timestampMs };
+  }
+
+  return {
+    table: match[2],
+    clause,
+    sql: sql.replace(TIME_TRAVEL_PATTERN, '$1$2'),
+  };
+}
+
+/**
+ * Timestamps without a zone are read as UTC; bare integers are epoch milliseconds
+ */
+export function parseTimestamp(value: string): number | null {
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) return Number(trimmed);
+
+  let iso = trimmed.replace(/^(\d{4}-\d{2}-\d{2})\s+/, '$1T');
+  if (/T\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/.test(iso)) iso += 'Z';
+  const ms = Date.parse(iso);
+  return Number.isNaN(ms) ? null : ms;
+}
+
+/**
+ * The table's snapshot log (which snapshot was current when), oldest first.
+ * Falls back to the snapshot list for catalogs that don't return snapshot-log.
+ */
+export function getSnapshotLog(metadata: any): SnapshotLogEntry[] {
+  const log: any[] = metadata?.['snapshot-log']?.length ? metadata['snapshot-log'] : metadata?.snapshots || [];
+  return log
+    .map(entry => ({ snapshotId: String(entry['snapshot-id']), timestampMs: Number(entry['timestamp-ms']) || 0 }))
+    .sort((a, b) => a.timestampMs - b.timestampMs);
+}
+
+/**
+ * Resolve a clause to a snapshot id: the snapshot itself for VERSION AS OF, or the snapshot that was
+ * current at that moment for TIMESTAMP AS OF. Returns null when no snapshot matches.
+ */
+export function resolveSnapshotId(metadata: any, clause: TimeTravelClause): string | null {
+  if (clause.kind === 'version') {
+    const exists = (metadata?.snapshots || []).some((snapshot: any) => String(snapshot['snapshot-id']) === clause.snapshotId);
+    return exists ? clause.snapshotId : null;
+  }
+
+  let resolved: string | null = null;
+  for (const entry of getSnapshotLog(metadata)) {
+    if (entry.timestampMs > clause.timestampMs) break;
+    resolved = entry.snapshotId;
+  }
+  return resolved;
+}
+
+/**
+ * Rewrites time travel queries into something R2 SQL can run. R2 SQL always reads the current
+ * snapshot, so a query is forwarded (without the clause) only when it targets that snapshot;
+ * otherwise it's rejected with the snapshots that are available.
+ */
+export class TimeTravelResolver {
+  private catalogClient: IcebergCatalogClient;
+
+  constructor(catalogClient: IcebergCatalogClient) {
+    this.catalogClient = catalogClient;
+  }
+
+  /**
+   * Returns the SQL to send to R2 SQL. Throws with an explanation when the query can't be served.
+   */
+  async prepare(
+    sql: string,
+    resolveTable: (name: string) => Promise<{ namespace: string; table: string } | null>
+  ): Promise<string> {
+    const query = parseTimeTravel(sql);
+    if (!query) return sql;
+
+    const resolved = await resolveTable(query.table);
+    const metadata = resolved
+      ? (await this.catalogClient.getTableMetadata(resolved.namespace, resolved.table))?.fullMetadata
+      : null;
+    if (!metadata) {
+      throw new Error(`Could not load snapshots for ${query.table}`);
+    }
+
+    const snapshotId = resolveSnapshotId(metadata, query.clause);
+    const currentId = metadata['current-snapshot-id'] !== undefined ? String(metadata['current-snapshot-id']) : null;
+    const snapshots = this.describeSnapshots(metadata, currentId);
+
+    if (snapshotId === null) {
+      const target = query.clause.kind === 'version'
+        ? `Snapshot ${query.clause.snapshotId} does not exist in ${query.table}`
+        : `${query.table} has no snapshot as of ${formatTimestampMs(query.clause.timestampMs)}`;
+      throw new Error(`${target}.\n${snapshots}`);
+    }
+
+    if (snapshotId !== currentId) {
+      const target = query.clause.kind === 'version'
+        ? `Snapshot ${snapshotId} is not the current snapshot`
+        : `${formatTimestampMs(query.clause.timestampMs)} resolves to snapshot ${snapshotId}`;
+      throw new Error(`${target}, and R2 SQL can only query the current snapshot (${currentId}).\n${snapshots}`);
+    }
+
+    return query.sql;
+  }
+
+  private describeSnapshots(metadata: any, currentId: string | null): string {
+    const log = getSnapshotLog(metadata);
+    if (log.length === 0) {
+      return 'The table has no snapshots.';
+    }
+
+    const lines = log.slice(-MAX_LISTED_SNAPSHOTS).reverse().map(entry =>
+      `  ${entry.snapshotId}  ${formatTimestampMs(entry.timestampMs)}${entry.snapshotId === currentId ? '  (current)' : ''}`
+    );
+    const more = log.length > MAX_LISTED_SNAPSHOTS ? `\n  ... and ${log.length - MAX_LISTED_SNAPSHOTS} older` : '';
+    return `Valid snapshots (newest first):\n${lines.join('\n')}${more}`;
+  }
+}
@@ -32,19 +32,72 @@ try {
 
 import { R2SQLClient } from './r2sql-client.js';
 import { IcebergCatalogClient } from './iceberg-client.js';
-import { R2SQLConfig } from './types.js';
+import { R2SQLConfig, QueryExecution, NamespaceNode, RefType } from './types.js';
+import {
+  getSnapshotRows, sortSnapshotRows, formatTimestampMs, SnapshotSortKey, SNAPSHOT_SORT_KEYS, getPartitionSpecs, getSortOrders,
+  getSchemaHistory, SchemaChangeKind, getTableDetails, TableDetails, getRefRows, formatDurationMs, SnapshotRow,
+  formatBytes, getTableDetailSections,
+} from './iceberg-metadata.js';
+import { parseCreateTable, buildCreateTableRequest } from './ddl.js';
+import { TimeTravelResolver } from './time-travel.js';
+import { parseRollback, parseExpire, planRollback, planExpireSnapshots } from './table-maintenance.js';
+import { R2StorageClient } from './r2-storage-client.js';
+import {
+  DataFileExplorer, DataFileInfo, PartitionFilter, parseShowFiles, filterDataFiles, summarizePartitions, getSmallFileThreshold,
+} from './data-files.js';
+import { QueryCostEstimator, CostEstimate } from './cost-estimator.js';
+import { QueryPlanner, PlanNode } from './query-plan.js';
+import { QueryValidator, ValidationIssue } from './sql-validator.js';
+import { SchemaCache } from './schema-cache.js';
+import { Completion, getCompletionContext, completeFromSchema } from './completion.js';
+import { AuthService } from './auth-service.js';
+import { loadConfig } from './config.js';
+import { BucketSession, BucketClients, BucketCommand, parseBucketCommand } from './bucket-session.js';
 import { format } from 'sql-formatter';
 import fs from 'fs';
 import path from 'path';
 
 type Mode = 'navigation' | 'insert' | 'visual';
 type ActiveTab = 'query' | 'history' | 'favorites';
+type DisplayMode = 'data' | 'schema' | 'headers' | 'metadata' | 'snapshots' | 'refs' | 'partitions' | 'schema-history';
+
+// Order of the results views when cycling with 'v'
+const DISPLAY_MODES: DisplayMode[] = ['data', 'schema', 'headers', 'metadata', 'snapshots', 'refs', 'partitions', 'schema-history'];
+
+// Sidebar placeholder shown below a namespace that has more tables to load
+const MORE_TABLES_LABEL = '└─ … load more';
+
+// One row of the sidebar tree; namespace is always the full dotted name ('' for a bucket)
+interface SidebarEntry {
+  type: 'bucket' | 'namespace' | 'table' | 'more';
+  bucket: string;
+  namespace: string;
+  name: string;
+  depth: number;
+  expanded?: boolean;
+}
+
+// The clients for one attached bucket, the helpers built on them, and what the sidebar has loaded from it
+interface BucketConnection extends BucketClients {
+  timeTravel: TimeTravelResolver;
+  fileExplorer: DataFileExplorer;
+  costEstimator: QueryCostEstimator;
+  planner: QueryPlanner;
+  schemaCache: SchemaCache;
+  validator: QueryValidator | null; // null with --no-validate
+  namespaces: Map<string, string[]>; // Namespace -> tables loaded so far
+  childNamespaces: Map<string, string[]>; // Namespace -> child namespaces; '' lists the top level
+  tablePageTokens: Map<string, string>; // Namespaces with more tables to load
+  loadingMoreTables: Set<string>;
+}
 
 export class R2SQLTUI {
   private screen: any;
-  private sqlClient: R2SQLClient;
-  private catalogClient: IcebergCatalogClient;
-  private config: R2SQLConfig;
+  private buckets!: BucketSession<BucketConnection>;
+  private validateQueries: boolean; // false with --no-validate
+  private maxEstimatedBytes: number | undefined; // Queries estimated above this need confirmation
+  private queryTimeoutOverride: number | undefined; // --timeout, kept when switching profiles
+  private config!: R2SQLConfig;
   private executeOnStart: string | undefined;
   private historyEnabled: boolean;
 
@@ -59,14 +112,17 @@ export class R2SQLTUI {
   private r2sqlArtBox: any;
   private artAnimationInterval: NodeJS.Timeout | null = null;
   private artColorIndex: number = 0;
+  private runningQuery: QueryExecution | null = null;
 
   // State
   private mode: Mode = 'navigation';
   private activeTab: ActiveTab = 'query';
-  private namespaces: Map<string, string[]> = new Map();
+  private sidebarEntries: SidebarEntry[] = [];
   private queryHistory: string[] = [];
   private currentNamespace: string | null = null;
+  private sidebarPageSize: number = 100;
   private autocompleteVisible: boolean = false;
+  private autocompleteCompletions: Completion[] = []; // Items currently listed in the autocomplete box
   private autocompleteTimeout: NodeJS.Timeout | null = null;
   private isMac: boolean = process.platform === 'darwin';
   private resultsViewMode: 'table' | 'list' = 'list'; // Default to list view
@@ -75,7 +131,9 @@ export class R2SQLTUI {
   private lastResultSchema: any = null;
   private lastResponseHeaders: any = null;
   private lastTableMetadata: any = null; // Iceberg table metadata
-  private resultsDisplayMode: 'data' | 'schema' | 'headers' | 'metadata' = 'data';
+  private resultsDisplayMode: DisplayMode = 'data';
+  private snapshotSortKey: SnapshotSortKey = 'timestamp';
+  private snapshotSortDescending: boolean = true;
   private searchActive: boolean = false;
   private searchTerm: string = '';
   private searchBox: any;
@@ -88,10 +146,17 @@ export class R2SQLTUI {
     'ASC', 'DESC',
   ];
 
-  constructor(config: R2SQLConfig, options?: { executeOnStart?: string; historyEnabled?: boolean }) {
-    this.config = config;
-    this.sqlClient = new R2SQLClient(config);
-    this.catalogClient = new IcebergCatalogClient(config);
+  constructor(config: R2SQLConfig, options?: {
+    executeOnStart?: string;
+    historyEnabled?: boolean;
+    maxEstimatedBytes?: number;
+    validate?: boolean;
+    queryTimeout?: number;
+  }) {
+    this.validateQueries = options?.validate !== false;
+    this.queryTimeoutOverride = options?.queryTimeout;
+    this.createClients(config);
+    this.maxEstimatedBytes = options?.maxEstimatedBytes;
     this.executeOnStart = options?.executeOnStart;
     this.historyEnabled = options?.historyEnabled || false;
 
@@ -107,11 +172,43 @@ export class R2SQLTUI {
     this.showLoadingScreen();
   }
 
+  /**
+   * Attach the configuration's buckets. Called again when switching profiles, so nothing may keep its
+   * own reference to a client.
+   */
+  private createClients(config: R2SQLConfig) {
+    this.config = config;
+    this.buckets = new BucketSession(config, bucketConfig => this.connect(bucketConfig));
+  }
+
+  private connect(config: R2SQLConfig): BucketConnection {
+    const sqlClient = new R2SQLClient(config);
+    const catalogClient = new IcebergCatalogClient(config);
+    const fileExplorer = new DataFileExplorer(new R2StorageClient(config));
+    const schemaCache = new SchemaCache(catalogClient);
+
+    return {
+      config,
+      sqlClient,
+      catalogClient,
+      fileExplorer,
+      schemaCache,
+      timeTravel: new TimeTravelResolver(catalogClient),
+      costEstimator: new QueryCostEstimator(catalogClient, fileExplorer),
+      planner: new QueryPlanner(sqlClient, catalogClient, fileExplorer),
+      validator: this.validateQueries ? new QueryValidator(catalogClient, schemaCache) : null,
+      namespaces: new Map(),
+      childNamespaces: new Map(),
+      tablePageTokens: new Map(),
+      loadingMoreTables: new Set(),
+    };
+  }
+
   private setupUI() {
     // Sidebar (left panel)
     this.sidebar = blessed.list({
       parent: this.screen,
-      label: ' Schemas ',
+      label: this.sidebarLabel(),
       tags: true,
       top: 0,
       left: 0,
@@ -173,11 +270,12 @@ export class R2SQLTUI {
       editor: null, // Disable built-in editor to prevent Ctrl+E from opening it
     });
 
-    // Tab key - just prevent default tab insertion
-    // Autocomplete has been disabled due to reliability issues
-    // Use the sidebar to select and insert tables instead
+    // Tab - suggest keywords, tables and, once the table is known, its columns
     this.queryEditor.key(['tab'], () => {
-      return false; // Prevent tab insertion
+      // The textarea has already inserted the tab character
+      this.queryEditor.setValue(this.queryEditor.getValue().replace(/\t$/, ''));
+      this.showAutocomplete();
+      return false;
     });
 
     // Autocomplete box (hidden by default)
@@ -198,11 +296,18 @@ export class R2SQLTUI {
       vi: true,
       mouse: false, // Disable mouse to prevent escape sequences
       hidden: true,
+      tags: true,
       label: ' Autocomplete ',
     });
 
-    this.autocompleteBox.on('select', (item: any) => {
-      const text = this.getItemText(item);
+    // Lazily load the next page of tables when scrolling to the end of an expanded namespace
+    this.sidebar.on('select item', (_item: any, index: number) => {
+      this.maybeLoadMoreTables(index);
+    });
+
+    this.autocompleteBox.on('select', (item: any, index: number) => {
+      // Items may carry a type hint; insert only the completion itself
+      const text = this.autocompleteCompletions[index]?.text ?? this.getItemText(item);
       this.insertAutocomplete(text);
     });
 
@@ -383,8 +488,13 @@ export class R2SQLTUI {
       return;
     });
 
-    // Ctrl+C or 'q' in navigation mode - quit the application
-    this.screen.key(['C-c', 'q'], () => {
+    // Ctrl+C while a query is executing - cancel it (in any mode)
+    // Otherwise Ctrl+C or 'q' in navigation mode - quit the application
+    this.screen.key(['C-c', 'q'], (ch: string, key: any) => {
+      if (key.full === 'C-c' && this.runningQuery) {
+        this.runningQuery.cancel();
+        return;
+      }
       if (this.mode === 'navigation') {
         return this.quit();
       }
@@ -518,9 +628,29 @@ export class R2SQLTUI {
       }
     });
 
+    // Catalog actions (create/drop/rename) for the selected sidebar entry
+    this.screen.key(['a'], () => {
+      if (this.mode === 'navigation' && this.screen.focused === this.sidebar) {
+        this.showSidebarActions();
+      }
+    });
+
+    // Data file explorer for the selected table
+    this.screen.key(['f'], () => {
+      const entry = this.sidebarEntries[this.sidebar.selected];
+      if (this.mode === 'navigation' && this.screen.focused === this.sidebar && entry?.type === 'table') {
+        this.exploreDataFiles(entry.bucket, entry.namespace, entry.name);
+      }
+    });
+
     // Refresh
     this.screen.key(['r', 'R'], () => {
       if (this.mode === 'navigation') {
+        this.buckets.all().forEach(connection => {
+          connection.schemaCache.clear();
+          connection.fileExplorer.clear();
+        });
+        this.buckets.clearOwners();
         this.loadNamespacesAndTables();
       }
     });
@@ -537,25 +667,32 @@ export class R2SQLTUI {
       }
     });
 
-    // Toggle results display mode (data/schema/headers/metadata)
+    // Toggle results display mode (data/schema/headers/metadata/snapshots/refs/partitions/schema-history)
     this.screen.key(['v'], () => {
       if (this.mode === 'navigation') {
         // Cycle through display modes
-        if (this.resultsDisplayMode === 'data') {
-          this.resultsDisplayMode = 'schema';
-        } else if (this.resultsDisplayMode === 'schema') {
-          this.resultsDisplayMode = 'headers';
-        } else if (this.resultsDisplayMode === 'headers') {
-          this.resultsDisplayMode = 'metadata';
-        } else {
-          this.resultsDisplayMode = 'data';
-        }
+        const next = (DISPLAY_MODES.indexOf(this.resultsDisplayMode) + 1) % DISPLAY_MODES.length;
+        this.resultsDisplayMode = DISPLAY_MODES[next];
         // Re-render with new display mode
         this.displayResults(this.lastResultData, this.lastResultMetadata);
         this.screen.render();
       }
     });
 
+    // Snapshots view: 's' cycles the sort column, 'S' flips the sort direction
+    this.screen.key(['s', 'S'], (ch: string) => {
+      if (this.mode === 'navigation' && this.resultsDisplayMode === 'snapshots') {
+        if (ch === 'S') {
+          this.snapshotSortDescending = !this.snapshotSortDescending;
+        } else {
+          const next = (SNAPSHOT_SORT_KEYS.indexOf(this.snapshotSortKey) + 1) % SNAPSHOT_SORT_KEYS.length;
+          this.snapshotSortKey = SNAPSHOT_SORT_KEYS[next];
+        }
+        this.displaySnapshots();
+        this.screen.render();
+      }
+    });
+
     // Copy results as JSON
     this.screen.key(['c'], () => {
       if (this.mode === 'navigation') {
@@ -601,10 +738,121 @@ export class R2SQLTUI {
       }
     });
 
+    // Switch profile
+    this.screen.key(['p'], () => {
+      if (this.mode === 'navigation') {
+        this.showProfileSwitcher();
+      }
+    });
+
     // Help
     this.screen.key(['?'], () => this.showHelp());
   }
 
+  // Sidebar title, naming the profile when one is in use
+  private sidebarLabel(status: string = ''): string {
+    const profile = this.config.profile ? `{gray-fg}[${blessed.escape(this.config.profile)}]{/} ` : '';
+    return ` Schemas ${profile}${status}`;
+  }
+
+  private showProfileSwitcher() {
+    const profiles = AuthService.listProfiles();
+    if (profiles.length === 0) {
+      this.showError('No stored profiles. Run `r2sql-shell login --profile <name>` to create one.');
+      return;
+    }
+
+    const items = profiles.map(profile => {
+      const marker = profile.name === this.config.profile ? '{green-fg}●{/}' : ' ';
+      const details = [profile.accountId, profile.bucketName].filter(Boolean).join(' / ');
+      return `${marker} ${blessed.escape(profile.name)}${details ? ` {gray-fg}${blessed.escape(details)}{/}` : ''}`;
+    });
+    const width = Math.max(40, ...profiles.map(profile =>
+      profile.name.length + [profile.accountId, profile.bucketName].filter(Boolean).join(' / ').length + 8));
+
+    const menu = blessed.list({
+      parent: this.screen,
+      label: ' Switch profile ',
+      top: 'center',
+      left: 'center',
+      width: Math.min(width, 100),
+      height: Math.min(profiles.length + 2, 20),
+      border: { type: 'line' },
+      tags: true,
+      style: {
+        fg: 'white',
+        bg: 'black',
+        border: { fg: '#F38020' },
+        selected: { bg: '#C85000', fg: 'white', bold: true },
+        label: { fg: '#F38020', bold: true },
+      },
+      keys: true,
+      vi: true,
+      mouse: false, // Disable mouse to prevent escape sequences
+      items,
+    });
+    menu.select(Math.max(0, profiles.findIndex(profile => profile.name === this.config.profile)));
+
+    const close = () => {
+      menu.destroy();
+      this.setMode('navigation');
+      this.sidebar.focus();
+      this.screen.render();
+    };
+
+    menu.on('select', (_item: any, index: number) => {
+      close();
+      this.switchProfile(profiles[index].name);
+    });
+    menu.key(['escape', 'q'], close);
+
+    // Insert mode keeps the global navigation keys (x, q, v, ...) away from the menu
+    this.setMode('insert');
+    menu.focus();
+    this.screen.render();
+  }
+
+  /**
+   * Reconnect with another profile's credentials and reload the catalog, without restarting
+   */
+  private async switchProfile(profile: string) {
+    if (profile === this.config.profile) return;
+    if (this.runningQuery) {
+      this.showError('Cancel the running query (Ctrl+C) before switching profiles');
+      return;
+    }
+
+    let config: R2SQLConfig;
+    try {
+      config = await loadConfig({
+        profile,
+        debugEnabled: this.config.debugEnabled,
+        queryTimeout: this.queryTimeoutOverride,
+        interactive: false,
+      });
+    } catch (error) {
+      this.showError(`Could not switch to profile ${profile}: ` + (error instanceof Error ? error.message : String(error)));
+      return;
+    }
+
+    this.createClients(config);
+
+    // Everything below came from the previous account or buckets
+    this.sidebarEntries = [];
+    this.currentNamespace = null;
+    this.lastResultData = [];
+    this.lastResultMetadata = null;
+    this.lastResultSchema = null;
+    this.lastResponseHeaders = null;
+    this.lastTableMetadata = null;
+    this.resultsDisplayMode = 'data';
+
+    this.sidebar.setItems([]);
+    this.resultsTable.setContent(`{green-fg}✓ Switched to profile ${blessed.escape(profile)}{/} {gray-fg}(${blessed.escape(config.accountId)} / ${blessed.escape(config.bucketName)}){/}`);
+    this.resultsTable.setLabel(' Results <3> ');
+    await this.loadNamespacesAndTables();
+  }
+
   private setMode(mode: Mode) {
     this.mode = mode;
     this.updateStatusBar();
@@ -664,63 +912,622 @@ export class R2SQLTUI {
 
   private async onSidebarSelect() {
     const selected = this.sidebar.selected;
-    const item = this.sidebar.items[selected];
+    const entry = this.sidebarEntries[selected];
 
-    if (!item) return;
+    if (!entry) return;
 
-    const content = this.getItemText(item);
-    // Remove blessed tags for parsing
-    const plainContent = content.replace(/\{[^}]+\}/g, '');
+    if (entry.type === 'bucket' || entry.type === 'namespace') {
+      if (entry.expanded) {
+        this.collapseNamespace(selected);
+      } else {
+        await this.expandNamespace(selected);
+      }
+    } else if (entry.type === 'more') {
+      // Placeholder for tables that haven't been loaded yet
+      await this.loadMoreTables(entry.bucket, entry.namespace);
+    } else {
+      // It's a table, show schema and insert into query
+      this.currentNamespace = entry.namespace;
+      const fullName = `${entry.namespace}.${entry.name}`;
+      this.insertIntoQuery(fullName);
+      await this.showTableSchema(entry.bucket, entry.namespace, entry.name);
+    }
+  }
 
-    const isExpanded = plainContent.startsWith('▾');
-    const isCollapsed = plainContent.startsWith('▸');
+  private showSidebarActions() {
+    const entry = this.sidebarEntries[this.sidebar.selected];
+    const actions: { label: string; run: () => Promise<void> }[] = [];
+
+    const bucket = entry?.bucket ?? this.buckets.defaultBucketName;
+
+    if (entry?.type === 'table') {
+      actions.push(
+        { label: 'Explore data files', run: () => this.exploreDataFiles(bucket, entry.namespace, entry.name) },
+        { label: 'Tag current snapshot', run: () => this.createRefAction(bucket, entry.namespace, entry.name, 'tag') },
+        { label: 'Branch from current snapshot', run: () => this.createRefAction(bucket, entry.namespace, entry.name, 'branch') },
+        { label: 'Rename table', run: () => this.renameTableAction(bucket, entry.namespace, entry.name) },
+        { label: 'Drop table', run: () => this.dropTableAction(bucket, entry.namespace, entry.name, false) },
+        { label: 'Drop table and purge data', run: () => this.dropTableAction(bucket, entry.namespace, entry.name, true) },
+      );
+    } else if (entry?.type === 'namespace') {
+      actions.push(
+        { label: 'Create child namespace', run: () => this.createNamespaceAction(bucket, `${entry.namespace}.`) },
+        { label: 'Set namespace property', run: () => this.setNamespacePropertyAction(bucket, entry.namespace) },
+        { label: 'Drop namespace', run: () => this.dropNamespaceAction(bucket, entry.namespace) },
+      );
+    } else if (entry?.type === 'bucket' && bucket !== this.buckets.defaultBucketName) {
+      actions.push({ label: 'Use as default bucket', run: () => this.runBucketCommand({ kind: 'use', bucket }) });
+    }
+    actions.push({ label: 'Create namespace', run: () => this.createNamespaceAction(bucket, '') });
+
+    let target = entry?.type === 'table' ? `${entry.namespace}.${entry.name}`
+      : entry?.type === 'namespace' ? entry.namespace
+      : entry?.type === 'bucket' ? bucket
+      : 'catalog';
+    // Name the bucket too once there is more than one
+    if (this.buckets.buckets.length > 1 && entry?.type !== 'bucket') {
+      target = `${bucket}: ${target}`;
+    }
+    const menu = blessed.list({
+      parent: this.screen,
+      label: ` Actions: ${target} `,
+      top: 'center',
+      left: 'center',
+      width: Math.max(40, target.length + 14),
+      height: actions.length + 2,
+      border: { type: 'line' },
+      style: {
+        fg: 'white',
+        bg: 'black',
+        border: { fg: '#F38020' },
+        selected: { bg: '#C85000', fg: 'white', bold: true },
+        label: { fg: '#F38020', bold: true },
+      },
+      keys: true,
+      vi: true,
+      mouse: false, // Disable mouse to prevent escape sequences
+      items: actions.map(action => action.label),
+    });
 
-    if (isCollapsed) {
-      // Expand namespace to show tables
-      const namespace = plainContent.replace('▸ ', '').trim();
-      await this.expandNamespace(selected, namespace);
-    } else if (isExpanded) {
-      // Collapse namespace
-      this.collapseNamespace(selected);
-    } else if (plainContent.trim().match(/^[├└]─/)) {
-      // It's a table, show schema and insert into query
-      const tableName = plainContent.trim().replace(/^└─\s*/, '').replace(/^├─\s*/, '');
-      if (this.currentNamespace) {
-        const fullName = `${this.currentNamespace}.${tableName}`;
-        this.insertIntoQuery(fullName);
-        await this.showTableSchema(this.currentNamespace, tableName);
+    const close = () => {
+      menu.destroy();
+      this.setMode('navigation');
+      this.sidebar.focus();
+      this.screen.render();
+    };
+
+    menu.on('select', (_item: any, index: number) => {
+      close();
+      actions[index].run();
+    });
+    menu.key(['escape', 'q'], close);
+
+    // Insert mode keeps the global navigation keys (x, q, v, ...) away from the menu
+    this.setMode('insert');
+    menu.focus();
+    this.screen.render();
+  }
+
+  /**
+   * Show a one-line input box; resolves to the trimmed value, or null when cancelled with Esc
+   */
+  private promptInput(label: string, initial: string = ''): Promise<string | null> {
+    return new Promise(resolve => {
+      const input = blessed.textbox({
+        parent: this.screen,
+        label: ` ${label} `,
+        top: 'center',
+        left: 'center',
+        width: '60%',
+        height: 3,
+        border: { type: 'line' },
+        style: {
+          fg: 'white',
+          bg: 'black',
+          border: { fg: '#F38020' },
+          label: { fg: '#F38020', bold: true },
+        },
+        keys: true,
+        mouse: false, // Disable mouse to prevent escape sequences
+        inputOnFocus: true,
+      });
+
+      const done = (value: string | null) => {
+        input.destroy();
+        this.setMode('navigation');
+        this.sidebar.focus();
+        this.screen.render();
+        resolve(value);
+      };
+
+      input.on('submit', (value: string) => done((value || '').trim()));
+      input.on('cancel', () => done(null));
+
+      this.setMode('insert');
+      input.setValue(initial);
+      input.focus();
+      this.screen.render();
+    });
+  }
+
+  /**
+   * Destructive actions only go ahead when the user types the exact name of the target
+   */
+  private async confirmTyped(description: string, expected: string): Promise<boolean> {
+    const typed = await this.promptInput(`${description} - type ${expected} to confirm`);
+    if (typed === null) {
+      this.resultsTable.setContent('{yellow-fg}Cancelled - nothing was changed{/}');
+      this.screen.render();
+      return false;
+    }
+    if (typed !== expected) {
+      this.showError(`Confirmation "${typed}" does not match ${expected} - nothing was changed`);
+      return false;
+    }
+    return true;
+  }
+
+  private async runCatalogAction(successMessage: string, action: () => Promise<unknown>) {
+    try {
+      this.resultsTable.setLabel(' Results <3> {yellow-fg}(updating catalog...){/}');
+      this.screen.render();
+
+      await action();
+
+      this.resultsTable.setContent(`{green-fg}✓ ${successMessage}{/}`);
+      this.resultsTable.setLabel(' Results <3> ');
+      await this.loadNamespacesAndTables();
+    } catch (error) {
+      this.showError(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private async createNamespaceAction(bucket: string, prefix: string) {
+    const name = await this.promptInput('New namespace (use dots for nesting)', prefix);
+    if (!name || name === prefix) return;
+    await this.runCatalogAction(`Created namespace ${name}`, () => this.buckets.get(bucket).catalogClient.createNamespace(name));
+  }
+
+  private async setNamespacePropertyAction(bucket: string, namespace: string) {
+    const assignment = await this.promptInput(`Property for ${namespace}: key=value (empty value removes the key)`);
+    if (!assignment) return;
+
+    const separator = assignment.indexOf('=');
+    const key = (separator === -1 ? assignment : assignment.substring(0, separator)).trim();
+    const value = separator === -1 ? '' : assignment.substring(separator + 1).trim();
+    if (!key) {
+      this.showError('Property key is required');
+      return;
+    }
+
+    const { catalogClient } = this.buckets.get(bucket);
+    await this.runCatalogAction(
+      value ? `Set ${key}=${value} on ${namespace}` : `Removed ${key} from ${namespace}`,
+      () => value
+        ? catalogClient.updateNamespaceProperties(namespace, { [key]: value })
+        : catalogClient.updateNamespaceProperties(namespace, {}, [key])
+    );
+  }
+
+  private async createTableFromQuery(sql: string) {
+    try {
+      const statement = parseCreateTable(sql);
+
+      // LIKE copies the current schema of an existing table, which may be in another bucket
+      let sourceSchema;
+      if (statement.likeTable) {
+        const lastDot = statement.likeTable.lastIndexOf('.');
+        const namespace = lastDot > 0 ? statement.likeTable.substring(0, lastDot) : this.currentNamespace;
+        const likeTable = statement.likeTable.substring(lastDot + 1);
+        const metadata = namespace
+          ? await (await this.buckets.ownerOf(namespace, likeTable)).catalogClient.getTableMetadata(namespace, likeTable)
+          : null;
+        if (!metadata?.schema) {
+          this.showError(`Could not fetch the schema of ${statement.likeTable}`);
+          return;
+        }
+        sourceSchema = metadata.schema;
+      }
+
+      const request = buildCreateTableRequest(statement, sourceSchema);
+      const partitioning = request['partition-spec']
+        ? ` partitioned by ${request['partition-spec'].fields.map(field => field.name).join(', ')}`
+        : '';
+      // New tables go to the default bucket
+      const bucket = this.buckets.buckets.length > 1 ? ` in bucket ${this.buckets.defaultBucketName}` : '';
+      await this.runCatalogAction(
+        `Created table ${statement.namespace}.${statement.table}${bucket} with ${request.schema.fields.length} columns${partitioning}`,
+        () => this.buckets.get().catalogClient.createTable(statement.namespace, request)
+      );
+    } catch (error) {
+      this.showError(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private async runSnapshotMaintenance(sql: string) {
+    try {
+      const rollback = parseRollback(sql);
+      const expire = rollback ? null : parseExpire(sql);
+      if (!rollback && !expire) {
+        this.showError("Usage: ROLLBACK TABLE <table> TO SNAPSHOT <id> | EXPIRE SNAPSHOTS <table> OLDER THAN '<ts>' [RETAIN LAST <n>]");
+        return;
+      }
+
+      const tableRef = (rollback || expire)!.table;
+      const lastDot = tableRef.lastIndexOf('.');
+      const namespace = lastDot > 0 ? tableRef.substring(0, lastDot) : this.currentNamespace;
+      const tableName = tableRef.substring(lastDot + 1);
+      const catalogClient = namespace ? (await this.buckets.ownerOf(namespace, tableName)).catalogClient : null;
+      const metadata = namespace ? (await catalogClient!.getTableMetadata(namespace, tableName))?.fullMetadata : null;
+      if (!namespace || !catalogClient || !metadata) {
+        this.showError(`Could not fetch table metadata for ${tableRef}`);
+        return;
+      }
+
+      const fullName = `${namespace}.${tableName}`;
+      const snapshotLine = (row: SnapshotRow) =>
+        `  ${row.snapshotId.padEnd(22)}${formatTimestampMs(row.timestampMs).padEnd(24)}${row.operation.padEnd(12)}` +
+        `{gray-fg}+${this.formatCount(row.addedRecords)} / -${this.formatCount(row.deletedRecords)} records{/}\n`;
+
+      if (rollback) {
+        const plan = planRollback(metadata, rollback.snapshotId);
+        let preview = `{#F38020-fg}{bold}Dry run: roll back main of ${fullName}{/}\n\n`;
+        preview += `  from ${plan.currentId} to ${plan.targetId} (${formatTimestampMs(plan.target.timestampMs)})\n\n`;
+        preview += `{#CCCCCC-fg}${plan.rolledBack.length} snapshot(s) will no longer be current (they stay in the history until expired):{/}\n`;
+        plan.rolledBack.forEach(row => { preview += snapshotLine(row); });
+        this.resultsTable.setContent(preview);
+        this.resultsTable.setLabel(' Results <3> {yellow-fg}(dry run){/}');
+        this.screen.render();
+
+        if (!await this.confirmTyped('Apply rollback', fullName)) return;
+        await this.runCatalogAction(
+          `Rolled back ${fullName} to snapshot ${plan.targetId}`,
+          () => catalogClient.rollbackToSnapshot(namespace, tableName, plan.targetId, plan.currentId)
+        );
+      } else if (expire) {
+        const plan = planExpireSnapshots(metadata, expire.olderThanMs, expire.retainLast);
+        const cutoff = formatTimestampMs(expire.olderThanMs);
+        const kept = plan.keptByRefs > 0
+          ? `{#CCCCCC-fg}${plan.keptByRefs} older snapshot(s) kept for branches, tags or RETAIN LAST ${expire.retainLast}{/}\n`
+          : '';
+
+        if (plan.expired.length === 0) {
+          this.resultsTable.setContent(`{yellow-fg}No snapshots of ${fullName} older than ${cutoff} can be expired{/}\n${kept}`);
+          this.resultsTable.setLabel(' Results <3> {yellow-fg}(dry run){/}');
+          this.screen.render();
+          return;
+        }
+
+        let preview = `{#F38020-fg}{bold}Dry run: expire ${plan.expired.length} snapshot(s) of ${fullName} older than ${cutoff}{/}\n\n${kept}\n`;
+        plan.expired.forEach(row => { preview += snapshotLine(row); });
+        this.resultsTable.setContent(preview);
+        this.resultsTable.setLabel(' Results <3> {yellow-fg}(dry run){/}');
+        this.screen.render();
+
+        if (!await this.confirmTyped(`Expire ${plan.expired.length} snapshot(s)`, fullName)) return;
+        await this.runCatalogAction(
+          `Expired ${plan.expired.length} snapshot(s) of ${fullName}`,
+          () => catalogClient.expireSnapshots(namespace, tableName, plan.expired.map(row => row.snapshotId), plan.currentId)
+        );
       }
+    } catch (error) {
+      this.showError(error instanceof Error ? error.message : String(error));
     }
   }
 
-  private async expandNamespace(index: number, namespace: string) {
+  private async resolveQueryTable(name: string): Promise<{ namespace: string; table: string } | null> {
+    const lastDot = name.lastIndexOf('.');
+    const namespace = lastDot > 0 ? name.substring(0, lastDot) : this.currentNamespace;
+    return namespace ? { namespace, table: name.substring(lastDot + 1) } : null;
+  }
+
+  // Validation is advisory: if the catalog can't be reached, the query is sent as is
+  private async validateQuery(connection: BucketConnection, query: string): Promise<ValidationIssue[]> {
+    if (!connection.validator) return [];
     try {
-      this.currentNamespace = namespace;
-      let tables = this.namespaces.get(namespace);
+      return await connection.validator.validate(query, name => this.resolveQueryTable(name));
+    } catch {
+      return [];
+    }
+  }
 
-      if (!tables || tables.length === 0) {
-        tables = await this.catalogClient.listTables(namespace);
-        this.namespaces.set(namespace, tables);
+  // List the problems in the results pane and underline them in the query editor until it is edited
+  private showValidationIssues(query: string, issues: ValidationIssue[]) {
+    this.resultsTable.setContent(this.formatValidationIssues(query, issues) +
+      '\n{gray-fg}Start the shell with --no-validate to send queries to R2 SQL without these checks{/}');
+    this.resultsTable.setLabel(' Results <3> {red-fg}(invalid query){/}');
+    this.resultsTable.setScrollPerc(0);
+    this.markValidationIssues(issues);
+  }
+
+  private formatValidationIssues(query: string, issues: ValidationIssue[]): string {
+    const sourceLines = query.split('\n');
+    let output = issues.some(issue => issue.severity === 'error')
+      ? `{red-fg}{bold}✗ ${issues.length} problem${issues.length === 1 ? '' : 's'} found before running the query{/}\n`
+      : `{yellow-fg}{bold}⚠ ${issues.length} warning${issues.length === 1 ? '' : 's'} for this query{/}\n`;
+    for (const issue of issues) {
+      const color = issue.severity === 'error' ? 'red-fg' : 'yellow-fg';
+      const source = sourceLines[issue.line - 1] ?? '';
+      const width = Math.max(1, Math.min(issue.length, source.length - issue.column + 1));
+      output += `\n{gray-fg}${issue.line}:${issue.column}{/} {${color}}${blessed.escape(issue.message)}{/}\n`;
+      output += `  ${blessed.escape(source)}\n`;
+      output += `  ${' '.repeat(issue.column - 1)}{${color}}${'^'.repeat(width)}{/}\n`;
+    }
+    return output;
+  }
+
+  private markValidationIssues(issues: ValidationIssue[]) {
+    // The query was trimmed before validation, so offsets are shifted by the leading whitespace
+    const value = this.queryEditor.getValue();
+    const lead = value.length - value.trimStart().length;
+    let marked = '';
+    let position = 0;
+    for (const issue of issues) {
+      const color = issue.severity === 'error' ? 'red-fg' : 'yellow-fg';
+      const start = Math.max(position, lead + issue.offset);
+      const end = Math.max(start, lead + issue.offset + issue.length);
+      marked += blessed.escape(value.slice(position, start));
+      marked += `{${color}}{underline}${blessed.escape(value.slice(start, end))}{/underline}{/${color}}`;
+      position = end;
+    }
+    marked += blessed.escape(value.slice(position));
+    // setContent leaves the editor's value alone; the next edit re-renders it without the markup
+    this.queryEditor.setContent(marked);
+    this.screen.render();
+  }
+
+  private async explainQuery(sql: string) {
+    try {
+      this.resultsTable.setLabel(' Results <3> {yellow-fg}(planning...){/}');
+      this.resultsTable.setContent('{yellow-fg}Planning query...{/}');
+      this.screen.render();
+
+      const resolveTable = (name: string) => this.resolveQueryTable(name);
+      const { timeTravel, planner } = await this.buckets.route(sql, resolveTable);
+      const plans = await planner.explain(await timeTravel.prepare(sql, resolveTable), resolveTable);
+
+      this.resultsTable.setContent(plans.map(plan => this.renderPlan(plan).join('\n')).join('\n\n'));
+      this.resultsTable.setLabel(' Results <3> {gray-fg}[plan]{/}');
+      this.resultsTable.setScrollPerc(0);
+      this.screen.render();
+    } catch (error) {
+      this.showError(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  // Plan tree as box-drawing lines, root first
+  private renderPlan(plan: PlanNode, prefix: string = '', isLast: boolean = true, isRoot: boolean = true): string[] {
+    const label = plan.warning
+      ? `{yellow-fg}${blessed.escape(plan.label)}{/}`
+      : isRoot ? `{#F38020-fg}{bold}${blessed.escape(plan.label)}{/}` : `{white-fg}${blessed.escape(plan.label)}{/}`;
+    const detail = plan.detail ? ` {gray-fg}${blessed.escape(plan.detail)}{/}` : '';
+    const lines = [isRoot ? `${label}${detail}` : `{gray-fg}${prefix}${isLast ? '└─ ' : '├─ '}{/}${label}${detail}`];
+
+    const childPrefix = isRoot ? '' : prefix + (isLast ? '   ' : '│  ');
+    plan.children.forEach((child, index) => {
+      lines.push(...this.renderPlan(child, childPrefix, index === plan.children.length - 1, false));
+    });
+    return lines;
+  }
+
+  private async exploreDataFiles(bucket: string, namespace: string, tableName: string, filters: PartitionFilter[] = []) {
+    const fullName = `${namespace}.${tableName}`;
+    try {
+      this.resultsTable.setLabel(' Results <3> {yellow-fg}(reading manifests...){/}');
+      this.resultsTable.setContent(`{yellow-fg}Reading manifests for ${fullName}...{/}`);
+      this.screen.render();
+
+      const { catalogClient, fileExplorer } = this.buckets.get(bucket);
+      const metadata = await catalogClient.getTableMetadata(namespace, tableName);
+      if (!metadata?.fullMetadata) {
+        this.showError(`Could not fetch table metadata for ${fullName}`);
+        return;
       }
 
-      // Convert all items to plain strings to avoid blessed issues
-      const currentItems = this.sidebar.items.map((item: any) => this.getItemText(item));
+      const files = filterDataFiles(await fileExplorer.listDataFiles(metadata.fullMetadata), filters);
+      const threshold = getSmallFileThreshold(metadata.fullMetadata);
+      const totalBytes = files.reduce((sum, file) => sum + file.fileSizeBytes, 0);
 
-      // Update the namespace item
-      currentItems[index] = `{#F38020-fg}▾{/} {bold}${String(namespace)}{/}`;
+      this.resultsTable.setContent(
+        `{#F38020-fg}{bold}${fullName}{/}: ${files.length.toLocaleString()} files, ${this.formatSize(totalBytes)}\n` +
+        (metadata.metadataLocation ? `{gray-fg}Metadata: ${metadata.metadataLocation}{/}\n` : '')
+      );
+      this.resultsTable.setLabel(' Results <3> ');
+      this.showFileBrowser(fullName, files, threshold);
+    } catch (error) {
+      this.showError(error instanceof Error ? error.message : String(error));
+    }
+  }
 
-      // Add tables below - ensure they're all strings
-      const tableItems = tables.map((table, i) => {
-        const prefix = i === tables.length - 1 ? '└─' : '├─';
-        return `  {white-fg}${prefix}{/} ${String(table)}`;
-      });
+  /**
+   * Drill-down popup: partitions -> files in a partition -> one file's column bounds.
+   * Enter/l goes down a level, h/Backspace goes back up, Esc/q closes.
+   */
+  private showFileBrowser(fullName: string, files: DataFileInfo[], smallFileThreshold: number) {
+    const summaries = summarizePartitions(files, smallFileThreshold);
+    let partitionKey: string | null = null;
+    let partitionFiles: DataFileInfo[] = [];
+    let file: DataFileInfo | null = null;
+    let partitionIndex = 0;
+    let fileIndex = 0;
+
+    const browser = blessed.list({
+      parent: this.screen,
+      top: 'center',
+      left: 'center',
+      width: '90%',
+      height: '80%',
+      border: { type: 'line' },
+      style: {
+        fg: 'white',
+        bg: 'black',
+        border: { fg: '#F38020' },
+        selected: { bg: '#C85000', fg: 'white', bold: true },
+        label: { fg: '#F38020', bold: true },
+      },
+      tags: true,
+      keys: true,
+      vi: true,
+      mouse: false, // Disable mouse to prevent escape sequences
+      scrollbar: { ch: ' ', style: { bg: '#F38020' } },
+    });
+
+    const size = (bytes: number) => {
+      const text = this.formatSize(bytes).padStart(11);
+      return bytes < smallFileThreshold ? `{yellow-fg}${text}{/}` : text;
+    };
 
-      currentItems.splice(index + 1, 0, ...tableItems);
+    const render = () => {
+      if (file) {
+        browser.setLabel(` ${fullName} › ${partitionKey} › ${file.path.split('/').pop()} {gray-fg}(h: back, Esc: close){/} `);
+        const bounds = file.bounds.map(bound =>
+          `{cyan-fg}${bound.column.padEnd(30)}{/} ${bound.lower ?? '{gray-fg}-{/}'} {gray-fg}..{/} ${bound.upper ?? '{gray-fg}-{/}'}`
+        );
+        browser.setItems([
+          `{#CCCCCC-fg}Path{/}        ${file.path}`,
+          `{#CCCCCC-fg}Format{/}      ${file.format}  {#CCCCCC-fg}Content{/} ${file.content}  {#CCCCCC-fg}Spec{/} ${file.specId}`,
+          `{#CCCCCC-fg}Records{/}     ${file.recordCount.toLocaleString()}`,
+          `{#CCCCCC-fg}Size{/}        ${size(file.fileSizeBytes).trim()}`,
+          '',
+          `{#F38020-fg}Column bounds (lower .. upper){/}`,
+          ...(bounds.length ? bounds : ['{gray-fg}No column bounds recorded{/}']),
+        ]);
+        browser.select(0);
+      } else if (partitionKey !== null) {
+        browser.setLabel(` ${fullName} › ${partitionKey} {gray-fg}(${partitionFiles.length} files; Enter: bounds, h: back){/} `);
+        browser.setItems(partitionFiles.map(entry =>
+          `${(entry.path.split('/').pop() || entry.path).padEnd(60)} ${entry.recordCount.toLocaleString().padStart(14)} ${size(entry.fileSizeBytes)}` +
+          (entry.content !== 'data' ? ` {magenta-fg}${entry.content}{/}` : '')
+        ));
+        browser.select(fileIndex);
+      } else {
+        browser.setLabel(` Files: ${fullName} {gray-fg}(${summaries.length} partitions; Enter: files, Esc: close){/} `);
+        browser.setItems(summaries.length ? summaries.map(summary =>
+          `${summary.partitionKey.padEnd(40)} ${String(summary.files).padStart(6)} files ` +
+          `${summary.smallFiles > 0 ? `{yellow-fg}${String(summary.smallFiles).padStart(6)} small{/}` : `${'0'.padStart(6)} small`} ` +
+          `${summary.records.toLocaleString().padStart(14)} rows ${this.formatSize(summary.sizeBytes).padStart(11)} ` +
+          `avg ${this.formatSize(summary.avgFileSizeBytes).padStart(11)} ${(summary.sizeShare * 100).toFixed(1).padStart(5)}%`
+        ) : ['{yellow-fg}No data files{/}']);
+        browser.select(partitionIndex);
+      }
+      this.screen.render();
+    };
 
-      this.sidebar.clearItems();
-      this.sidebar.setItems(currentItems);
-      this.sidebar.select(index);
+    const drillDown = () => {
+      if (file) return;
+      if (partitionKey === null) {
+        const summary = summaries[browser.selected];
+        if (!summary) return;
+        partitionIndex = browser.selected;
+        partitionKey = summary.partitionKey;
+        partitionFiles = files
+          .filter(entry => entry.partitionKey === summary.partitionKey)
+          .sort((a, b) => a.fileSizeBytes - b.fileSizeBytes);
+        fileIndex = 0;
+      } else {
+        fileIndex = browser.selected;
+        file = partitionFiles[fileIndex] ?? null;
+      }
+      render();
+    };
+
+    const close = () => {
+      browser.destroy();
+      this.setMode('navigation');
+      this.sidebar.focus();
       this.screen.render();
+    };
+
+    const goUp = () => {
+      if (file) {
+        file = null;
+      } else if (partitionKey !== null) {
+        partitionKey = null;
+      } else {
+        close();
+        return;
+      }
+      render();
+    };
+
+    browser.on('select', drillDown);
+    browser.key(['l', 'right'], drillDown);
+    browser.key(['h', 'left', 'backspace'], goUp);
+    browser.key(['escape', 'q'], close);
+
+    // Insert mode keeps the global navigation keys away from the browser
+    this.setMode('insert');
+    browser.focus();
+    render();
+  }
+
+  private async dropNamespaceAction(bucket: string, namespace: string) {
+    if (!await this.confirmTyped('Drop namespace', namespace)) return;
+    await this.runCatalogAction(`Dropped namespace ${namespace}`, () => this.buckets.get(bucket).catalogClient.dropNamespace(namespace));
+  }
+
+  private async createRefAction(bucket: string, namespace: string, tableName: string, type: RefType) {
+    const name = await this.promptInput(`New ${type} name for ${namespace}.${tableName}`);
+    if (!name) return;
+    const { catalogClient } = this.buckets.get(bucket);
+    await this.runCatalogAction(
+      `Created ${type} ${name} on ${namespace}.${tableName} at the current snapshot`,
+      () => catalogClient.createRef(namespace, tableName, name, type)
+    );
+
+    // Keep the refs view current if it's showing this table
+    const shown = this.lastTableMetadata;
+    if (shown && shown.name === tableName && shown.namespace.join('.') === namespace) {
+      this.lastTableMetadata = await catalogClient.getTableMetadata(namespace, tableName);
+    }
+  }
+
+  private async renameTableAction(bucket: string, namespace: string, tableName: string) {
+    const target = await this.promptInput(`Rename ${namespace}.${tableName} to (name or namespace.name)`, tableName);
+    if (!target || target === tableName) return;
+
+    const lastDot = target.lastIndexOf('.');
+    const newNamespace = lastDot > 0 ? target.substring(0, lastDot) : namespace;
+    const newTable = target.substring(lastDot + 1);
+
+    if (!await this.confirmTyped(`Rename to ${newNamespace}.${newTable}`, `${namespace}.${tableName}`)) return;
+    await this.runCatalogAction(
+      `Renamed ${namespace}.${tableName} to ${newNamespace}.${newTable}`,
+      () => this.buckets.get(bucket).catalogClient.renameTable(namespace, tableName, newNamespace, newTable)
+    );
+  }
+
+  private async dropTableAction(bucket: string, namespace: string, tableName: string, purge: boolean) {
+    const fullName = `${namespace}.${tableName}`;
+    if (!await this.confirmTyped(purge ? 'Drop table and PURGE its data' : 'Drop table', fullName)) return;
+    await this.runCatalogAction(
+      `Dropped table ${fullName}${purge ? ' and purged its data' : ''}`,
+      () => this.buckets.get(bucket).catalogClient.dropTable(namespace, tableName, purge)
+    );
+  }
+
+  // Expands a namespace, or a bucket when several are attached
+  private async expandNamespace(index: number) {
+    const entry = this.sidebarEntries[index];
+    const connection = this.buckets.get(entry.bucket);
+
+    try {
+      const namespace = entry.namespace;
+      if (entry.type === 'namespace') {
+        this.currentNamespace = namespace;
+        let tables = connection.namespaces.get(namespace);
+
+        if (!tables || tables.length === 0) {
+          const page = await connection.catalogClient.listTablesPage(namespace, { pageSize: this.sidebarPageSize });
+          tables = page.items;
+          connection.namespaces.set(namespace, tables);
+          this.setTablePageToken(connection, namespace, page.nextPageToken);
+        }
+      }
+
+      entry.expanded = true;
+      this.sidebarEntries.splice(index + 1, 0, ...this.buildChildEntries(connection, namespace, entry.depth + 1));
+      this.renderSidebar(index);
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
       this.showError('Failed to load tables: ' + errorMsg);
@@ -728,60 +1535,252 @@ export class R2SQLTUI {
   }
 
   private collapseNamespace(index: number) {
-    // Convert all items to plain strings
-    const currentItems = this.sidebar.items.map((item: any) => this.getItemText(item));
-
-    const content = currentItems[index];
-    const plainContent = content.replace(/\{[^}]+\}/g, '');
-    const namespace = plainContent.replace('▾ ', '').trim();
-
-    // Find how many table items to remove
-    let count = 0;
-    for (let i = index + 1; i < currentItems.length; i++) {
-      const plainText = currentItems[i].replace(/\{[^}]+\}/g, '');
-      if (plainText.startsWith('  ')) {
-        count++;
-      } else {
-        break;
+    const entry = this.sidebarEntries[index];
+
+    // Remove everything nested below this namespace, including expanded child namespaces
+    const end = this.getSidebarBlockEnd(index);
+    this.sidebarEntries.splice(index + 1, end - index - 1);
+    entry.expanded = false;
+
+    this.currentNamespace = null;
+    this.renderSidebar(index);
+  }
+
+  // Child namespaces first, then tables, then a placeholder if more tables can be loaded
+  private buildChildEntries(connection: BucketConnection, namespace: string, depth: number): SidebarEntry[] {
+    const bucket = connection.config.bucketName;
+    const entries: SidebarEntry[] = [];
+
+    for (const child of connection.childNamespaces.get(namespace) || []) {
+      entries.push({ type: 'namespace', bucket, namespace: child, name: child.split('.').pop() || child, depth, expanded: false });
+    }
+
+    for (const table of connection.namespaces.get(namespace) || []) {
+      entries.push({ type: 'table', bucket, namespace, name: table, depth });
+    }
+
+    if (connection.tablePageTokens.has(namespace)) {
+      entries.push({ type: 'more', bucket, namespace, name: MORE_TABLES_LABEL, depth });
+    }
+
+    return entries;
+  }
+
+  // Index just past the last entry nested below the namespace at index
+  private getSidebarBlockEnd(index: number): number {
+    const depth = this.sidebarEntries[index].depth;
+    let end = index + 1;
+    while (end < this.sidebarEntries.length && this.sidebarEntries[end].depth > depth) {
+      end++;
+    }
+    return end;
+  }
+
+  private renderSidebar(selectIndex?: number) {
+    const items = this.sidebarEntries.map((entry, i) => {
+      const indent = '  '.repeat(entry.depth);
+
+      if (entry.type === 'bucket') {
+        const isDefault = entry.bucket === this.buckets.defaultBucketName ? ' {gray-fg}(default){/}' : '';
+        return entry.expanded
+          ? `${indent}{#F38020-fg}▾ {bold}${blessed.escape(entry.name)}{/}${isDefault}`
+          : `${indent}{#F38020-fg}▸ ${blessed.escape(entry.name)}{/}${isDefault}`;
+      }
+
+      if (entry.type === 'namespace') {
+        return entry.expanded
+          ? `${indent}{#F38020-fg}▾{/} {bold}${String(entry.name)}{/}`
+          : `${indent}{#F38020-fg}▸{/} ${String(entry.name)}`;
+      }
+
+      if (entry.type === 'more') {
+        return `${indent}{gray-fg}${MORE_TABLES_LABEL}{/}`;
+      }
+
+      // Last table of its namespace gets the closing branch
+      const next = this.sidebarEntries[i + 1];
+      const isLast = !next || next.depth < entry.depth || next.namespace !== entry.namespace || next.bucket !== entry.bucket;
+      return `${indent}{white-fg}${isLast ? '└─' : '├─'}{/} ${String(entry.name)}`;
+    });
+
+    const selected = selectIndex ?? this.sidebar.selected;
+    this.sidebar.clearItems();
+    this.sidebar.setItems(items);
+    if (items.length > 0) {
+      this.sidebar.select(Math.min(Math.max(selected, 0), items.length - 1));
+    }
+    this.screen.render();
+  }
+
+  private setTablePageToken(connection: BucketConnection, namespace: string, pageToken?: string) {
+    if (pageToken) {
+      connection.tablePageTokens.set(namespace, pageToken);
+    } else {
+      connection.tablePageTokens.delete(namespace);
+    }
+  }
+
+  private maybeLoadMoreTables(index: number) {
+    const entry = this.sidebarEntries[index];
+    if (!entry || entry.type === 'namespace' || entry.type === 'bucket') return;
+
+    // Only trigger on the last item of an expanded namespace
+    const next = this.sidebarEntries[index + 1];
+    if (next && next.depth === entry.depth && next.namespace === entry.namespace && next.bucket === entry.bucket) return;
+
+    if (this.buckets.get(entry.bucket).tablePageTokens.has(entry.namespace)) {
+      this.loadMoreTables(entry.bucket, entry.namespace);
+    }
+  }
+
+  private async loadMoreTables(bucket: string, namespace: string) {
+    const connection = this.buckets.get(bucket);
+    const pageToken = connection.tablePageTokens.get(namespace);
+    if (!pageToken || connection.loadingMoreTables.has(namespace)) return;
+
+    connection.loadingMoreTables.add(namespace);
+    this.sidebar.setLabel(this.sidebarLabel('{yellow-fg}(loading...){/}'));
+    this.screen.render();
+
+    try {
+      const page = await connection.catalogClient.listTablesPage(namespace, { pageToken, pageSize: this.sidebarPageSize });
+      connection.namespaces.set(namespace, [...(connection.namespaces.get(namespace) || []), ...page.items]);
+      this.setTablePageToken(connection, namespace, page.nextPageToken);
+
+      // Re-render this namespace's table items in place, if it's still expanded
+      const headerIndex = this.sidebarEntries.findIndex(
+        entry => entry.type === 'namespace' && entry.bucket === bucket && entry.namespace === namespace && entry.expanded
+      );
+      if (headerIndex !== -1) {
+        const depth = this.sidebarEntries[headerIndex].depth + 1;
+        const end = this.getSidebarBlockEnd(headerIndex);
+        const start = this.sidebarEntries.findIndex(
+          (entry, i) => i > headerIndex && i < end && entry.depth === depth && entry.type !== 'namespace'
+        );
+        const tableEntries = this.buildChildEntries(connection, namespace, depth).filter(entry => entry.type !== 'namespace');
+        this.sidebarEntries.splice(start === -1 ? end : start, start === -1 ? 0 : end - start, ...tableEntries);
+        this.renderSidebar();
+      }
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this.showError('Failed to load more tables: ' + errorMsg);
+    } finally {
+      connection.loadingMoreTables.delete(namespace);
+      this.sidebar.setLabel(this.sidebarLabel());
+      this.screen.render();
+    }
+  }
+
+  private insertIntoQuery(text: string) {
+    const current = this.queryEditor.getValue().trim();
+
+    // If query is empty or doesn't start with SELECT, create a full SELECT statement
+    if (!current || !current.toUpperCase().startsWith('SELECT')) {
+      this.queryEditor.setValue(`SELECT * FROM ${text}`);
+    } else {
+      // Append to existing query
+      this.queryEditor.setValue(current + ' ' + text);
+    }
+
+    this.switchTab('query');
+    this.screen.render();
+  }
+
+  private async executeQuery() {
+    const query = this.queryEditor.getValue().trim();
+
+    if (!query) {
+      this.showError('No query to execute');
+      return;
+    }
+
+    if (this.runningQuery) {
+      // Only one query at a time - Ctrl+C cancels the running one
+      return;
+    }
+
+    // USE BUCKET / ATTACH BUCKET / SHOW BUCKETS change which buckets the session queries
+    const bucketCommand = parseBucketCommand(query);
+    if (bucketCommand) {
+      await this.runBucketCommand(bucketCommand);
+      return;
+    }
+
+    // DESCRIBE EXTENDED is answered from the catalog, not R2 SQL
+    const describe = query.replace(/;\s*$/, '').match(/^describe\s+extended\s+(\S+)$/i);
+    if (describe) {
+      const qualifiedName = describe[1];
+      const lastDot = qualifiedName.lastIndexOf('.');
+      const namespace = lastDot > 0 ? qualifiedName.substring(0, lastDot) : this.currentNamespace;
+      if (!namespace) {
+        this.showError('Could not determine namespace for table. Use: DESCRIBE EXTENDED <namespace>.<table>');
+        return;
+      }
+      const tableName = qualifiedName.substring(lastDot + 1);
+      const owner = await this.buckets.ownerOf(namespace, tableName);
+      await this.showTableSchema(owner.config.bucketName, namespace, tableName, true);
+      return;
+    }
+
+    // Snapshot maintenance is previewed here and committed to the catalog after confirmation
+    if (/^(rollback\s+table|expire\s+snapshots)\s/i.test(query)) {
+      await this.runSnapshotMaintenance(query);
+      return;
+    }
+
+    // SHOW FILES reads the table's manifests from R2 and opens the file explorer
+    if (/^show\s+files\s/i.test(query)) {
+      try {
+        const statement = parseShowFiles(query);
+        if (!statement) {
+          this.showError("Usage: SHOW FILES <table> [WHERE <partition_field> = '<value>' [AND ...]]");
+          return;
+        }
+        const lastDot = statement.table.lastIndexOf('.');
+        const namespace = lastDot > 0 ? statement.table.substring(0, lastDot) : this.currentNamespace;
+        if (!namespace) {
+          this.showError('Could not determine namespace for table. Use: SHOW FILES <namespace>.<table>');
+          return;
+        }
+        const tableName = statement.table.substring(lastDot + 1);
+        const owner = await this.buckets.ownerOf(namespace, tableName);
+        await this.exploreDataFiles(owner.config.bucketName, namespace, tableName, statement.filters);
+      } catch (error) {
+        this.showError(error instanceof Error ? error.message : String(error));
       }
+      return;
     }
 
-    currentItems[index] = `{#F38020-fg}▸{/} ${String(namespace)}`;
-    currentItems.splice(index + 1, count);
-
-    this.sidebar.clearItems();
-    this.sidebar.setItems(currentItems);
-    this.sidebar.select(index);
-    this.currentNamespace = null;
-    this.screen.render();
-  }
-
-  private insertIntoQuery(text: string) {
-    const current = this.queryEditor.getValue().trim();
-
-    // If query is empty or doesn't start with SELECT, create a full SELECT statement
-    if (!current || !current.toUpperCase().startsWith('SELECT')) {
-      this.queryEditor.setValue(`SELECT * FROM ${text}`);
-    } else {
-      // Append to existing query
-      this.queryEditor.setValue(current + ' ' + text);
+    // EXPLAIN shows R2 SQL's plan when it has one, plus the client-side plan
+    if (/^explain\s/i.test(query)) {
+      await this.explainQuery(query.replace(/^explain\s+/i, ''));
+      return;
     }
 
-    this.switchTab('query');
-    this.screen.render();
-  }
+    // CREATE TABLE goes to the catalog as a REST create-table request
+    if (/^create\s+table\s/i.test(query)) {
+      await this.createTableFromQuery(query);
+      return;
+    }
 
-  private async executeQuery() {
-    const query = this.queryEditor.getValue().trim();
+    // The query runs against the bucket that owns its table
+    const resolveTable = (name: string) => this.resolveQueryTable(name);
+    const connection = await this.buckets.route(query, resolveTable);
 
-    if (!query) {
-      this.showError('No query to execute');
+    // Catch unsupported syntax and unknown tables/columns before the round trip
+    const issues = await this.validateQuery(connection, query);
+    if (issues.some(issue => issue.severity === 'error')) {
+      this.showValidationIssues(query, issues);
       return;
     }
+    // Warnings don't stop the query; they are underlined now and listed if R2 SQL rejects it
+    if (issues.length > 0) {
+      this.markValidationIssues(issues);
+    }
 
     try {
       // Visual feedback that execution started
-      this.resultsTable.setLabel(' Results <3> {yellow-fg}(executing...){/}');
+      this.resultsTable.setLabel(' Results <3> {yellow-fg}(executing... Ctrl+C to cancel){/}');
       this.resultsTable.setContent('{yellow-fg}Executing query...{/}');
       this.queryEditor.setLabel(' Query <2> {yellow-fg}(running...){/}');
 
@@ -790,7 +1789,60 @@ export class R2SQLTUI {
 
       this.screen.render();
 
-      const result = await this.sqlClient.executeQuery(query);
+      // FOR VERSION/TIMESTAMP AS OF is resolved against the table's snapshots first
+      let sql: string;
+      try {
+        sql = await connection.timeTravel.prepare(query, resolveTable);
+      } catch (error) {
+        // Shown directly rather than via showError, which would flatten the snapshot list
+        this.stopArtAnimation();
+        this.queryEditor.setLabel(' Query <2> ');
+        this.resultsTable.setContent(`{red-fg}Error:{/} ${error instanceof Error ? error.message : String(error)}`);
+        this.resultsTable.setLabel(' Results <3> {red-fg}(time travel){/}');
+        this.screen.render();
+        return;
+      }
+
+      // Estimate the scan from manifest statistics; if that fails the query still runs
+      let estimate: CostEstimate | null = null;
+      try {
+        this.resultsTable.setContent('{yellow-fg}Estimating scan size...{/}');
+        this.screen.render();
+        estimate = await connection.costEstimator.estimate(sql, resolveTable);
+      } catch {
+        estimate = null;
+      }
+
+      if (estimate && this.maxEstimatedBytes !== undefined && estimate.bytes > this.maxEstimatedBytes) {
+        this.stopArtAnimation();
+        this.queryEditor.setLabel(' Query <2> ');
+        this.resultsTable.setContent(
+          `{yellow-fg}{bold}Estimated scan exceeds --max-estimated-bytes (${this.formatSize(this.maxEstimatedBytes)}){/}\n\n` +
+          this.formatEstimate(estimate)
+        );
+        this.resultsTable.setLabel(' Results <3> {yellow-fg}(confirm scan){/}');
+        this.screen.render();
+
+        const answer = await this.promptInput(`Scan ~${this.formatSize(estimate.bytes)} of ${estimate.table}? (y/N)`);
+        if (!answer || !/^y(es)?$/i.test(answer)) {
+          this.resultsTable.setContent('{yellow-fg}Query not run - estimated scan is above the limit{/}\n\n' + this.formatEstimate(estimate));
+          this.resultsTable.setLabel(' Results <3> {yellow-fg}(cancelled){/}');
+          this.screen.render();
+          return;
+        }
+
+        this.resultsTable.setLabel(' Results <3> {yellow-fg}(executing... Ctrl+C to cancel){/}');
+        this.queryEditor.setLabel(' Query <2> {yellow-fg}(running...){/}');
+        this.startArtAnimation();
+      }
+
+      const bucketNote = this.buckets.buckets.length > 1 ? ` in bucket ${connection.config.bucketName}` : '';
+      this.resultsTable.setContent(`{yellow-fg}Executing query${bucketNote}...{/}`);
+      this.screen.render();
+
+      this.runningQuery = connection.sqlClient.startQuery(sql);
+      const result = await this.runningQuery.result;
+      this.runningQuery = null;
 
       // Stop animation
       this.stopArtAnimation();
@@ -798,14 +1850,18 @@ export class R2SQLTUI {
       // Reset query label
       this.queryEditor.setLabel(' Query <2> ');
 
-      if (result.error) {
-        this.resultsTable.setContent(`{red-fg}Error:{/} ${result.error}`);
+      if (result.cancelled) {
+        this.resultsTable.setContent('{yellow-fg}Query cancelled{/}');
+        this.resultsTable.setLabel(' Results <3> {yellow-fg}(cancelled){/}');
+      } else if (result.error) {
+        this.resultsTable.setContent(`{red-fg}Error:{/} ${result.error}` +
+          (issues.length > 0 ? '\n\n' + this.formatValidationIssues(query, issues) : ''));
         this.resultsTable.setLabel(' Results <3> {red-fg}(error){/}');
       } else {
         // Store schema and headers
         this.lastResultSchema = result.schema;
         this.lastResponseHeaders = result.headers;
-        this.displayResults(result.data, result.metadata);
+        this.displayResults(result.data, estimate ? { ...result.metadata, estimate } : result.metadata);
         this.queryHistory.push(query);
 
         // Save to history file if enabled
@@ -816,6 +1872,8 @@ export class R2SQLTUI {
 
       this.screen.render();
     } catch (error) {
+      this.runningQuery = null;
+
       // Stop animation on error
       this.stopArtAnimation();
 
@@ -841,6 +1899,18 @@ export class R2SQLTUI {
     } else if (this.resultsDisplayMode === 'metadata') {
       this.displayTableMetadata();
       return;
+    } else if (this.resultsDisplayMode === 'snapshots') {
+      this.displaySnapshots();
+      return;
+    } else if (this.resultsDisplayMode === 'refs') {
+      this.displayRefs();
+      return;
+    } else if (this.resultsDisplayMode === 'partitions') {
+      this.displayPartitions();
+      return;
+    } else if (this.resultsDisplayMode === 'schema-history') {
+      this.displaySchemaHistory();
+      return;
     }
 
     if (data.length === 0) {
@@ -851,7 +1921,11 @@ export class R2SQLTUI {
         if (metadata.r2RequestsCount) debugInfo += `  R2 Requests: ${metadata.r2RequestsCount}\n`;
         if (metadata.filesScanned) debugInfo += `  Files Scanned: ${metadata.filesScanned}\n`;
         if (metadata.bytesScanned) debugInfo += `  Bytes Scanned: ${metadata.bytesScanned.toLocaleString()}\n`;
+        if (metadata.estimate) {
+          debugInfo += `  Estimated Scan: ${metadata.estimate.files} files, ${metadata.estimate.bytes.toLocaleString()} bytes\n`;
+        }
         if (metadata.executionTime) debugInfo += `  Execution Time: ${metadata.executionTime} ms\n`;
+        if (metadata.retries) debugInfo += `  Retries: ${metadata.retries}\n`;
       }
       this.resultsTable.setContent(debugInfo);
       this.resultsTable.setLabel(' Results <3> {white-fg}(0 rows){/}');
@@ -868,12 +1942,10 @@ export class R2SQLTUI {
       if (metadata.rowCount !== undefined) output += `Rows: ${metadata.rowCount}  `;
       if (metadata.r2RequestsCount) output += `R2 Requests: ${metadata.r2RequestsCount}  `;
       if (metadata.filesScanned) output += `Files: ${metadata.filesScanned}  `;
-      if (metadata.bytesScanned) {
-        const kb = metadata.bytesScanned / 1024;
-        const mb = kb / 1024;
-        output += `Scanned: ${mb >= 1 ? mb.toFixed(2) + ' MB' : kb.toFixed(2) + ' KB'}  `;
-      }
-      if (metadata.executionTime) output += `Time: ${metadata.executionTime.toFixed(2)} ms`;
+      if (metadata.bytesScanned) output += `Scanned: ${formatBytes(metadata.bytesScanned)}  `;
+      if (metadata.executionTime) output += `Time: ${metadata.executionTime.toFixed(2)} ms  `;
+      if (metadata.estimate) output += `Est.: ${metadata.estimate.files} files / ${this.formatSize(metadata.estimate.bytes)}  `;
+      if (metadata.retries) output += `{yellow-fg}Retries: ${metadata.retries}{/}{#CCCCCC-fg}`;
       output += '{/}\n';
 
       // Show filter info if this is filtered data
@@ -1076,6 +2148,281 @@ export class R2SQLTUI {
     this.resultsTable.setLabel(` Results <3> {gray-fg}[metadata] ${viewLabel}{/}`);
   }
 
+  private displaySnapshots(filter?: string) {
+    const metadata = this.lastTableMetadata?.fullMetadata;
+    if (!metadata) {
+      this.resultsTable.setContent('{yellow-fg}No table metadata available{/}\n\n{#CCCCCC-fg}Select a table from the sidebar to view its snapshots{/}');
+      this.resultsTable.setLabel(' Results <3> {gray-fg}[snapshots]{/}');
+      return;
+    }
+
+    const allRows = getSnapshotRows(metadata);
+    let rows = sortSnapshotRows(allRows, this.snapshotSortKey, this.snapshotSortDescending);
+    if (filter) {
+      rows = rows.filter(row => JSON.stringify(row).toLowerCase().includes(filter));
+      this.searchMatches = rows.map((_, i) => i);
+      this.currentMatchIndex = rows.length > 0 ? 0 : -1;
+    }
+
+    const tableName = `${this.lastTableMetadata.namespace.join('.')}.${this.lastTableMetadata.name}`;
+    const direction = this.snapshotSortDescending ? '↓' : '↑';
+    let output = `{#F38020-fg}{bold}Snapshots: ${tableName}{/}\n`;
+    output += `{#CCCCCC-fg}Sorted by ${this.snapshotSortKey} ${direction}  ([s] sort column, [S] direction){/}\n\n`;
+
+    if (rows.length === 0) {
+      output += filter ? '{yellow-fg}No matching snapshots{/}' : '{yellow-fg}This table has no snapshots yet{/}';
+    } else if (this.resultsViewMode === 'list') {
+      rows.forEach(row => {
+        const labels = row.isCurrent ? ['current', ...row.refs] : row.refs;
+        output += `{#F38020-fg}Snapshot ${row.snapshotId}{/}${labels.length > 0 ? ` {green-fg}(${labels.join(', ')}){/}` : ''}\n`;
+        output += `  {gray-fg}parent:{/}      ${row.parentId ?? '-'}\n`;
+        output += `  {gray-fg}timestamp:{/}   {cyan-fg}${formatTimestampMs(row.timestampMs)}{/}\n`;
+        output += `  {gray-fg}operation:{/}   ${row.operation}\n`;
+        output += `  {gray-fg}data files:{/}  +${this.formatCount(row.addedDataFiles)} / -${this.formatCount(row.deletedDataFiles)}\n`;
+        output += `  {gray-fg}records:{/}     +${this.formatCount(row.addedRecords)} / -${this.formatCount(row.deletedRecords)}\n`;
+        output += `  {gray-fg}size:{/}        +${this.formatSize(row.addedFilesSize)} / -${this.formatSize(row.removedFilesSize)}\n\n`;
+      });
+    } else {
+      const columns: [string, number][] = [
+        ['Snapshot ID', 21], ['Parent', 21], ['Timestamp (UTC)', 22], ['Operation', 11],
+        ['+Files', 8], ['-Files', 8], ['+Records', 12], ['-Records', 12], ['+Size', 11], ['-Size', 11],
+      ];
+      output += '{#F38020-fg}{bold}' + columns.map(([name, width]) => name.padEnd(width)).join('') + '{/}\n';
+      output += '─'.repeat(columns.reduce((sum, [, width]) => sum + width, 0)) + '\n';
+
+      rows.forEach(row => {
+        const values = [
+          row.snapshotId, row.parentId ?? '-', formatTimestampMs(row.timestampMs), row.operation,
+          this.formatCount(row.addedDataFiles), this.formatCount(row.deletedDataFiles),
+          this.formatCount(row.addedRecords), this.formatCount(row.deletedRecords),
+          this.formatSize(row.addedFilesSize), this.formatSize(row.removedFilesSize),
+        ];
+        const line = values.map((value, i) => value.padEnd(columns[i][1]).substring(0, columns[i][1])).join('');
+        output += row.isCurrent ? `{green-fg}${line}{/}\n` : `${line}\n`;
+      });
+    }
+
+    this.resultsTable.setContent(output);
+    const viewLabel = this.resultsViewMode === 'table' ? '[table]' : '[list]';
+    const countLabel = filter ? `filtered: ${rows.length}/${allRows.length} snapshots` : `${allRows.length} snapshots`;
+    this.resultsTable.setLabel(` Results <3> {white-fg}(${countLabel}){/} {gray-fg}${viewLabel} [snapshots]{/}`);
+  }
+
+  private displayRefs(filter?: string) {
+    const metadata = this.lastTableMetadata?.fullMetadata;
+    if (!metadata) {
+      this.resultsTable.setContent('{yellow-fg}No table metadata available{/}\n\n{#CCCCCC-fg}Select a table from the sidebar to view its branches and tags{/}');
+      this.resultsTable.setLabel(' Results <3> {gray-fg}[refs]{/}');
+      return;
+    }
+
+    const allRefs = getRefRows(metadata);
+    const refs = filter
+      ? allRefs.filter(ref => `${ref.name} ${ref.type} ${ref.snapshotId}`.toLowerCase().includes(filter))
+      : allRefs;
+    const duration = (value: number | null) => value === null ? '-' : formatDurationMs(value);
+
+    const tableName = `${this.lastTableMetadata.namespace.join('.')}.${this.lastTableMetadata.name}`;
+    let output = `{#F38020-fg}{bold}Branches & Tags: ${tableName}{/}\n\n`;
+
+    if (refs.length === 0) {
+      output += filter ? '{yellow-fg}No matching refs{/}' : '{yellow-fg}No branches or tags{/}';
+    } else if (this.resultsViewMode === 'list') {
+      refs.forEach(ref => {
+        const marker = ref.isMain ? ' {green-fg}(main){/}' : '';
+        output += `{#F38020-fg}${ref.name}{/}${marker} {gray-fg}${ref.type}{/}\n`;
+        output += `  {gray-fg}snapshot:{/}          ${ref.snapshotId}\n`;
+        if (ref.snapshotTimestampMs !== null) output += `  {gray-fg}snapshot time:{/}     ${formatTimestampMs(ref.snapshotTimestampMs)}\n`;
+        output += `  {gray-fg}max ref age:{/}       ${duration(ref.maxRefAgeMs)}\n`;
+        if (ref.type === 'branch') {
+          output += `  {gray-fg}max snapshot age:{/}  ${duration(ref.maxSnapshotAgeMs)}\n`;
+          output += `  {gray-fg}min snapshots:{/}     ${ref.minSnapshotsToKeep ?? '-'}\n`;
+        }
+        output += '\n';
+      });
+    } else {
+      output += '{gray-fg}' + 'Name'.padEnd(28) + 'Type'.padEnd(8) + 'Snapshot ID'.padEnd(22) + 'Snapshot Time'.padEnd(24) + 'Ref Age'.padEnd(10) + 'Snap Age'.padEnd(10) + 'Min Snaps{/}\n';
+      refs.forEach(ref => {
+        const name = ref.isMain ? `{green-fg}${ref.name.padEnd(28)}{/}` : ref.name.padEnd(28);
+        const time = ref.snapshotTimestampMs !== null ? formatTimestampMs(ref.snapshotTimestampMs) : '-';
+        output += `${name}${ref.type.padEnd(8)}${ref.snapshotId.padEnd(22)}${time.padEnd(24)}` +
+          `${duration(ref.maxRefAgeMs).padEnd(10)}${duration(ref.maxSnapshotAgeMs).padEnd(10)}${ref.minSnapshotsToKeep ?? '-'}\n`;
+      });
+      output += '\n{green-fg}green{/} {gray-fg}= main branch{/}';
+    }
+
+    if (filter) {
+      this.searchMatches = refs.map((_, i) => i);
+      this.currentMatchIndex = 0;
+    }
+
+    this.resultsTable.setContent(output);
+    const countLabel = filter ? `{yellow-fg}(filtered: ${refs.length}/${allRefs.length}){/}` : `{white-fg}(${allRefs.length} refs){/}`;
+    this.resultsTable.setLabel(` Results <3> ${countLabel} {gray-fg}[refs]{/}`);
+  }
+
+  private displayPartitions(filter?: string) {
+    const metadata = this.lastTableMetadata?.fullMetadata;
+    if (!metadata) {
+      this.resultsTable.setContent('{yellow-fg}No table metadata available{/}\n\n{#CCCCCC-fg}Select a table from the sidebar to view its partition layout{/}');
+      this.resultsTable.setLabel(' Results <3> {gray-fg}[partitions]{/}');
+      return;
+    }
+
+    const specs = getPartitionSpecs(metadata);
+    const orders = getSortOrders(metadata);
+    const matches = (text: string) => !filter || text.toLowerCase().includes(filter);
+
+    const tableName = `${this.lastTableMetadata.namespace.join('.')}.${this.lastTableMetadata.name}`;
+    let output = `{#F38020-fg}{bold}Partition Layout: ${tableName}{/}\n\n`;
+    let matchCount = 0;
+
+    output += '{#F38020-fg}{bold}Partition Specs{/}\n';
+    if (specs.length === 0) {
+      output += '  {gray-fg}(none){/}\n';
+    }
+    for (const spec of specs) {
+      const label = spec.isDefault ? '{green-fg}(default){/}' : '{gray-fg}(historical){/}';
+      const fields = spec.fields.filter(field => matches(`${field.name} ${field.expression} ${field.sourceColumn}`));
+      if (spec.fields.length === 0) {
+        output += `  Spec ${spec.specId} ${label} {gray-fg}- unpartitioned{/}\n`;
+        continue;
+      }
+      if (fields.length === 0) continue;
+      matchCount += fields.length;
+
+      output += `  Spec ${spec.specId} ${label}\n`;
+      if (this.resultsViewMode === 'list') {
+        fields.forEach(field => {
+          output += `    {#F38020-fg}${field.name}{/}\n`;
+          output += `      {gray-fg}expression:{/} {yellow-fg}${field.expression}{/}\n`;
+          output += `      {gray-fg}source:{/}     ${field.sourceColumn} (id ${field.sourceId})\n`;
+          output += `      {gray-fg}transform:{/}  ${field.transform}\n`;
+        });
+      } else {
+        output += '    {gray-fg}' + 'Field'.padEnd(25) + 'Expression'.padEnd(30) + 'Source Column'.padEnd(25) + 'Field ID{/}\n';
+        fields.forEach(field => {
+          output += `    ${field.name.padEnd(25)}{yellow-fg}${field.expression.padEnd(30)}{/}${field.sourceColumn.padEnd(25)}${field.fieldId ?? '-'}\n`;
+        });
+      }
+    }
+
+    output += '\n{#F38020-fg}{bold}Sort Orders{/}\n';
+    if (orders.length === 0) {
+      output += '  {gray-fg}(none){/}\n';
+    }
+    for (const order of orders) {
+      const fields = order.fields.map(field => [field.expression, field.direction, field.nullOrder].filter(Boolean).join(' '));
+      const text = fields.length > 0 ? fields.join(', ') : 'unsorted';
+      if (!matches(text)) continue;
+      matchCount++;
+      output += `  Order ${order.orderId}${order.isDefault ? ' {green-fg}(default){/}' : ''}: ${fields.length > 0 ? `{yellow-fg}${text}{/}` : '{gray-fg}unsorted{/}'}\n`;
+    }
+
+    output += '\n{#CCCCCC-fg}Filter on partition columns with the transform in mind (e.g. a range on ts for day(ts)) so R2 SQL can prune files{/}';
+
+    if (filter) {
+      this.searchMatches = matchCount > 0 ? [0] : [];
+      this.currentMatchIndex = 0;
+    }
+
+    this.resultsTable.setContent(output);
+    const viewLabel = this.resultsViewMode === 'table' ? '[table]' : '[list]';
+    const countLabel = filter ? '{yellow-fg}(filtered){/} ' : '';
+    this.resultsTable.setLabel(` Results <3> ${countLabel}{gray-fg}${viewLabel} [partitions]{/}`);
+  }
+
+  private displaySchemaHistory(filter?: string) {
+    const metadata = this.lastTableMetadata?.fullMetadata;
+    if (!metadata) {
+      this.resultsTable.setContent('{yellow-fg}No table metadata available{/}\n\n{#CCCCCC-fg}Select a table from the sidebar to view its schema history{/}');
+      this.resultsTable.setLabel(' Results <3> {gray-fg}[schema-history]{/}');
+      return;
+    }
+
+    const versions = getSchemaHistory(metadata);
+    const colors: Record<SchemaChangeKind, string> = {
+      'added': 'green',
+      'dropped': 'red',
+      'renamed': 'cyan',
+      'type-promoted': 'yellow',
+      'nullability': 'magenta',
+    };
+
+    const tableName = `${this.lastTableMetadata.namespace.join('.')}.${this.lastTableMetadata.name}`;
+    let output = `{#F38020-fg}{bold}Schema History: ${tableName}{/}\n\n`;
+    let matchCount = 0;
+
+    // Newest version first - that's usually what you're debugging
+    [...versions].reverse().forEach(version => {
+      const changes = version.changes.filter(change =>
+        !filter || `${change.kind} ${change.name} ${change.detail}`.toLowerCase().includes(filter)
+      );
+      if (filter && changes.length === 0) return;
+      matchCount += changes.length;
+
+      output += `{#F38020-fg}Schema ${version.schemaId}{/}`;
+      if (version.isCurrent) output += ' {green-fg}(current){/}';
+      output += ` {gray-fg}${version.fieldCount} fields`;
+      if (version.firstUsedMs !== null) output += `, first written ${formatTimestampMs(version.firstUsedMs)}`;
+      output += '{/}\n';
+
+      if (version === versions[0]) {
+        output += '  {gray-fg}initial schema{/}\n';
+      } else if (changes.length === 0) {
+        output += '  {gray-fg}no field changes{/}\n';
+      }
+      changes.forEach(change => {
+        output += `  {${colors[change.kind]}-fg}${change.kind.padEnd(14)}{/} ${change.name.padEnd(30)} ${change.detail} {gray-fg}(id ${change.fieldId}){/}\n`;
+      });
+      output += '\n';
+    });
+
+    if (filter) {
+      this.searchMatches = matchCount > 0 ? [0] : [];
+      this.currentMatchIndex = 0;
+      if (matchCount === 0) output += '{yellow-fg}No matching schema changes{/}';
+    }
+
+    this.resultsTable.setContent(output);
+    const countLabel = filter ? `{yellow-fg}(filtered: ${matchCount} changes){/}` : `{white-fg}(${versions.length} versions){/}`;
+    this.resultsTable.setLabel(` Results <3> ${countLabel} {gray-fg}[schema-history]{/}`);
+  }
+
+  private formatTableDetails(details: TableDetails): string {
+    let output = '';
+    for (const section of getTableDetailSections(details)) {
+      if (output) output += '\n';
+      output += `{#F38020-fg}${section.title}{/}\n`;
+      if (section.rows.length === 0) {
+        output += '  {gray-fg}(none){/}\n';
+      }
+      for (const { label, value } of section.rows) {
+        output += `  {#CCCCCC-fg}${blessed.escape(label.padEnd(section.labelWidth))}{/} ${value === null ? '{gray-fg}-{/}' : blessed.escape(value)}\n`;
+      }
+    }
+    return output;
+  }
+
+  private formatEstimate(estimate: CostEstimate): string {
+    const share = estimate.totalBytes > 0 ? ` (${(estimate.bytes / estimate.totalBytes * 100).toFixed(1)}% of the table)` : '';
+    let output = `{#CCCCCC-fg}Table{/}            ${estimate.table}\n`;
+    output += `{#CCCCCC-fg}Estimated files{/}  ${estimate.files.toLocaleString()} of ${estimate.totalFiles.toLocaleString()}\n`;
+    output += `{#CCCCCC-fg}Estimated bytes{/}  ${this.formatSize(estimate.bytes)} of ${this.formatSize(estimate.totalBytes)}${share}\n`;
+    if (!estimate.prunable) {
+      output += '\n{yellow-fg}The WHERE clause has no predicates on partition values or column bounds, so this is a full table scan{/}\n';
+    }
+    return output;
+  }
+
+  private formatCount(value: number | null): string {
+    return value === null ? '-' : value.toLocaleString();
+  }
+
+  private formatSize(value: number | null): string {
+    return value === null ? '-' : formatBytes(value);
+  }
+
   private formatJsonWithHighlighting(obj: any, indent: number): string {
     const indentStr = '  '.repeat(indent);
     let output = '';
@@ -1139,6 +2486,15 @@ export class R2SQLTUI {
         content = JSON.stringify(this.lastResponseHeaders, null, 2);
       } else if (this.resultsDisplayMode === 'metadata') {
         content = JSON.stringify(this.lastTableMetadata?.fullMetadata || this.lastTableMetadata, null, 2);
+      } else if (this.resultsDisplayMode === 'snapshots') {
+        content = JSON.stringify(getSnapshotRows(this.lastTableMetadata?.fullMetadata), null, 2);
+      } else if (this.resultsDisplayMode === 'refs') {
+        content = JSON.stringify(getRefRows(this.lastTableMetadata?.fullMetadata), null, 2);
+      } else if (this.resultsDisplayMode === 'partitions') {
+        const metadata = this.lastTableMetadata?.fullMetadata;
+        content = JSON.stringify({ partitionSpecs: getPartitionSpecs(metadata), sortOrders: getSortOrders(metadata) }, null, 2);
+      } else if (this.resultsDisplayMode === 'schema-history') {
+        content = JSON.stringify(getSchemaHistory(this.lastTableMetadata?.fullMetadata), null, 2);
       } else if (this.lastResultData.length > 0) {
         if (format === 'json') {
           content = JSON.stringify(this.lastResultData, null, 2);
@@ -1222,9 +2578,7 @@ export class R2SQLTUI {
       this.resultsTable.setLabel(` Results <3> {green-fg}(Copied as ${formatLabel}!){/}`);
       setTimeout(() => {
         const viewLabel = this.resultsViewMode === 'table' ? '[table]' : '[list]';
-        const modeLabel = this.resultsDisplayMode === 'data' ? '[data]' :
-                          this.resultsDisplayMode === 'schema' ? '[schema]' :
-                          this.resultsDisplayMode === 'headers' ? '[headers]' : '[metadata]';
+        const modeLabel = `[${this.resultsDisplayMode}]`;
         this.resultsTable.setLabel(` Results <3> {white-fg}(${this.lastResultData.length} rows){/} {gray-fg}${viewLabel} ${modeLabel}{/}`);
         this.screen.render();
       }, 2000);
@@ -1346,10 +2700,15 @@ export class R2SQLTUI {
       pad('{bold}' + (this.isMac ? 'F5 or x' : 'Ctrl+E/F5/x') + '{/}', 'Execute (x in navigation mode)'),
       pad('{bold}' + (this.isMac ? 'Shift+F5' : 'Ctrl+F') + '{/}', 'Format query'),
       pad('{bold}Ctrl+L{/}', 'Clear query'),
+      pad('{bold}Tab{/}', 'Complete keywords, tables, columns (with types) and operators'),
+      pad('{bold}Ctrl+C{/}', 'Cancel running query'),
+      pad('{bold}EXPLAIN <query>{/}', 'Show the query plan instead of running it'),
+      pad('{bold}USE BUCKET <name>{/}', 'Set the default bucket (ATTACH BUCKET adds one, SHOW BUCKETS lists them)'),
       '',
       '{yellow-fg}Results View:{/}',
       pad('{bold}t{/}', 'Toggle table/list view'),
-      pad('{bold}v{/}', 'Cycle: data → schema → headers → metadata'),
+      pad('{bold}v{/}', 'Cycle: data → schema → headers → metadata → snapshots → refs → partitions → schema history'),
+      pad('{bold}s / S{/}', 'Snapshots: sort column / direction'),
       pad('{bold}/{/}', 'Search names & values (col:val for exact)'),
       pad('{bold}n / N{/}', 'Next/previous match'),
       pad('{bold}Esc{/}', 'Clear search'),
@@ -1359,7 +2718,10 @@ export class R2SQLTUI {
       pad('{bold}m{/}', 'Copy as Markdown'),
       '',
       '{yellow-fg}Other:{/}',
+      pad('{bold}a{/}', 'Sidebar actions: namespaces, tags/branches, rename/drop table'),
+      pad('{bold}f{/}', 'Explore data files of the selected table'),
       pad('{bold}r, R{/}', 'Refresh namespaces'),
+      pad('{bold}p{/}', 'Switch profile (stored credentials)'),
       pad('{bold}?{/}', 'Show this help'),
       pad('{bold}q, Ctrl+c{/}', 'Quit (navigation mode)'),
       '',
@@ -1418,13 +2780,13 @@ export class R2SQLTUI {
     }
   }
 
-  private async showTableSchema(namespace: string, tableName: string) {
+  private async showTableSchema(bucket: string, namespace: string, tableName: string, extended: boolean = false) {
     try {
       this.resultsTable.setLabel(' Results <3> {yellow-fg}(loading schema...){/}');
       this.resultsTable.setContent('{yellow-fg}Loading table schema...{/}');
       this.screen.render();
 
-      const metadata = await this.catalogClient.getTableMetadata(namespace, tableName);
+      const metadata = await this.buckets.get(bucket).catalogClient.getTableMetadata(namespace, tableName);
 
       // Store the full metadata for the metadata view
       this.lastTableMetadata = metadata;
@@ -1449,6 +2811,10 @@ export class R2SQLTUI {
         output += `${name} ${type} ${nullable}\n`;
       }
 
+      if (extended) {
+        output += '\n' + this.formatTableDetails(getTableDetails(metadata.fullMetadata));
+      }
+
       output += '\n{#CCCCCC-fg}Press F5 or x (in navigation mode) to execute query{/}';
 
       this.resultsTable.setContent(output);
@@ -1460,10 +2826,19 @@ export class R2SQLTUI {
     }
   }
 
-  private showAutocomplete() {
+  private async showAutocomplete() {
     const query = this.queryEditor.getValue();
     const cursorPos = query.length; // Simplified: assume cursor at end
 
+    // Columns and type-appropriate operators take precedence once the table is known
+    const schemaCompletions = await this.getSchemaCompletions(query);
+    if (schemaCompletions.length > 0) {
+      this.setAutocompleteItems(schemaCompletions);
+      this.autocompleteBox.focus();
+      this.screen.render();
+      return;
+    }
+
     // Get the word being typed
     const beforeCursor = query.substring(0, cursorPos).trim();
     const words = beforeCursor.split(/\s+/);
@@ -1475,22 +2850,7 @@ export class R2SQLTUI {
 
     // Check if user is typing after a namespace (e.g., "namespace.")
     if (currentWord.includes('.')) {
-      const parts = currentWord.split('.');
-      const namespacePart = parts[0];
-      const tablePart = parts[1] || '';
-
-      // Find matching namespace
-      for (const [namespace, tables] of this.namespaces.entries()) {
-        if (namespace.toLowerCase() === namespacePart.toLowerCase()) {
-          // Suggest tables from this namespace
-          tables.forEach(table => {
-            if (table.toLowerCase().startsWith(tablePart.toLowerCase())) {
-              suggestions.push(`${namespace}.${table}`);
-            }
-          });
-          break;
-        }
-      }
+      suggestions.push(...this.getQualifiedNameSuggestions(currentWord));
     } else {
       // Context-aware suggestions
       const hasSelect = queryUpper.includes('SELECT');
@@ -1508,7 +2868,7 @@ export class R2SQLTUI {
         }
       } else if (lastKeyword === 'FROM' || (hasSelect && hasFrom)) {
         // After FROM, suggest namespace.table combinations
-        for (const [namespace, tables] of this.namespaces.entries()) {
+        for (const [namespace, tables] of this.loadedTables()) {
           tables.forEach(table => {
             const fullName = `${namespace}.${table}`;
             if (fullName.toLowerCase().startsWith(currentWord.toLowerCase()) || currentWord.length === 0) {
@@ -1544,7 +2904,7 @@ export class R2SQLTUI {
 
         // Also suggest namespaces and tables if there's some text
         if (currentWord.length > 0) {
-          for (const [namespace, tables] of this.namespaces.entries()) {
+          for (const [namespace, tables] of this.loadedTables()) {
             if (namespace.toLowerCase().startsWith(currentWord.toLowerCase())) {
               suggestions.push(namespace);
             }
@@ -1567,13 +2927,43 @@ export class R2SQLTUI {
     }
 
     // Show autocomplete box
+    this.setAutocompleteItems(uniqueSuggestions.map(text => ({ text })));
+    this.autocompleteBox.focus();
+    this.screen.render();
+  }
+
+  // Column, operator and function suggestions from the FROM table's schema - or, before FROM is typed,
+  // from the table last opened in the sidebar
+  private async getSchemaCompletions(query: string): Promise<Completion[]> {
+    const context = getCompletionContext(query);
+    if (!context.clause || context.clause === 'from' || context.clause === 'limit') return [];
+
+    const lastTable = this.lastTableMetadata ? `${this.lastTableMetadata.namespace.join('.')}.${this.lastTableMetadata.name}` : null;
+    const tableName = context.table ?? lastTable;
+    const resolved = tableName ? await this.resolveQueryTable(tableName) : null;
+    if (!resolved) return [];
+
+    try {
+      const { schemaCache } = await this.buckets.ownerOf(resolved.namespace, resolved.table);
+      const columns = await schemaCache.getColumns(resolved.namespace, resolved.table);
+      return columns ? completeFromSchema(columns, context) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private setAutocompleteItems(completions: Completion[]) {
+    // Limit to 15 items
+    this.autocompleteCompletions = completions.slice(0, 15);
     this.autocompleteBox.clearItems();
-    this.autocompleteBox.setItems(uniqueSuggestions.slice(0, 15)); // Limit to 15 items
+    this.autocompleteBox.setItems(this.autocompleteCompletions.map(completion =>
+      completion.detail
+        ? `${blessed.escape(completion.text)} {gray-fg}${blessed.escape(completion.detail)}{/}`
+        : blessed.escape(completion.text)
+    ));
     this.autocompleteBox.select(0);
     this.autocompleteBox.show();
-    this.autocompleteBox.focus();
     this.autocompleteVisible = true;
-    this.screen.render();
   }
 
   private showAutocompleteAuto() {
@@ -1597,22 +2987,7 @@ export class R2SQLTUI {
 
     // Check if user is typing after a namespace (e.g., "namespace.")
     if (currentWord.includes('.')) {
-      const parts = currentWord.split('.');
-      const namespacePart = parts[0];
-      const tablePart = parts[1] || '';
-
-      // Find matching namespace
-      for (const [namespace, tables] of this.namespaces.entries()) {
-        if (namespace.toLowerCase() === namespacePart.toLowerCase()) {
-          // Suggest tables from this namespace
-          tables.forEach(table => {
-            if (table.toLowerCase().startsWith(tablePart.toLowerCase())) {
-              suggestions.push(`${namespace}.${table}`);
-            }
-          });
-          break;
-        }
-      }
+      suggestions.push(...this.getQualifiedNameSuggestions(currentWord));
     } else {
       // Context-aware suggestions
       const hasSelect = queryUpper.includes('SELECT');
@@ -1630,7 +3005,7 @@ export class R2SQLTUI {
         }
       } else if (lastKeyword === 'FROM' || (hasSelect && hasFrom)) {
         // After FROM, suggest namespace.table combinations
-        for (const [namespace, tables] of this.namespaces.entries()) {
+        for (const [namespace, tables] of this.loadedTables()) {
           tables.forEach(table => {
             const fullName = `${namespace}.${table}`;
             if (fullName.toLowerCase().startsWith(currentWord.toLowerCase()) || currentWord.length === 0) {
@@ -1666,7 +3041,7 @@ export class R2SQLTUI {
 
         // Also suggest namespaces and tables if there's some text
         if (currentWord.length > 0) {
-          for (const [namespace, tables] of this.namespaces.entries()) {
+          for (const [namespace, tables] of this.loadedTables()) {
             if (namespace.toLowerCase().startsWith(currentWord.toLowerCase())) {
               suggestions.push(namespace);
             }
@@ -1690,15 +3065,49 @@ export class R2SQLTUI {
     }
 
     // Show autocomplete box WITHOUT stealing focus
-    this.autocompleteBox.clearItems();
-    this.autocompleteBox.setItems(uniqueSuggestions.slice(0, 15)); // Limit to 15 items
-    this.autocompleteBox.select(0);
-    this.autocompleteBox.show();
-    this.autocompleteVisible = true;
+    this.setAutocompleteItems(uniqueSuggestions.map(text => ({ text })));
     // DON'T focus the autocomplete box - keep focus on query editor
     this.screen.render();
   }
 
+  // Complete a dotted name like ns1.ns2.ta - everything before the last dot is the namespace
+  private getQualifiedNameSuggestions(word: string): string[] {
+    const lastDot = word.lastIndexOf('.');
+    const namespacePart = word.substring(0, lastDot).toLowerCase();
+    const namePart = word.substring(lastDot + 1).toLowerCase();
+    const suggestions: string[] = [];
+
+    // The namespace may exist in more than one bucket
+    for (const connection of this.buckets.all()) {
+      for (const [namespace, tables] of connection.namespaces) {
+        if (namespace.toLowerCase() !== namespacePart) continue;
+
+        // Nested namespaces first, so the user can keep drilling down
+        for (const child of connection.childNamespaces.get(namespace) || []) {
+          const childName = child.substring(namespace.length + 1);
+          if (childName.toLowerCase().startsWith(namePart)) {
+            suggestions.push(child);
+          }
+        }
+
+        // Then tables in this namespace
+        tables.forEach(table => {
+          if (table.toLowerCase().startsWith(namePart)) {
+            suggestions.push(`${namespace}.${table}`);
+          }
+        });
+        break;
+      }
+    }
+
+    return suggestions;
+  }
+
+  // Namespaces with their loaded tables, across all attached buckets
+  private loadedTables(): Array<[string, string[]]> {
+    return this.buckets.all().flatMap(connection => [...connection.namespaces.entries()]);
+  }
+
   private getLastKeyword(text: string): string {
     const upperText = text.toUpperCase();
     const keywords = ['SELECT', 'FROM', 'WHERE', 'ORDER BY', 'LIMIT'];
@@ -1729,17 +3138,8 @@ export class R2SQLTUI {
     const query = this.queryEditor.getValue();
     const queryUpper = query.toUpperCase();
 
-    // Find the last word to replace (only look at non-whitespace before cursor)
-    let lastWordStart = query.length;
-    for (let i = query.length - 1; i >= 0; i--) {
-      if (/\s/.test(query[i])) {
-        lastWordStart = i + 1;
-        break;
-      }
-      if (i === 0) {
-        lastWordStart = 0;
-      }
-    }
+    // Replace the word being completed - a name or partial operator, not a preceding "(" or ","
+    const lastWordStart = query.length - getCompletionContext(query).word.length;
 
     // Replace the last word with the selected suggestion
     const beforeLastWord = query.substring(0, lastWordStart);
@@ -1915,39 +3315,129 @@ export class R2SQLTUI {
   }
 
   private async loadNamespacesAndTables() {
-    try {
-      this.sidebar.setLabel(' Schemas {yellow-fg}(loading...){/}');
+    this.sidebar.setLabel(this.sidebarLabel('{yellow-fg}(loading...){/}'));
 
-      const namespaces = await this.catalogClient.listNamespaces();
-      this.namespaces.clear();
+    const connections = this.buckets.all();
+    const results = await Promise.allSettled(connections.map(connection => this.loadBucketTree(connection)));
+    const failures = results.flatMap((result, index) => result.status === 'rejected'
+      ? [{ bucket: connections[index].config.bucketName, error: result.reason }]
+      : []);
 
-      // Load all tables for all namespaces in parallel
-      const tablePromises = namespaces.map(async (ns) => {
-        try {
-          const tables = await this.catalogClient.listTables(ns);
-          return { namespace: ns, tables };
-        } catch {
-          return { namespace: ns, tables: [] };
-        }
-      });
+    if (connections.length === 1 && failures.length > 0) {
+      const error = failures[0].error;
+      this.showError('Failed to load namespaces: ' + (error instanceof Error ? error.message : String(error)));
+      return;
+    }
+    if (failures.length > 0) {
+      this.showError(failures.map(({ bucket, error }) =>
+        `Failed to load namespaces of bucket ${bucket}: ${error instanceof Error ? error.message : String(error)}`).join('\n'));
+    }
+
+    this.sidebarEntries = this.buildSidebarTree();
+    this.sidebar.setLabel(this.sidebarLabel());
+    this.renderSidebar(0);
+  }
+
+  // Only top-level namespaces are shown until expanded. With several buckets each bucket is a
+  // top-level node, and the default bucket starts expanded.
+  private buildSidebarTree(): SidebarEntry[] {
+    const connections = this.buckets.all();
+    if (connections.length === 1) {
+      return this.buildChildEntries(connections[0], '', 0);
+    }
 
-      const results = await Promise.all(tablePromises);
+    return connections.flatMap(connection => {
+      const bucket = connection.config.bucketName;
+      const expanded = bucket === this.buckets.defaultBucketName;
+      const node: SidebarEntry = { type: 'bucket', bucket, namespace: '', name: bucket, depth: 0, expanded };
+      return expanded ? [node, ...this.buildChildEntries(connection, '', 1)] : [node];
+    });
+  }
 
-      const items: string[] = [];
-      for (const { namespace, tables } of results) {
-        items.push(`{#F38020-fg}▸{/} ${String(namespace)}`);
-        this.namespaces.set(namespace, tables);
+  // Namespace tree of one bucket, with the first page of tables in each namespace
+  private async loadBucketTree(connection: BucketConnection) {
+    const tree = await connection.catalogClient.getNamespaceTree();
+    connection.namespaces.clear();
+    connection.childNamespaces.clear();
+    connection.childNamespaces.set('', tree.map(node => node.path.join('.')));
+
+    // Flatten the hierarchy into dotted names, remembering each namespace's children
+    const namespaces: string[] = [];
+    const walk = (nodes: NamespaceNode[]) => {
+      for (const node of nodes) {
+        const name = node.path.join('.');
+        namespaces.push(name);
+        connection.childNamespaces.set(name, node.children.map(child => child.path.join('.')));
+        walk(node.children);
       }
+    };
+    walk(tree);
 
-      this.sidebar.clearItems();
-      this.sidebar.setItems(items);
-      this.sidebar.setLabel(' Schemas ');
-      if (items.length > 0) {
-        this.sidebar.select(0);
+    // Only the first page of each namespace is loaded up front; more load lazily in the sidebar
+    connection.tablePageTokens.clear();
+    const tablePromises = namespaces.map(async (ns) => {
+      try {
+        const page = await connection.catalogClient.listTablesPage(ns, { pageSize: this.sidebarPageSize });
+        return { namespace: ns, tables: page.items, nextPageToken: page.nextPageToken };
+      } catch {
+        return { namespace: ns, tables: [] as string[], nextPageToken: undefined };
       }
+    });
+
+    const results = await Promise.all(tablePromises);
+
+    for (const { namespace, tables, nextPageToken } of results) {
+      connection.namespaces.set(namespace, tables);
+      this.setTablePageToken(connection, namespace, nextPageToken);
+    }
+  }
+
+  /**
+   * USE BUCKET, ATTACH BUCKET and SHOW BUCKETS. A newly attached bucket is only kept if its catalog loads.
+   */
+  private async runBucketCommand(command: BucketCommand) {
+    if (command.kind === 'show') {
+      const lines = this.buckets.buckets.map(bucket => bucket === this.buckets.defaultBucketName
+        ? `{green-fg}●{/} {bold}${blessed.escape(bucket)}{/} {gray-fg}(default){/}`
+        : `  ${blessed.escape(bucket)}`);
+      this.resultsTable.setContent(`{#F38020-fg}{bold}Attached buckets{/}\n\n${lines.join('\n')}`);
+      this.resultsTable.setLabel(' Results <3> ');
       this.screen.render();
+      return;
+    }
+
+    const isNew = !this.buckets.buckets.includes(command.bucket);
+    try {
+      const connection = this.buckets.attach(command.bucket);
+      if (isNew) {
+        this.resultsTable.setContent(`{yellow-fg}Loading catalog of bucket ${blessed.escape(command.bucket)}...{/}`);
+        this.screen.render();
+        try {
+          await this.loadBucketTree(connection);
+        } catch (error) {
+          this.buckets.detach(command.bucket);
+          throw new Error(`Could not attach bucket ${command.bucket}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+      if (command.kind === 'use') {
+        this.buckets.use(command.bucket);
+      }
     } catch (error) {
-      this.showError('Failed to load namespaces: ' + (error instanceof Error ? error.message : String(error)));
+      this.showError(error instanceof Error ? error.message : String(error));
+      return;
+    }
+
+    const message = command.kind === 'use'
+      ? `Default bucket is now ${command.bucket} - tables found in several buckets are read from it`
+      : isNew ? `Attached bucket ${command.bucket}` : `Bucket ${command.bucket} is already attached`;
+    this.resultsTable.setContent(`{green-fg}✓ ${blessed.escape(message)}{/}`);
+    this.resultsTable.setLabel(' Results <3> ');
+
+    if (isNew) {
+      this.sidebarEntries = this.buildSidebarTree();
+      this.renderSidebar(0);
+    } else {
+      this.renderSidebar();
     }
   }
 
@@ -1972,16 +3462,8 @@ export class R2SQLTUI {
     this.searchBox.clearValue();
     this.searchBox.hide();
 
-    // Restore full results based on current view mode
-    if (this.resultsDisplayMode === 'data') {
-      this.displayResults(this.lastResultData, this.lastResultMetadata);
-    } else if (this.resultsDisplayMode === 'schema') {
-      this.displaySchema();
-    } else if (this.resultsDisplayMode === 'headers') {
-      this.displayHeaders();
-    } else if (this.resultsDisplayMode === 'metadata') {
-      this.displayTableMetadata();
-    }
+    // Restore full results - displayResults dispatches on the current view mode
+    this.displayResults(this.lastResultData, this.lastResultMetadata);
 
     this.resultsTable.focus();
     this.screen.render();
@@ -2011,16 +3493,8 @@ export class R2SQLTUI {
       // Update search box label to show it's ready
       this.searchBox.setLabel(' Search/Filter (searches column names & values) ');
 
-      // Reset based on current view mode
-      if (this.resultsDisplayMode === 'data') {
-        this.displayResults(this.lastResultData, this.lastResultMetadata);
-      } else if (this.resultsDisplayMode === 'schema') {
-        this.displaySchema();
-      } else if (this.resultsDisplayMode === 'headers') {
-        this.displayHeaders();
-      } else if (this.resultsDisplayMode === 'metadata') {
-        this.displayTableMetadata();
-      }
+      // Reset - displayResults dispatches on the current view mode
+      this.displayResults(this.lastResultData, this.lastResultMetadata);
 
       this.screen.render();
       return;
@@ -2157,6 +3631,14 @@ export class R2SQLTUI {
       } else {
         this.displayTableMetadata();
       }
+    } else if (this.resultsDisplayMode === 'snapshots') {
+      this.displaySnapshots(searchLower);
+    } else if (this.resultsDisplayMode === 'refs') {
+      this.displayRefs(searchLower);
+    } else if (this.resultsDisplayMode === 'partitions') {
+      this.displayPartitions(searchLower);
+    } else if (this.resultsDisplayMode === 'schema-history') {
+      this.displaySchemaHistory(searchLower);
     }
 
     this.screen.render();
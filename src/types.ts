@@ -1,10 +1,15 @@
 export interface R2SQLConfig {
   accountId: string;
-  bucketName: string;
+  bucketName: string; // Default bucket
   apiToken: string;
   warehouse: string;
   catalogEndpoint: string;
   debugEnabled?: boolean;
+  queryTimeout?: number; // Client-side per-query timeout in seconds (no timeout if unset)
+  r2AccessKeyId?: string; // S3 API credentials for reading manifests; derived from apiToken if unset
+  r2SecretAccessKey?: string;
+  profile?: string; // Stored profile the credentials came from, if any
+  buckets?: string[]; // All buckets attached at startup, default first; unset for a single bucket
 }
 
 export interface R2SQLQueryResult {
@@ -12,25 +17,68 @@ export interface R2SQLQueryResult {
   metadata?: {
     rowCount?: number;
     executionTime?: number;
+    filesScanned?: number;
     bytesScanned?: number;
+    retries?: number; // Number of retried attempts after transient failures
   };
   schema?: any;
   headers?: any;
   error?: string;
+  status?: number; // HTTP status when R2 SQL rejected the request
+  cancelled?: boolean; // True when the query was aborted by the user
+}
+
+export interface QueryExecution {
+  result: Promise<R2SQLQueryResult>;
+  cancel: () => void;
+}
+
+export type ScriptErrorMode = 'continue' | 'stop';
+
+export interface StatementResult {
+  index: number;
+  sql: string;
+  result?: R2SQLQueryResult; // Undefined when the statement was skipped
+}
+
+export type OutputFormat = 'csv' | 'tsv' | 'json' | 'ndjson' | 'table';
+
+export interface CatalogPage<T> {
+  items: T[];
+  nextPageToken?: string; // Pass as pageToken to fetch the next page, undefined on the last page
+}
+
+export interface PageOptions {
+  pageToken?: string;
+  pageSize?: number;
 }
 
 export interface IcebergNamespace {
   namespace: string[];
 }
 
+// Hierarchical namespace model - Iceberg namespaces can be nested (e.g. ns1.ns2)
+export interface NamespaceNode {
+  name: string; // Last level of the namespace, e.g. 'ns2'
+  path: string[]; // All levels, e.g. ['ns1', 'ns2']
+  children: NamespaceNode[];
+}
+
 export interface IcebergTable {
   namespace: string[];
   name: string;
 }
 
+// Response of POST /v1/namespaces/{namespace}/properties
+export interface NamespacePropertiesUpdate {
+  updated: string[];
+  removed: string[];
+  missing: string[]; // Removals for keys that didn't exist
+}
+
 export interface IcebergSchema {
   type: string;
-  schema_id: number;
+  'schema-id': number;
   fields: IcebergField[];
 }
 
@@ -39,6 +87,7 @@ export interface IcebergField {
   name: string;
   required: boolean;
   type: string | IcebergComplexType;
+  doc?: string;
 }
 
 export interface IcebergComplexType {
@@ -46,9 +95,50 @@ export interface IcebergComplexType {
   [key: string]: any;
 }
 
+export interface IcebergPartitionField {
+  'source-id': number;
+  'field-id': number;
+  name: string;
+  transform: string; // identity, year, month, day, hour, bucket[N], truncate[W]
+}
+
+export interface IcebergPartitionSpec {
+  'spec-id': number;
+  fields: IcebergPartitionField[];
+}
+
+// Body of POST /v1/namespaces/{namespace}/tables
+export interface CreateTableRequest {
+  name: string;
+  schema: IcebergSchema;
+  'partition-spec'?: IcebergPartitionSpec;
+  properties?: Record<string, string>;
+}
+
+// Iceberg REST table commit: requirements are checked atomically before the updates are applied
+export interface TableRequirement {
+  type: string; // e.g. 'assert-table-uuid', 'assert-ref-snapshot-id'
+  [key: string]: any;
+}
+
+export interface TableUpdate {
+  action: string; // e.g. 'set-snapshot-ref', 'remove-snapshot-ref'
+  [key: string]: any;
+}
+
+export type RefType = 'branch' | 'tag';
+
+// Retention settings of a branch or tag; tags only support maxRefAgeMs
+export interface RefRetention {
+  maxRefAgeMs?: number;
+  maxSnapshotAgeMs?: number;
+  minSnapshotsToKeep?: number;
+}
+
 export interface TableMetadata {
   name: string;
   namespace: string[];
   schema: IcebergSchema;
   fullMetadata?: any; // Full Iceberg metadata including snapshots, partition specs, etc.
+  metadataLocation?: string; // s3:// URI of the current metadata.json
 }
@@ -0,0 +1,109 @@
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import fetch from 'node-fetch';
+import * as TOML from '@iarna/toml';
+
+// `wrangler login` stores a short-lived OAuth access token and a refresh token in a TOML file. Reading
+// it lets anyone logged in with wrangler use the shell without creating a separate API token.
+
+// Wrangler's public OAuth client; refreshing a token requires the client it was issued to
+const WRANGLER_CLIENT_ID = '54d11594-84e4-41aa-b438-e81b8fa78ee7';
+const TOKEN_URL = 'https://dash.cloudflare.com/oauth2/token';
+
+// Tokens this close to expiring are refreshed up front so they don't lapse mid-session
+const EXPIRY_MARGIN_MS = 60_000;
+
+export interface WranglerConfig {
+  oauth_token?: string;
+  expiration_time?: string; // ISO timestamp
+  refresh_token?: string;
+  scopes?: string[];
+  api_token?: string; // Written by older wrangler versions instead of OAuth tokens
+}
+
+export interface WranglerToken {
+  accessToken: string;
+  configPath: string;
+}
+
+/**
+ * Where wrangler keeps its login, in the order wrangler checks: ~/.wrangler for older installs, then
+ * the platform's config directory
+ */
+export function getWranglerConfigPaths(): string[] {
+  const home = os.homedir();
+  const configDirs = [path.join(home, '.wrangler')];
+
+  if (process.platform === 'darwin') {
+    configDirs.push(path.join(home, 'Library', 'Preferences', '.wrangler'));
+  } else if (process.platform === 'win32') {
+    configDirs.push(path.join(process.env.APPDATA || path.join(home, 'AppData', 'Roaming'), 'xdg.config', '.wrangler'));
+  } else {
+    configDirs.push(path.join(process.env.XDG_CONFIG_HOME || path.join(home, '.config'), '.wrangler'));
+  }
+  return configDirs.map(dir => path.join(dir, 'config', 'default.toml'));
+}
+
+/**
+ * Whether the OAuth token has expired (or is about to). Tokens without an expiration_time are used as is.
+ */
+export function isWranglerTokenExpired(config: WranglerConfig, now: number = Date.now()): boolean {
+  if (!config.expiration_time) return false;
+  return now + EXPIRY_MARGIN_MS >= new Date(config.expiration_time).getTime();
+}
+
+/**
+ * Exchange the refresh token for a new access token and save both back to wrangler's config. Refresh
+ * tokens are single-use, so wrangler needs the new one too. Returns null when the refresh is rejected.
+ */
+async function refreshWranglerToken(config: WranglerConfig, configPath: string): Promise<WranglerConfig | null> {
+  const response = await fetch(TOKEN_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'refresh_token',
+      refresh_token: config.refresh_token!,
+      client_id: WRANGLER_CLIENT_ID,
+    }).toString(),
+  });
+  if (!response.ok) return null;
+
+  const data = await response.json() as { access_token?: string; refresh_token?: string; expires_in?: number; scope?: string };
+  if (!data.access_token) return null;
+
+  const refreshed: WranglerConfig = {
+    ...config,
+    oauth_token: data.access_token,
+    expiration_time: new Date(Date.now() + (data.expires_in ?? 3600) * 1000).toISOString(),
+    refresh_token: data.refresh_token || config.refresh_token,
+    scopes: data.scope ? data.scope.split(' ') : config.scopes,
+  };
+
+  const entries = Object.entries(refreshed).filter(([, value]) => value !== undefined);
+  fs.writeFileSync(configPath, TOML.stringify(Object.fromEntries(entries)), { mode: 0o600 });
+  return refreshed;
+}
+
+/**
+ * Wrangler's token, refreshed first if it has expired. Null when wrangler isn't logged in or an expired
+ * token can't be refreshed.
+ */
+export async function readWranglerToken(): Promise<WranglerToken | null> {
+  const configPath = getWranglerConfigPaths().find(candidate => fs.existsSync(candidate));
+  if (!configPath) return null;
+
+  const config = TOML.parse(fs.readFileSync(configPath, 'utf-8')) as WranglerConfig;
+  if (config.api_token) {
+    return { accessToken: config.api_token, configPath };
+  }
+  if (!config.oauth_token) return null;
+
+  if (!isWranglerTokenExpired(config)) {
+    return { accessToken: config.oauth_token, configPath };
+  }
+  if (!config.refresh_token) return null;
+
+  const refreshed = await refreshWranglerToken(config, configPath);
+  return refreshed?.oauth_token ? { accessToken: refreshed.oauth_token, configPath } : null;
+}